@@ -1,182 +1,371 @@
-import React, { useState, useEffect } from 'react';
-import { Upload, Image as ImageIcon, Download, Undo, Redo } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Upload, Image as ImageIcon, Undo, Redo, Layers, BarChart2, Film } from 'lucide-react';
+import BatchProcessor from './components/BatchProcessor';
+import ExportControls from './components/ExportControls';
 import ImageProcessor from './components/ImageProcessor';
+import ImageViewer from './components/ImageViewer';
+import Inspector from './components/Inspector';
+import MaskEditor from './components/MaskEditor';
+import OpenCvStatus from './components/OpenCvStatus';
 import ProcessingOptions from './components/ProcessingOptions';
-import { ProcessingOption, ProcessingParams, ProcessingStep, ProcessingHistory } from './types';
+import RecipeControls from './components/RecipeControls';
+import SessionControls from './components/SessionControls';
+import StepStack from './components/StepStack';
+import VideoProcessor from './components/VideoProcessor';
+import ZoomControls from './components/ZoomControls';
+import {
+  EMPTY_HISTORY,
+  activeSteps,
+  duplicateStep,
+  moveStep,
+  pushHistory,
+  redoHistory,
+  removeStep,
+  toggleStep,
+  undoHistory,
+  updateStep,
+} from './history';
+import { DEFAULT_PARAMS } from './processing/params';
+import { SessionState, createSession, listSessions, loadSession, saveSessionState } from './sessions/sessions';
+import { ProcessingOption, ProcessingParams, ProcessingStep, ProcessingHistory, StepMask } from './types';
+import { describeError } from './utils/errors';
+import { blobToDataUrl } from './utils/image';
+import { FIT_VIEWPORT, Size, Viewport } from './viewer/viewport';
+
+const TABS = [
+  { mode: 'single', label: 'Single Image', icon: <ImageIcon className="mr-2" size={18} /> },
+  { mode: 'inspect', label: 'Inspect', icon: <BarChart2 className="mr-2" size={18} /> },
+  { mode: 'batch', label: 'Batch', icon: <Layers className="mr-2" size={18} /> },
+  { mode: 'video', label: 'Video', icon: <Film className="mr-2" size={18} /> },
+] as const;
+
+const AUTOSAVE_DEBOUNCE_MS = 500;
 
 function App() {
+  const [mode, setMode] = useState<(typeof TABS)[number]['mode']>('single');
   const [image, setImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [stepReports, setStepReports] = useState<Record<string, string>>({});
+  const [previewing, setPreviewing] = useState(false);
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  const [viewport, setViewport] = useState<Viewport>(FIT_VIEWPORT);
   const [selectedOption, setSelectedOption] = useState<ProcessingOption | null>(null);
-  const [params, setParams] = useState<ProcessingParams>({
-    clipLimit: 2.0,
-    tileSize: 8,
-    threshold1: 50,
-    threshold2: 150,
-    sigma: 3,
-    amount: 1.5,
-    kernelSize: 3,
-    scale: 1,
-    threshold: 127,
-    colorMap: 2,
-    boostFactor: [1, 1, 1],
-    mixFactors: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
-    colorTint: [128, 128, 128],
-    retinexScales: [15, 80, 250],
-    gaborKernelSize: 31,
-    gaborSigma: 5,
-    gaborTheta: 0,
-    gaborLambda: 10,
-    gaborGamma: 0.5,
-    gaborPsi: 0
-  });
-  const [history, setHistory] = useState<ProcessingHistory>({
-    past: [],
-    present: null,
-    future: []
-  });
-  const [openCvLoaded, setOpenCvLoaded] = useState(false);
+  const [params, setParams] = useState<ProcessingParams>(DEFAULT_PARAMS);
+  const [mask, setMask] = useState<StepMask | null>(null);
+  const [history, setHistory] = useState<ProcessingHistory>(EMPTY_HISTORY);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionErrors, setSessionErrors] = useState<string[]>([]);
+  // The state last loaded from or written to the session, so opening one doesn't immediately save it again.
+  const savedState = useRef<SessionState | null>(null);
+  const steps = history.present;
+  const enabledSteps = useMemo(() => activeSteps(steps), [steps]);
+  const selectedIndex = steps.findIndex((step) => step.id === selectedStepId);
+  const editingIndex = selectedIndex === -1 ? null : selectedIndex;
+  const inputSteps = useMemo(
+    () => activeSteps(editingIndex === null ? steps : steps.slice(0, editingIndex)),
+    [steps, editingIndex]
+  );
 
-  useEffect(() => {
-    const script = document.createElement('script');
-    script.src = 'https://docs.opencv.org/4.5.5/opencv.js';
-    script.async = true;
-    script.onload = () => setOpenCvLoaded(true);
-    document.body.appendChild(script);
-
-    return () => {
-      document.body.removeChild(script);
-    };
+  // The option and params being tweaked, shown on top of (or in place of the
+  // edited step in) the committed chain until they are added.
+  const previewSteps = useMemo(() => {
+    if (!previewing || !selectedOption) {
+      return null;
+    }
+    const pending: ProcessingStep = { id: 'pending', option: selectedOption, params, mask: mask ?? undefined };
+    const chain = editingIndex === null
+      ? [...steps, pending]
+      : steps.map((step, index) => (index === editingIndex ? { ...step, ...pending, id: step.id } : step));
+    return activeSteps(chain);
+  }, [previewing, selectedOption, params, mask, steps, editingIndex]);
+
+  const showImage = useCallback((dataUrl: string, state: SessionState) => {
+    setImage(dataUrl);
+    setProcessedImage(null);
+    setHistory(state.history);
+    setSelectedOption(state.selectedOption);
+    setParams(state.params);
+    setSelectedStepId(null);
+    setMask(null);
+    setPreviewing(false);
+    setImageSize(null);
+    setViewport(FIT_VIEWPORT);
+    savedState.current = state;
   }, []);
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setImage(e.target?.result as string);
-        setProcessedImage(null);
-        setHistory({ past: [], present: null, future: [] });
-      };
-      reader.readAsDataURL(file);
+    if (!file) {
+      return;
+    }
+    showImage(await blobToDataUrl(file), { history: EMPTY_HISTORY, selectedOption, params });
+    setSessionId(null);
+    try {
+      const session = await createSession(file, file.name);
+      // The new session only holds the image; let autosave store the chain and the selected option.
+      savedState.current = null;
+      setSessionId(session.id);
+    } catch (error) {
+      setSessionErrors([`This image is not being saved: ${describeError(error)}`]);
     }
   };
 
+  const openSession = useCallback(async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      showImage(await blobToDataUrl(session.image), session.state);
+      setSessionId(id);
+      setSessionErrors(session.errors.map((error) => `Not restored from "${session.summary.name}": ${error}`));
+    } catch (error) {
+      setSessionErrors([`Could not open the session: ${describeError(error)}`]);
+    }
+  }, [showImage]);
+
+  // Reopen the most recent session after a reload.
+  useEffect(() => {
+    listSessions()
+      .then(([latest]) => latest && openSession(latest.id))
+      .catch((error) => setSessionErrors([`Could not list saved sessions: ${describeError(error)}`]));
+  }, [openSession]);
+
+  useEffect(() => {
+    const saved = savedState.current;
+    if (
+      !sessionId ||
+      (saved && saved.history === history && saved.selectedOption === selectedOption && saved.params === params)
+    ) {
+      return;
+    }
+    const state = { history, selectedOption, params };
+    const timer = setTimeout(() => {
+      saveSessionState(sessionId, state)
+        .then(() => {
+          savedState.current = state;
+        })
+        .catch((error) => setSessionErrors([`Autosave failed: ${describeError(error)}`]));
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, history, selectedOption, params]);
+
+  const editChain = (edit: (steps: ProcessingStep[]) => ProcessingStep[]) => {
+    setHistory((prevHistory) => pushHistory(prevHistory, edit(prevHistory.present)));
+  };
+
+  const changeOption = (option: ProcessingOption) => {
+    setSelectedOption(option);
+    setPreviewing(true);
+  };
+
+  const changeParams = (newParams: ProcessingParams) => {
+    setParams(newParams);
+    setPreviewing(true);
+  };
+
+  const changeMask = (newMask: StepMask | null) => {
+    setMask(newMask);
+    setPreviewing(true);
+  };
+
   const addStep = (step: ProcessingStep) => {
-    setHistory((prevHistory) => ({
-      past: [...prevHistory.past, step],
-      present: null,
-      future: []
-    }));
+    editChain((prevSteps) => [...prevSteps, step]);
+    setPreviewing(false);
+  };
+
+  const importSteps = (importedSteps: ProcessingStep[]) => {
+    editChain(() => importedSteps);
+    setSelectedStepId(null);
   };
 
-  const undo = () => {
-    setHistory((prevHistory) => {
-      const newPast = [...prevHistory.past];
-      const step = newPast.pop();
-      if (step) {
-        return {
-          past: newPast,
-          present: prevHistory.present,
-          future: [step, ...prevHistory.future]
-        };
-      }
-      return prevHistory;
-    });
+  const selectStep = (step: ProcessingStep) => {
+    setPreviewing(false);
+    if (step.id === selectedStepId) {
+      setSelectedStepId(null);
+      return;
+    }
+    setSelectedStepId(step.id);
+    setSelectedOption(step.option);
+    setParams(step.params);
+    setMask(step.mask ?? null);
   };
 
-  const redo = () => {
-    setHistory((prevHistory) => {
-      const newFuture = [...prevHistory.future];
-      const step = newFuture.shift();
-      if (step) {
-        return {
-          past: [...prevHistory.past, step],
-          present: prevHistory.present,
-          future: newFuture
-        };
-      }
-      return prevHistory;
-    });
+  const updateSelectedStep = (option: ProcessingOption, newParams: ProcessingParams) => {
+    if (selectedStepId) {
+      editChain((prevSteps) =>
+        updateStep(prevSteps, selectedStepId, { option, params: newParams, mask: mask ?? undefined })
+      );
+      setPreviewing(false);
+    }
   };
 
+  const undo = () => setHistory(undoHistory);
+
+  const redo = () => setHistory(redoHistory);
+
   return (
     <div className="min-h-screen bg-gray-100 p-8">
       <h1 className="text-3xl font-bold mb-8 text-center">Advanced Image Processing App</h1>
       <div className="max-w-6xl mx-auto bg-white rounded-lg shadow-md p-6">
-        <div className="mb-6">
+        <OpenCvStatus />
+        <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
           <label htmlFor="imageUpload" className="cursor-pointer inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600">
             <Upload className="mr-2" />
             Upload Image
           </label>
           <input id="imageUpload" type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
+          <div className="flex flex-wrap items-start gap-2">
+            <RecipeControls steps={steps} onImport={importSteps} />
+            <SessionControls
+              currentId={sessionId}
+              errors={sessionErrors}
+              onDismissErrors={() => setSessionErrors([])}
+              onOpen={openSession}
+              onDeleted={(id) => id === sessionId && setSessionId(null)}
+            />
+          </div>
+        </div>
+
+        <div className="mb-6 flex border-b">
+          {TABS.map((tab) => (
+            <button
+              key={tab.mode}
+              className={`inline-flex items-center px-4 py-2 -mb-px border-b-2 ${
+                mode === tab.mode ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-800'
+              }`}
+              onClick={() => setMode(tab.mode)}
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
         </div>
 
-        {image && (
-          <div className="flex flex-col md:flex-row gap-6">
-            <div className="w-full md:w-1/2">
-              <h2 className="text-xl font-semibold mb-2">Original Image</h2>
-              <img src={image} alt="Original" className="max-w-full h-auto" />
-            </div>
-            <div className="w-full md:w-1/2">
-              <h2 className="text-xl font-semibold mb-2">Processed Image</h2>
-              {processedImage ? (
-                <img src={processedImage} alt="Processed" className="max-w-full h-auto" />
-              ) : (
-                <div className="flex items-center justify-center h-64 bg-gray-200 text-gray-500">
-                  <ImageIcon size={48} />
+        {mode === 'batch' ? (
+          <BatchProcessor steps={enabledSteps} />
+        ) : mode === 'video' ? (
+          <VideoProcessor steps={enabledSteps} />
+        ) : mode === 'inspect' ? (
+          image ? (
+            <Inspector image={image} steps={enabledSteps} />
+          ) : (
+            <p className="text-gray-600">Upload an image to inspect its histograms and compare the steps of the chain.</p>
+          )
+        ) : (
+          <>
+            {image && (
+              <div className="mb-4 flex justify-end">
+                <ZoomControls viewport={viewport} onChange={setViewport} />
+              </div>
+            )}
+
+            {image && (
+              <div className="flex flex-col md:flex-row gap-6">
+                <div className="w-full md:w-1/2">
+                  <h2 className="text-xl font-semibold mb-2">Original Image</h2>
+                  <MaskEditor
+                    image={image}
+                    mask={mask}
+                    onChange={changeMask}
+                    viewport={viewport}
+                    onViewportChange={setViewport}
+                    onImageLoad={setImageSize}
+                  />
                 </div>
-              )}
-            </div>
-          </div>
-        )}
+                <div className="w-full md:w-1/2">
+                  <h2 className="text-xl font-semibold mb-2">
+                    Processed Image
+                    {previewImage && (
+                      <span className="ml-2 align-middle text-xs font-medium px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                        Preview · not yet applied
+                      </span>
+                    )}
+                  </h2>
+                  {previewImage || processedImage ? (
+                    <ImageViewer
+                      src={previewImage ?? processedImage!}
+                      label="Processed image"
+                      viewport={viewport}
+                      onViewportChange={setViewport}
+                      referenceSize={imageSize}
+                    />
+                  ) : (
+                    <div className="flex items-center justify-center h-64 bg-gray-200 text-gray-500">
+                      <ImageIcon size={48} />
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
 
-        {image && (
-          <div className="mt-6">
-            <ProcessingOptions
-              selectedOption={selectedOption}
-              setSelectedOption={setSelectedOption}
-              params={params}
-              setParams={setParams}
-              addStep={addStep}
-            />
-          </div>
-        )}
+            {image && (
+              <div className="mt-6 flex flex-col lg:flex-row gap-6">
+                <div className="flex-1">
+                  <ProcessingOptions
+                    selectedOption={selectedOption}
+                    setSelectedOption={changeOption}
+                    params={params}
+                    setParams={changeParams}
+                    mask={mask}
+                    image={image}
+                    inputSteps={inputSteps}
+                    addStep={addStep}
+                    editingIndex={editingIndex}
+                    updateStep={updateSelectedStep}
+                    cancelEdit={() => {
+                      setSelectedStepId(null);
+                      setPreviewing(false);
+                    }}
+                  />
+                </div>
+                <div className="w-full lg:w-80">
+                  <StepStack
+                    steps={steps}
+                    selectedStepId={selectedStepId}
+                    reports={stepReports}
+                    onSelect={selectStep}
+                    onToggle={(id) => editChain((prevSteps) => toggleStep(prevSteps, id))}
+                    onDuplicate={(id) => editChain((prevSteps) => duplicateStep(prevSteps, id))}
+                    onRemove={(id) => editChain((prevSteps) => removeStep(prevSteps, id))}
+                    onMove={(from, to) => editChain((prevSteps) => moveStep(prevSteps, from, to))}
+                  />
+                </div>
+              </div>
+            )}
 
-        {image && openCvLoaded && history.past.length > 0 && (
-          <ImageProcessor
-            image={image}
-            steps={history.past}
-            setProcessedImage={setProcessedImage}
-          />
-        )}
+            {image && (
+              <ImageProcessor
+                image={image}
+                steps={enabledSteps}
+                setProcessedImage={setProcessedImage}
+                setStepReports={setStepReports}
+                previewSteps={previewSteps}
+                setPreviewImage={setPreviewImage}
+              />
+            )}
 
-        {processedImage && (
-          <div className="mt-6 flex justify-between">
-            <div>
-              <button
-                className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 mr-2"
-                onClick={undo}
-                disabled={history.past.length === 0}
-              >
-                <Undo className="inline-block mr-1" /> Undo
-              </button>
-              <button
-                className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600"
-                onClick={redo}
-                disabled={history.future.length === 0}
-              >
-                <Redo className="inline-block mr-1" /> Redo
-              </button>
-            </div>
-            <a
-              href={processedImage}
-              download="processed_image.png"
-              className="px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600"
-            >
-              <Download className="inline-block mr-1" /> Download Processed Image
-            </a>
-          </div>
+            {image && (
+              <div className="mt-6 flex justify-between">
+                <div>
+                  <button
+                    className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 mr-2"
+                    onClick={undo}
+                    disabled={history.past.length === 0}
+                  >
+                    <Undo className="inline-block mr-1" /> Undo
+                  </button>
+                  <button
+                    className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600"
+                    onClick={redo}
+                    disabled={history.future.length === 0}
+                  >
+                    <Redo className="inline-block mr-1" /> Redo
+                  </button>
+                </div>
+                <ExportControls image={image} steps={enabledSteps} />
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
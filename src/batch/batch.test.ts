@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILENAME_TEMPLATE, dedupeFilenames, renderFilename, runWithConcurrency, stripExtension } from './batch';
+
+const fields = { name: 'photo', index: 7, count: 120, ext: 'png', date: new Date(2024, 0, 5) };
+
+describe('renderFilename', () => {
+  it('fills in the fields, padding the index to the width of the count', () => {
+    expect(renderFilename(DEFAULT_FILENAME_TEMPLATE, fields)).toBe('photo_processed.png');
+    expect(renderFilename('{date}/{index}-{name}.{ext}', fields)).toBe('2024-01-05_007-photo.png');
+  });
+
+  it('leaves unknown fields alone and replaces characters file systems reject', () => {
+    expect(renderFilename('{name}:{size}?.{ext}', fields)).toBe('photo_{size}_.png');
+  });
+
+  it('falls back to the index when the template renders to nothing', () => {
+    expect(renderFilename('', fields)).toBe('007.png');
+  });
+});
+
+describe('stripExtension', () => {
+  it('removes only the last extension', () => {
+    expect(stripExtension('archive.tar.gz')).toBe('archive.tar');
+    expect(stripExtension('README')).toBe('README');
+  });
+});
+
+describe('dedupeFilenames', () => {
+  it('numbers repeats before the extension', () => {
+    expect(dedupeFilenames(['a.png', 'a.png', 'b', 'b', 'a.png'])).toEqual(['a.png', 'a-2.png', 'b', 'b-2', 'a-3.png']);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('runs every item with at most `limit` in flight, each on a fixed slot', async () => {
+    let inFlight = 0;
+    let most = 0;
+    const seen: [number, number][] = [];
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item, slot) => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, item));
+      seen.push([item, slot]);
+      inFlight--;
+    });
+    expect(most).toBe(2);
+    expect(seen.map(([item]) => item).sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(new Set(seen.map(([, slot]) => slot))).toEqual(new Set([0, 1]));
+  });
+});
@@ -0,0 +1,88 @@
+export const DEFAULT_FILENAME_TEMPLATE = '{name}_processed.{ext}';
+
+export interface FilenameFields {
+  /** Source file name without its extension. */
+  name: string;
+  /** 1-based position in the batch. */
+  index: number;
+  count: number;
+  ext: string;
+  date: Date;
+}
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+/**
+ * Expands `{name}`, `{index}` (zero-padded to the batch size), `{ext}` and
+ * `{date}` (YYYY-MM-DD) in `template`. Unknown tokens are left as written.
+ */
+export const renderFilename = (template: string, fields: FilenameFields): string => {
+  const values: Record<string, string> = {
+    name: fields.name,
+    index: pad(fields.index, String(fields.count).length),
+    ext: fields.ext,
+    date: `${fields.date.getFullYear()}-${pad(fields.date.getMonth() + 1, 2)}-${pad(fields.date.getDate(), 2)}`,
+  };
+  const rendered = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+  return rendered.replace(/[\\/:*?"<>|]/g, '_') || `${values.index}.${fields.ext}`;
+};
+
+export const stripExtension = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+/** Makes every name unique by suffixing repeats with `-2`, `-3`, ... before the extension. */
+export const dedupeFilenames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) {
+      const dot = name.lastIndexOf('.');
+      candidate = dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+    }
+    used.add(candidate);
+    return candidate;
+  });
+};
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns directory contents in chunks until it yields an empty list.
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) {
+      files.push(...(await collectEntry(child)));
+    }
+  }
+  return files;
+};
+
+/** Image files from a drop, walking into any dropped directories. */
+export const collectDroppedImages = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(collectEntry))).flat()
+    : Array.from(dataTransfer.files);
+  return files.filter((file) => file.type.startsWith('image/'));
+};
+
+/** Calls `task` for every item with at most `limit` in flight; `slot` identifies the free lane. */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T, slot: number) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const lane = async (slot: number) => {
+    while (next < items.length) {
+      await task(items[next++], slot);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, (_, slot) => lane(slot)));
+};
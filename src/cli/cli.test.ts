@@ -0,0 +1,98 @@
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { encodePng } from '../export/png';
+import { RgbaImage } from '../processing/backend';
+import { createStep } from '../history';
+import { DEFAULT_PARAMS } from '../processing/params';
+import { createRecipe, serializeRecipe } from '../recipes/recipe';
+import { compareImages, testImage, translucentPixels } from '../test/images';
+import { ProcessingOption, ProcessingParams, ProcessingStep } from '../types';
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, main } from './cli';
+import { decodePng } from './images';
+
+const step = (option: ProcessingOption, params: Partial<ProcessingParams> = {}) =>
+  createStep(option, { ...DEFAULT_PARAMS, ...params });
+
+const GOLDEN_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'golden');
+
+/**
+ * Compares `result` with the committed PNG `golden/<name>.png`, so a change
+ * to the shared processing code cannot move the runner and the expectation
+ * together. Regenerate the goldens with `UPDATE_GOLDENS=1 npx vitest run src/cli`
+ * only for an intended change, and look at the new images before committing.
+ */
+const expectGolden = async (result: RgbaImage, name: string) => {
+  const file = path.join(GOLDEN_DIR, `${name}.png`);
+  if (process.env.UPDATE_GOLDENS) {
+    await writeFile(file, await encodePng(result));
+  }
+  if (!existsSync(file)) {
+    throw new Error(`Missing golden image ${file}; run with UPDATE_GOLDENS=1 to create it.`);
+  }
+  expect(compareImages(result, decodePng(new Uint8Array(await readFile(file))), 0).max).toBe(0);
+};
+
+describe('command-line runner', () => {
+  let dir: string;
+  const image = testImage();
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'image-mod-cli-'));
+    await writeFile(path.join(dir, 'input.png'), await encodePng(image));
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  const run = async (steps: ProcessingStep[]) => {
+    await writeFile(path.join(dir, 'recipe.json'), serializeRecipe(createRecipe(steps)));
+    const output = path.join(dir, 'output.png');
+    const code = await main(['--recipe', path.join(dir, 'recipe.json'), '--output', output, path.join(dir, 'input.png')]);
+    return { code, result: code === EXIT_OK ? decodePng(new Uint8Array(await readFile(output))) : null };
+  };
+
+  it('reproduces the golden output of a chain that passes float results between steps', async () => {
+    // High-pass and custom kernel results go negative, which an 8-bit chain would clip.
+    const steps = [
+      step('Multi-Scale Retinex'),
+      step('Frequency Filter', { frequencyBand: 1 }),
+      step('Custom Kernel'),
+      step('Gabor Bank'),
+      step('Thresholding', { thresholdMethod: 1 }),
+    ];
+    const { code, result } = await run(steps);
+    expect(code).toBe(EXIT_OK);
+    await expectGolden(result!, 'float-chain');
+    expect(translucentPixels(result!)).toBe(0);
+  });
+
+  it('reproduces the golden output of steps that fall back from functions OpenCV.js lacks', async () => {
+    const steps = [step('Unsharp Masking'), step('Gabor Filter'), step('Pseudocolor Mapping'), step('Color Boosting')];
+    const { code, result } = await run(steps);
+    expect(code).toBe(EXIT_OK);
+    await expectGolden(result!, 'fallbacks');
+  });
+
+  it('fails JPEG inputs with an explicit message', async () => {
+    const input = path.join(dir, 'photo.jpg');
+    await writeFile(input, new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 16]));
+    await writeFile(path.join(dir, 'recipe.json'), serializeRecipe(createRecipe([step('Color Inversion')])));
+    const errors: unknown[] = [];
+    const spy = vi.spyOn(console, 'error').mockImplementation((message) => errors.push(message));
+    try {
+      const code = await main(['--recipe', path.join(dir, 'recipe.json'), '--output', path.join(dir, 'photo.png'), input]);
+      expect(code).toBe(EXIT_FAILED);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(errors.join('\n')).toContain('JPEG is not supported');
+  });
+
+  it('rejects a recipe the editor could not have produced', async () => {
+    const { code } = await run([step('Laplacian Filtering', { kernelSize: 4 })]);
+    expect(code).toBe(EXIT_USAGE);
+  });
+});
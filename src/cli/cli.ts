@@ -0,0 +1,155 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_FILENAME_TEMPLATE, dedupeFilenames, renderFilename, stripExtension } from '../batch/batch';
+import { encodePng } from '../export/png';
+import { activeSteps } from '../history';
+import { runSteps } from '../processing/backend';
+import { validatePipeline } from '../processing/formats';
+import { operationLabel } from '../processing/operations';
+import { loadNodeOpenCv } from '../processing/nodeOpenCv';
+import { createOpenCvBackend } from '../processing/opencvBackend';
+import { parseRecipe } from '../recipes/recipe';
+import { ProcessingStep } from '../types';
+import { describeError, describeOpenCvError } from '../utils/errors';
+import { expandInputs } from './glob';
+import { decodeImage } from './images';
+
+export const EXIT_OK = 0;
+/** Some inputs could not be read, processed or written; the others were. */
+export const EXIT_FAILED = 1;
+/** Bad arguments, an invalid recipe or no inputs; nothing was processed. */
+export const EXIT_USAGE = 2;
+
+const USAGE = `Usage: image-mod --recipe <recipe.json> --output <path> [options] <input>...
+
+Applies a processing chain to PNG, PGM or PPM images and writes PNGs.
+
+  -r, --recipe <file>   Recipe exported from the editor, or a JSON array of steps
+  -o, --output <path>   Output file for a single input, otherwise a directory
+  -n, --name <template> File names in an output directory (default "${DEFAULT_FILENAME_TEMPLATE}");
+                        {name}, {index}, {ext} and {date} are filled in
+  -v, --verbose         Print each file written and what steps reported
+  -h, --help            Show this help
+
+Inputs may be files or quoted globs such as 'photos/**/*.png'.
+Exit codes: 0 success, 1 some inputs failed, 2 bad arguments or recipe.`;
+
+const isDirectory = (target: string) =>
+  stat(target).then(
+    (stats) => stats.isDirectory(),
+    () => false
+  );
+
+const loadSteps = async (recipePath: string): Promise<{ steps: ProcessingStep[] } | { errors: string[] }> => {
+  let text: string;
+  try {
+    text = await readFile(recipePath, 'utf8');
+  } catch (error) {
+    return { errors: [`Could not read recipe: ${describeError(error)}`] };
+  }
+  const result = parseRecipe(text);
+  if (!result.ok) {
+    return { errors: result.errors };
+  }
+  const steps = activeSteps(result.steps);
+  const issues = validatePipeline(steps);
+  if (issues.length > 0) {
+    return { errors: issues.map((issue) => issue.message) };
+  }
+  return { steps };
+};
+
+/** Output path for each input: `output` itself for one input, else a file named from `template` inside it. */
+const outputPaths = async (files: string[], output: string, template: string): Promise<string[]> => {
+  if (files.length === 1 && !output.endsWith('/') && !output.endsWith(path.sep) && !(await isDirectory(output))) {
+    return [output];
+  }
+  const date = new Date();
+  const names = files.map((file, index) =>
+    renderFilename(template, {
+      name: stripExtension(path.basename(file)),
+      index: index + 1,
+      count: files.length,
+      ext: 'png',
+      date,
+    })
+  );
+  return dedupeFilenames(names).map((name) => path.join(output, name));
+};
+
+const parseOptions = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      recipe: { type: 'string', short: 'r' },
+      output: { type: 'string', short: 'o' },
+      name: { type: 'string', short: 'n', default: DEFAULT_FILENAME_TEMPLATE },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+/** Runs the command line `args` (without node and the script) and resolves to the exit code. */
+export const main = async (args: string[]): Promise<number> => {
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(`${describeError(error)}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const { values, positionals } = options;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (!values.recipe || !values.output || positionals.length === 0) {
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const loaded = await loadSteps(values.recipe);
+  if ('errors' in loaded) {
+    loaded.errors.forEach((error) => console.error(`${values.recipe}: ${error}`));
+    return EXIT_USAGE;
+  }
+  const { files, unmatched } = await expandInputs(positionals);
+  unmatched.forEach((pattern) => console.error(`No files match ${pattern}`));
+  if (files.length === 0) {
+    return EXIT_USAGE;
+  }
+
+  let cv: any;
+  try {
+    ({ cv } = await loadNodeOpenCv());
+  } catch (error) {
+    console.error(describeError(error));
+    return EXIT_FAILED;
+  }
+  // The same OpenCV path as the editor's worker, so float intermediates carry over between steps.
+  const backend = createOpenCvBackend(cv);
+
+  const outputs = await outputPaths(files, values.output, values.name!);
+  let failures = unmatched.length;
+  for (let i = 0; i < files.length; i++) {
+    try {
+      const image = decodeImage(new Uint8Array(await readFile(files[i])));
+      const result = runSteps(backend, image, loaded.steps, (step, message) => {
+        if (values.verbose) {
+          console.error(`${files[i]}: ${operationLabel(step.option)}: ${message}`);
+        }
+      });
+      await mkdir(path.dirname(outputs[i]), { recursive: true });
+      await writeFile(outputs[i], await encodePng(result));
+      if (values.verbose) {
+        console.error(`${files[i]} -> ${outputs[i]}`);
+      }
+    } catch (error) {
+      failures++;
+      console.error(`${files[i]}: ${describeOpenCvError(cv, error)}`);
+    }
+  }
+  return failures > 0 ? EXIT_FAILED : EXIT_OK;
+};
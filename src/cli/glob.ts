@@ -0,0 +1,84 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const hasMagic = (pattern: string) => /[*?[{]/.test(pattern);
+
+/**
+ * Converts a glob to a regular expression over `/`-separated paths. Supports
+ * `*`, `?`, `**` (any number of directories), `[...]` and `{a,b}`.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:[^/]*/)*' : '.*';
+      i += slash ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (ch === '{' && !inGroup) {
+      source += '(?:';
+      inGroup = true;
+    } else if (ch === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (ch === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+  const fixed = segments.findIndex(hasMagic);
+  const base = segments.slice(0, fixed).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const matcher = globToRegExp(segments.slice(fixed).join('/'));
+  let entries: string[];
+  try {
+    entries = await readdir(base, { recursive: true });
+  } catch {
+    return [];
+  }
+  const matches: string[] = [];
+  for (const entry of entries) {
+    const relative = entry.split(path.sep).join('/');
+    if (matcher.test(relative) && (await stat(path.join(base, entry))).isFile()) {
+      matches.push(path.join(base, entry));
+    }
+  }
+  return matches.sort();
+};
+
+/**
+ * Expands the input arguments to files, in order and without repeats.
+ * Arguments without glob characters are kept as given, so a missing file is
+ * reported when it is read; globs matching nothing are returned in `unmatched`.
+ */
+export const expandInputs = async (patterns: string[]): Promise<{ files: string[]; unmatched: string[] }> => {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+  for (const pattern of patterns) {
+    const matches = hasMagic(pattern) ? await expandGlob(pattern) : [pattern];
+    if (matches.length === 0) {
+      unmatched.push(pattern);
+    }
+    matches.forEach((file) => files.add(file));
+  }
+  return { files: [...files], unmatched };
+};
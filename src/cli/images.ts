@@ -0,0 +1,233 @@
+import { inflateSync } from 'node:zlib';
+import { PNG_SIGNATURE } from '../export/png';
+import { RgbaImage } from '../processing/backend';
+
+const COLOR_TYPE_GRAY = 0;
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_PALETTE = 3;
+const COLOR_TYPE_GRAY_ALPHA = 4;
+const COLOR_TYPE_RGBA = 6;
+
+const CHANNELS: Record<number, number> = {
+  [COLOR_TYPE_GRAY]: 1,
+  [COLOR_TYPE_RGB]: 3,
+  [COLOR_TYPE_PALETTE]: 1,
+  [COLOR_TYPE_GRAY_ALPHA]: 2,
+  [COLOR_TYPE_RGBA]: 4,
+};
+
+// Adam7 passes: x start, y start, x step, y step.
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+const predict = (filter: number, left: number, up: number, upLeft: number): number => {
+  switch (filter) {
+    case 0:
+      return 0;
+    case 1:
+      return left;
+    case 2:
+      return up;
+    case 3:
+      return (left + up) >> 1;
+    case 4:
+      return paeth(left, up, upLeft);
+    default:
+      throw new Error(`Corrupt PNG: unknown row filter ${filter}.`);
+  }
+};
+
+/** Reverses the per-row filters of one (sub)image in place; `bpp` is bytes per pixel, at least 1. */
+const unfilter = (data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number) => {
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (rowBytes + 1)];
+    const row = offset + y * (rowBytes + 1) + 1;
+    const previous = row - rowBytes - 1;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bpp ? data[row + i - bpp] : 0;
+      const up = y > 0 ? data[previous + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? data[previous + i - bpp] : 0;
+      data[row + i] = (data[row + i] + predict(filter, left, up, upLeft)) & 0xff;
+    }
+  }
+};
+
+/**
+ * Decodes a PNG of any standard colour type and bit depth, interlaced or not,
+ * to 8-bit RGBA the way browsers do: 16-bit samples are rounded to 8 bits and
+ * tRNS transparency is applied. Colour profiles and gamma are ignored.
+ */
+export const decodePng = (bytes: Uint8Array): RgbaImage => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette = new Uint8Array(0);
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlaced = data[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || CHANNELS[colorType] === undefined) {
+    throw new Error('Corrupt PNG: missing or unsupported IHDR chunk.');
+  }
+
+  const raw = new Uint8Array(inflateSync(Buffer.concat(compressed)));
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (row: number, x: number, channel: number): number => {
+    const index = x * channels + channel;
+    if (bitDepth === 16) {
+      return (raw[row + index * 2] << 8) | raw[row + index * 2 + 1];
+    }
+    if (bitDepth === 8) {
+      return raw[row + index];
+    }
+    const bit = index * bitDepth;
+    return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8 = (value: number) => (bitDepth === 16 ? Math.round(value / 257) : Math.round((value * 255) / maxSample));
+  // tRNS for gray and RGB images holds the one colour (as 16-bit samples) that is fully transparent.
+  const transparentValue = (channel: number) =>
+    transparency ? (transparency[channel * 2] << 8) | transparency[channel * 2 + 1] : -1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const passes = interlaced ? ADAM7 : [[0, 0, 1, 1]];
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    if (offset + (rowBytes + 1) * passHeight > raw.length) {
+      throw new Error('Corrupt PNG: image data is truncated.');
+    }
+    unfilter(raw, offset, rowBytes, passHeight, bpp);
+    for (let py = 0; py < passHeight; py++) {
+      const row = offset + py * (rowBytes + 1) + 1;
+      for (let px = 0; px < passWidth; px++) {
+        const out = ((y0 + py * dy) * width + x0 + px * dx) * 4;
+        let rgba: number[];
+        if (colorType === COLOR_TYPE_PALETTE) {
+          const entry = sample(row, px, 0);
+          const alpha = transparency && entry < transparency.length ? transparency[entry] : 255;
+          rgba = [palette[entry * 3], palette[entry * 3 + 1], palette[entry * 3 + 2], alpha];
+        } else if (colorType === COLOR_TYPE_GRAY || colorType === COLOR_TYPE_GRAY_ALPHA) {
+          const gray = sample(row, px, 0);
+          const alpha =
+            colorType === COLOR_TYPE_GRAY_ALPHA ? to8(sample(row, px, 1)) : gray === transparentValue(0) ? 0 : 255;
+          rgba = [to8(gray), to8(gray), to8(gray), alpha];
+        } else {
+          const rgb = [0, 1, 2].map((channel) => sample(row, px, channel));
+          const opaque = rgb.some((value, channel) => value !== transparentValue(channel));
+          const alpha = colorType === COLOR_TYPE_RGBA ? to8(sample(row, px, 3)) : opaque ? 255 : 0;
+          rgba = [...rgb.map(to8), alpha];
+        }
+        data.set(rgba, out);
+      }
+    }
+    offset += (rowBytes + 1) * passHeight;
+  }
+  return { width, height, data };
+};
+
+/** Decodes a binary PGM (P5) or PPM (P6) image with up to 16 bits per sample. */
+export const decodePnm = (bytes: Uint8Array): RgbaImage => {
+  const fields: number[] = [];
+  let offset = 2;
+  while (fields.length < 3) {
+    while (offset < bytes.length && /\s/.test(String.fromCharCode(bytes[offset]))) {
+      offset++;
+    }
+    if (bytes[offset] === 0x23) {
+      while (offset < bytes.length && bytes[offset] !== 0x0a) {
+        offset++;
+      }
+      continue;
+    }
+    const start = offset;
+    while (offset < bytes.length && /\d/.test(String.fromCharCode(bytes[offset]))) {
+      offset++;
+    }
+    if (start === offset) {
+      throw new Error('Corrupt PNM header.');
+    }
+    fields.push(Number(String.fromCharCode(...bytes.subarray(start, offset))));
+  }
+  offset++;
+  const [width, height, maxValue] = fields;
+  const channels = bytes[1] === 0x36 ? 3 : 1;
+  const wide = maxValue > 255;
+  const count = width * height * channels;
+  if (offset + count * (wide ? 2 : 1) > bytes.length) {
+    throw new Error('Corrupt PNM: image data is truncated.');
+  }
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) {
+      const index = i * channels + (channels === 3 ? c : 0);
+      const value = wide ? (bytes[offset + index * 2] << 8) | bytes[offset + index * 2 + 1] : bytes[offset + index];
+      data[i * 4 + c] = Math.round((value * 255) / maxValue);
+    }
+    data[i * 4 + 3] = 255;
+  }
+  return { width, height, data };
+};
+
+const startsWith = (bytes: Uint8Array, prefix: ArrayLike<number>) =>
+  bytes.length >= prefix.length && Array.from(prefix).every((byte, i) => bytes[i] === byte);
+
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+
+/** Decodes PNG, PGM or PPM bytes, picked by their signature rather than the file name. */
+export const decodeImage = (bytes: Uint8Array): RgbaImage => {
+  if (startsWith(bytes, JPEG_SIGNATURE)) {
+    throw new Error('JPEG is not supported by the command-line runner; convert the file to PNG first.');
+  }
+  if (startsWith(bytes, PNG_SIGNATURE)) {
+    return decodePng(bytes);
+  }
+  if (bytes[0] === 0x50 && (bytes[1] === 0x35 || bytes[1] === 0x36)) {
+    return decodePnm(bytes);
+  }
+  throw new Error('Unsupported image format; the command-line runner reads PNG, binary PGM (P5) and PPM (P6).');
+};
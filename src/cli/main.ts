@@ -0,0 +1,11 @@
+import { EXIT_FAILED, main } from './cli';
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = EXIT_FAILED;
+  }
+);
@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, Download, FolderOpen, Loader, Play, Square, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  collectDroppedImages,
+  dedupeFilenames,
+  renderFilename,
+  runWithConcurrency,
+  stripExtension,
+} from '../batch/batch';
+import { validatePipeline } from '../processing/formats';
+import { operationLabel } from '../processing/operations';
+import { ProcessingStep } from '../types';
+import { describeError } from '../utils/errors';
+import { downloadBlob, fileToImageData, imageDataToBlob } from '../utils/image';
+import { createZip } from '../utils/zip';
+import { POOL_SIZE, PipelineClient, createPipelineClient } from '../workers/pipelineClient';
+
+interface BatchProcessorProps {
+  steps: ProcessingStep[];
+}
+
+type BatchStatus = 'queued' | 'processing' | 'done' | 'error';
+
+interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchStatus;
+  progress: number;
+  error?: string;
+  output?: Blob;
+}
+
+const MAX_CONCURRENCY = POOL_SIZE;
+
+let nextItemId = 1;
+
+const BatchProcessor: React.FC<BatchProcessorProps> = ({ steps }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [template, setTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [concurrency, setConcurrency] = useState(Math.min(2, MAX_CONCURRENCY));
+  const [running, setRunning] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const clientsRef = useRef<PipelineClient[]>([]);
+  const stoppedRef = useRef(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const issues = useMemo(() => validatePipeline(steps), [steps]);
+  const done = items.filter((item) => item.status === 'done');
+  const failed = items.filter((item) => item.status === 'error');
+
+  const updateItem = (id: number, update: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  };
+
+  const addFiles = (files: File[]) => {
+    setItems((current) => [
+      ...current,
+      ...files.map((file) => ({ id: nextItemId++, file, status: 'queued' as const, progress: 0 })),
+    ]);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    addFiles(await collectDroppedImages(event.dataTransfer));
+  };
+
+  const processItem = async (item: BatchItem, client: PipelineClient) => {
+    if (stoppedRef.current) {
+      return;
+    }
+    updateItem(item.id, { status: 'processing', progress: 0, error: undefined });
+    let image: ImageData | null = null;
+    try {
+      image = await fileToImageData(item.file);
+      // Stop closes the clients, so nothing may be started on them once it has been pressed.
+      if (stoppedRef.current) {
+        updateItem(item.id, { status: 'queued', progress: 0 });
+        return;
+      }
+      const result = await client.runPipeline(image, steps, (completed, total) => {
+        updateItem(item.id, { progress: completed / total });
+      }).promise;
+      if (!result) {
+        updateItem(item.id, { status: 'queued', progress: 0 });
+        return;
+      }
+      updateItem(item.id, { status: 'done', progress: 1, output: await imageDataToBlob(result) });
+    } catch (error) {
+      updateItem(item.id, { status: 'error', error: describeError(error) });
+    } finally {
+      if (image) {
+        client.releaseSource(image);
+      }
+    }
+  };
+
+  const run = async () => {
+    const pending = items.filter((item) => item.status !== 'done');
+    stoppedRef.current = false;
+    setRunning(true);
+    // One client per slot, each on its own pool worker, so items run in parallel.
+    clientsRef.current = Array.from({ length: Math.min(concurrency, pending.length) }, (_, slot) =>
+      createPipelineClient(slot)
+    );
+    try {
+      await runWithConcurrency(pending, concurrency, (item, slot) => processItem(item, clientsRef.current[slot]));
+    } finally {
+      clientsRef.current.forEach((client) => client.close());
+      clientsRef.current = [];
+      setRunning(false);
+    }
+  };
+
+  const stop = () => {
+    stoppedRef.current = true;
+    clientsRef.current.forEach((client) => client.close());
+  };
+
+  // Stop a run still going when the tab is left.
+  useEffect(() => {
+    return () => {
+      stoppedRef.current = true;
+      clientsRef.current.forEach((client) => client.close());
+    };
+  }, []);
+
+  const downloadZip = async () => {
+    const date = new Date();
+    const names = dedupeFilenames(
+      done.map((item) =>
+        renderFilename(template, {
+          name: stripExtension(item.file.name),
+          index: items.indexOf(item) + 1,
+          count: items.length,
+          ext: 'png',
+          date,
+        })
+      )
+    );
+    const entries = await Promise.all(
+      done.map(async (item, i) => ({ name: names[i], data: new Uint8Array(await item.output!.arrayBuffer()) }))
+    );
+    downloadBlob(createZip(entries), 'processed_images.zip');
+  };
+
+  const statusIcon = (item: BatchItem) => {
+    switch (item.status) {
+      case 'processing':
+        return <Loader className="animate-spin text-blue-500" size={16} />;
+      case 'done':
+        return <CheckCircle className="text-green-500" size={16} />;
+      case 'error':
+        return <AlertTriangle className="text-red-500" size={16} />;
+      default:
+        return <span className="inline-block w-4 h-4 rounded-full border-2 border-gray-300" />;
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Batch Processing</h2>
+      {steps.length === 0 ? (
+        <p className="text-gray-600 mb-4">
+          Build a processing chain on a single image first (or import a recipe); it will be applied to every file here.
+        </p>
+      ) : (
+        <p className="text-gray-600 mb-4">
+          Applying {steps.length} step{steps.length === 1 ? '' : 's'}: {steps.map((step) => operationLabel(step.option)).join(' → ')}
+        </p>
+      )}
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm">
+          {issues.map((issue) => (
+            <div key={issue.stepIndex}>{issue.message}</div>
+          ))}
+        </div>
+      )}
+
+      <div
+        className={`flex flex-col items-center justify-center h-32 mb-4 border-2 border-dashed rounded-md cursor-pointer ${
+          dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+        }`}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <FolderOpen className="text-gray-400 mb-2" />
+        <span className="text-gray-600">Drop images or a folder here, or click to choose files</span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            addFiles(Array.from(event.target.files ?? []));
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="flex flex-col text-sm">
+          Output filename
+          <input
+            type="text"
+            className="mt-1 px-2 py-1 border rounded-md w-64"
+            value={template}
+            onChange={(event) => setTemplate(event.target.value)}
+          />
+          <span className="text-xs text-gray-500 mt-1">Tokens: {'{name}'} {'{index}'} {'{ext}'} {'{date}'}</span>
+        </label>
+        <label className="flex flex-col text-sm">
+          Parallel jobs
+          <input
+            type="number"
+            className="mt-1 px-2 py-1 border rounded-md w-24"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            disabled={running}
+            onChange={(event) => setConcurrency(Math.min(Math.max(parseInt(event.target.value) || 1, 1), MAX_CONCURRENCY))}
+          />
+        </label>
+        {running ? (
+          <button className="inline-flex items-center px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600" onClick={stop}>
+            <Square className="mr-2" size={18} /> Stop
+          </button>
+        ) : (
+          <button
+            className="inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+            onClick={run}
+            disabled={steps.length === 0 || issues.length > 0 || items.length === done.length}
+          >
+            <Play className="mr-2" size={18} /> Process {items.length - done.length} file{items.length - done.length === 1 ? '' : 's'}
+          </button>
+        )}
+        <button
+          className="inline-flex items-center px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600 disabled:opacity-50"
+          onClick={downloadZip}
+          disabled={running || done.length === 0}
+        >
+          <Download className="mr-2" size={18} /> Download zip ({done.length})
+        </button>
+        <button
+          className="inline-flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          onClick={() => setItems([])}
+          disabled={running || items.length === 0}
+        >
+          <Trash2 className="mr-2" size={18} /> Clear
+        </button>
+      </div>
+
+      {items.length > 0 && (
+        <div className="border rounded-md divide-y max-h-96 overflow-y-auto">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+              {statusIcon(item)}
+              <span className="flex-1 truncate">{item.file.name}</span>
+              {item.status === 'error' && <span className="text-red-600 truncate max-w-md">{item.error}</span>}
+              {item.status === 'processing' && (
+                <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500" style={{ width: `${item.progress * 100}%` }} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {failed.length > 0 && !running && (
+        <p className="mt-2 text-sm text-red-600">
+          {failed.length} file{failed.length === 1 ? '' : 's'} failed; press Process to retry them.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BatchProcessor;
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Columns, Crosshair, Diff, Layers } from 'lucide-react';
+import { RgbaImage } from '../processing/backend';
+import { differenceImage } from '../inspector/analysis';
+
+interface CompareViewProps {
+  a: ImageData;
+  b: ImageData;
+  labelA: string;
+  labelB: string;
+}
+
+type CompareMode = 'split' | 'onion' | 'difference';
+
+const MODES: { mode: CompareMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'split', label: 'Split', icon: <Columns size={14} /> },
+  { mode: 'onion', label: 'Onion skin', icon: <Layers size={14} /> },
+  { mode: 'difference', label: 'Difference', icon: <Diff size={14} /> },
+];
+
+const toCanvas = (image: RgbaImage): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+const pixelAt = (image: RgbaImage, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return [image.data[i], image.data[i + 1], image.data[i + 2], image.data[i + 3]];
+};
+
+const formatPixel = ([r, g, b, alpha]: number[]) =>
+  (r === g && g === b ? `${r}` : `${r}, ${g}, ${b}`) + (alpha < 255 ? ` α ${alpha}` : '');
+
+/** Overlays two renders of the same image as a split view, an onion skin or a difference heatmap, with a pixel probe. */
+const CompareView: React.FC<CompareViewProps> = ({ a, b, labelA, labelB }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(0.5);
+  const [opacity, setOpacity] = useState(0.5);
+  const [probe, setProbe] = useState<{ x: number; y: number } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const sameSize = a.width === b.width && a.height === b.height;
+  const canvasA = useMemo(() => toCanvas(a), [a]);
+  const canvasB = useMemo(() => toCanvas(b), [b]);
+  const difference = useMemo(() => (sameSize ? differenceImage(a, b) : null), [a, b, sameSize]);
+  const heatmap = useMemo(() => difference && toCanvas(difference.heatmap), [difference]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !sameSize) {
+      return;
+    }
+    canvas.width = a.width;
+    canvas.height = a.height;
+    const context = canvas.getContext('2d')!;
+    switch (mode) {
+      case 'split': {
+        const x = Math.round(split * a.width);
+        context.drawImage(canvasB, 0, 0);
+        if (x > 0) {
+          context.drawImage(canvasA, 0, 0, x, a.height, 0, 0, x, a.height);
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(x - 1, 0, 2, a.height);
+        break;
+      }
+      case 'onion':
+        context.drawImage(canvasA, 0, 0);
+        context.globalAlpha = opacity;
+        context.drawImage(canvasB, 0, 0);
+        context.globalAlpha = 1;
+        break;
+      case 'difference':
+        context.drawImage(heatmap!, 0, 0);
+        break;
+    }
+  }, [a, mode, split, opacity, canvasA, canvasB, heatmap, sameSize]);
+
+  if (!sameSize) {
+    return (
+      <p className="text-sm text-red-600">
+        {labelA} is {a.width}x{a.height} but {labelB} is {b.width}x{b.height}, so they can't be overlaid.
+      </p>
+    );
+  }
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((event.clientX - bounds.left) / bounds.width) * a.width);
+    const y = Math.floor(((event.clientY - bounds.top) / bounds.height) * a.height);
+    setProbe(x >= 0 && y >= 0 && x < a.width && y < a.height ? { x, y } : null);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {MODES.map(({ mode: value, label, icon }) => (
+          <button
+            key={value}
+            className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-sm ${
+              mode === value ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+            }`}
+            onClick={() => setMode(value)}
+          >
+            {icon}
+            {label}
+          </button>
+        ))}
+        {mode === 'split' && (
+          <label className="flex items-center gap-2 ml-2 text-sm">
+            Split
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.005}
+              value={split}
+              onChange={(event) => setSplit(parseFloat(event.target.value))}
+            />
+          </label>
+        )}
+        {mode === 'onion' && (
+          <label className="flex items-center gap-2 ml-2 text-sm">
+            {labelB} opacity
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={opacity}
+              onChange={(event) => setOpacity(parseFloat(event.target.value))}
+            />
+          </label>
+        )}
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        className="max-w-full h-auto cursor-crosshair"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setProbe(null)}
+      />
+
+      <div className="mt-2 text-sm text-gray-700 flex flex-wrap gap-x-6 gap-y-1">
+        {mode === 'split' && <span className="text-gray-500">Left: {labelA} · Right: {labelB}</span>}
+        {mode === 'difference' && difference && (
+          <span className="text-gray-500">
+            Max |Δ| {difference.max} · mean |Δ| {difference.mean.toFixed(2)} · {(difference.changed * 100).toFixed(1)}% of
+            pixels changed
+          </span>
+        )}
+      </div>
+      <div className="mt-1 h-5 text-sm font-mono text-gray-700 flex items-center gap-2">
+        <Crosshair size={14} className="text-gray-400" />
+        {probe ? (
+          <span>
+            ({probe.x}, {probe.y}) · {labelA}: {formatPixel(pixelAt(a, probe.x, probe.y))} · {labelB}:{' '}
+            {formatPixel(pixelAt(b, probe.x, probe.y))}
+          </span>
+        ) : (
+          <span className="text-gray-400">Hover the image to probe pixel values</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Loader } from 'lucide-react';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, ExportFormat, encodeImage, supports16Bit, uses16Bit } from '../export/export';
+import { validatePipeline } from '../processing/formats';
+import { createRecipe, serializeRecipe } from '../recipes/recipe';
+import { ProcessingStep } from '../types';
+import { describeError } from '../utils/errors';
+import { downloadBlob, loadImageData } from '../utils/image';
+import { createPipelineClient } from '../workers/pipelineClient';
+
+// A client of its own, so exporting neither waits on nor cancels the interactive render.
+const exportClient = createPipelineClient();
+
+interface ExportControlsProps {
+  image: string;
+  /** The enabled steps of the chain, in order. */
+  steps: ProcessingStep[];
+}
+
+/** Renders the chain over the full-resolution original and downloads it in the chosen format. */
+const ExportControls: React.FC<ExportControlsProps> = ({ image, steps }) => {
+  const [options, setOptions] = useState(DEFAULT_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const issues = useMemo(() => validatePipeline(steps), [steps]);
+  const highDepth = supports16Bit(steps);
+  const { lossy } = EXPORT_FORMATS[options.format];
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress(0);
+    let source: ImageData | null = null;
+    try {
+      source = await loadImageData(image);
+      const onProgress = (completed: number, total: number) => setProgress(completed / total);
+      const result = uses16Bit(options, steps)
+        ? await exportClient.runPipeline16(source, steps, onProgress).promise
+        : await exportClient.runPipeline(source, steps, onProgress).promise;
+      if (!result) {
+        return;
+      }
+      const recipe = options.embedRecipe ? serializeRecipe(createRecipe(steps)) : null;
+      const blob = await encodeImage(result, options, recipe);
+      downloadBlob(blob, `processed_image.${EXPORT_FORMATS[options.format].extension}`);
+    } catch (failure) {
+      setError(describeError(failure));
+    } finally {
+      if (source) {
+        exportClient.releaseSource(source);
+      }
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex flex-wrap items-center justify-end gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          Format
+          <select
+            className="px-2 py-1 border rounded-md"
+            value={options.format}
+            onChange={(event) => setOptions({ ...options, format: event.target.value as ExportFormat })}
+          >
+            {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+              <option key={format} value={format}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {lossy ? (
+          <label className="flex items-center gap-1">
+            Quality
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.01}
+              value={options.quality}
+              onChange={(event) => setOptions({ ...options, quality: parseFloat(event.target.value) })}
+            />
+            <span className="w-8 text-right font-mono">{Math.round(options.quality * 100)}</span>
+          </label>
+        ) : (
+          <label
+            className="flex items-center gap-1"
+            title={highDepth ? undefined : '16-bit output needs a chain that ends in a floating-point step'}
+          >
+            Depth
+            <select
+              className="px-2 py-1 border rounded-md"
+              value={highDepth ? options.bitDepth : 8}
+              disabled={!highDepth}
+              onChange={(event) => setOptions({ ...options, bitDepth: parseInt(event.target.value) as 8 | 16 })}
+            >
+              <option value={8}>8-bit</option>
+              <option value={16}>16-bit</option>
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.embedRecipe}
+            onChange={(event) => setOptions({ ...options, embedRecipe: event.target.checked })}
+          />
+          Embed recipe
+        </label>
+        <button
+          className="inline-flex items-center px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600 disabled:opacity-50"
+          onClick={handleExport}
+          disabled={steps.length === 0 || issues.length > 0 || progress !== null}
+        >
+          {progress === null ? (
+            <Download className="mr-1" size={18} />
+          ) : (
+            <Loader className="mr-1 animate-spin" size={18} />
+          )}
+          {progress === null ? 'Export' : `Exporting… ${Math.round(progress * 100)}%`}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportControls;
@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { gaborBank, gaborPhases } from '../processing/gabor';
+import { getGaborKernel } from '../processing/reference/filters';
+import { Plane } from '../processing/reference/plane';
+import { ProcessingParams } from '../types';
+
+interface GaborKernelsProps {
+  option: 'Gabor Filter' | 'Gabor Bank';
+  params: ProcessingParams;
+}
+
+const TILE_SIZE = 64;
+
+/** Draws a kernel with zero as mid-gray, positive weights lighter and negative darker. */
+const KernelTile: React.FC<{ kernel: Plane; title: string }> = ({ kernel, title }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    canvas.width = kernel.width;
+    canvas.height = kernel.height;
+    const peak = kernel.data.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+    const image = new ImageData(kernel.width, kernel.height);
+    kernel.data.forEach((value, i) => {
+      image.data.fill(128 + (127 * value) / peak, i * 4, i * 4 + 3);
+      image.data[i * 4 + 3] = 255;
+    });
+    canvas.getContext('2d')!.putImageData(image, 0, 0);
+  }, [kernel]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      title={title}
+      className="border rounded-sm"
+      style={{ width: TILE_SIZE, height: TILE_SIZE, imageRendering: kernel.width < TILE_SIZE ? 'pixelated' : 'auto' }}
+    />
+  );
+};
+
+const degrees = (theta: number) => `${Math.round((theta * 180) / Math.PI)}°`;
+
+/** The kernels a Gabor step convolves with: one for the single filter, a wavelength x orientation grid for a bank. */
+const GaborKernels: React.FC<GaborKernelsProps> = ({ option, params }) => {
+  const rows = useMemo(() => {
+    if (option === 'Gabor Filter') {
+      const { gaborKernelSize, gaborSigma, gaborTheta, gaborLambda, gaborGamma, gaborPsi } = params;
+      const kernel = getGaborKernel(gaborKernelSize, gaborSigma, gaborTheta, gaborLambda, gaborGamma, gaborPsi);
+      const title = `θ ${degrees(gaborTheta)}, ${kernel.width}×${kernel.width}`;
+      return [{ label: `λ ${gaborLambda}`, tiles: [{ kernel, title }] }];
+    }
+    // The bank shows each kernel at its first phase; the energy's quadrature partner is the same envelope shifted.
+    const psi = gaborPhases(params)[0];
+    const bank = gaborBank(params);
+    return params.gaborWavelengths.map((lambda, w) => ({
+      label: `λ ${lambda}`,
+      tiles: bank.map((kernels) => {
+        const { size, sigma, theta } = kernels[w];
+        return {
+          kernel: getGaborKernel(size, sigma, theta, lambda, params.gaborGamma, psi),
+          title: `θ ${degrees(theta)}, σ ${sigma.toFixed(1)}, ${size}×${size}`,
+        };
+      }),
+    }));
+  }, [option, params]);
+
+  return (
+    <div className="text-sm">
+      <span className="block mb-1 text-gray-700">Kernels</span>
+      <div className="inline-flex flex-col gap-1 max-w-full overflow-x-auto">
+        {rows.map((row, r) => (
+          <div key={r} className="flex items-center gap-1">
+            <span className="w-12 text-xs text-gray-500">{row.label}</span>
+            {row.tiles.map((tile, t) => (
+              <KernelTile key={t} kernel={tile.kernel} title={tile.title} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GaborKernels;
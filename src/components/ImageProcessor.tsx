@@ -1,190 +1,225 @@
-import React, { useEffect } from 'react';
-import { ProcessingOption, ProcessingParams, ProcessingStep } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { validatePipeline } from '../processing/formats';
+import { ProcessingStep } from '../types';
+import { describeError } from '../utils/errors';
+import { downscaleImageData, imageDataToDataUrl, loadImageData } from '../utils/image';
+import {
+  PipelineJob,
+  createPipelineClient,
+  loadOpenCv,
+  onOpenCvState,
+  releaseSource,
+  runPipeline,
+} from '../workers/pipelineClient';
 
 interface ImageProcessorProps {
   image: string;
   steps: ProcessingStep[];
-  setProcessedImage: (image: string) => void;
+  setProcessedImage: (image: string | null) => void;
+  /** What steps of the full-resolution render reported, by step id. */
+  setStepReports: (reports: Record<string, string>) => void;
+  /** Uncommitted chain to preview at reduced resolution, or null when nothing is pending. */
+  previewSteps: ProcessingStep[] | null;
+  setPreviewImage: (image: string | null) => void;
 }
 
-declare global {
-  interface Window {
-    cv: any;
-  }
+const PREVIEW_MAX_SIZE = 1024;
+const PREVIEW_DEBOUNCE_MS = 200;
+
+// Previews run as a client of their own so they never cancel the full-resolution render.
+const previewClient = createPipelineClient();
+
+interface Progress {
+  completed: number;
+  total: number;
+  cached: number;
 }
 
-const ImageProcessor: React.FC<ImageProcessorProps> = ({ image, steps, setProcessedImage }) => {
+const ImageProcessor: React.FC<ImageProcessorProps> = ({
+  image,
+  steps,
+  setProcessedImage,
+  setStepReports,
+  previewSteps,
+  setPreviewImage,
+}) => {
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [openCvReady, setOpenCvReady] = useState(false);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const issues = useMemo(() => validatePipeline(steps), [steps]);
+  const proxy = useMemo(() => source && downscaleImageData(source, PREVIEW_MAX_SIZE), [source]);
+
   useEffect(() => {
-    const processImage = async () => {
-      if (!window.cv) {
-        console.error('OpenCV.js is not loaded');
-        return;
+    let active = true;
+    let decoded: ImageData | null = null;
+    setSource(null);
+    setDecodeError(null);
+    loadImageData(image)
+      .then((data) => {
+        decoded = data;
+        if (active) {
+          setSource(data);
+        } else {
+          releaseSource(data);
+        }
+      })
+      .catch((error) => active && setDecodeError(describeError(error)));
+    return () => {
+      active = false;
+      if (decoded) {
+        releaseSource(decoded);
       }
+    };
+  }, [image]);
 
-      const img = await loadImage(image);
-      let src = window.cv.imread(img);
-      let dst = new window.cv.Mat();
+  // Full-resolution renders wait for OpenCV, so a retry after a failed load reruns the chain.
+  useEffect(() => {
+    loadOpenCv();
+    return onOpenCvState((state) => setOpenCvReady(state.status === 'ready'));
+  }, []);
 
-      for (const step of steps) {
-        const { option, params } = step;
-        dst = await applyProcessingStep(src, option, params);
-        src.delete();
-        src = dst.clone();
+  useEffect(() => {
+    return () => {
+      if (proxy) {
+        previewClient.releaseSource(proxy);
       }
+    };
+  }, [proxy]);
 
-      window.cv.imshow(document.createElement('canvas'), dst);
-      const dataUrl = document.createElement('canvas').toDataURL();
-      setProcessedImage(dataUrl);
+  useEffect(() => {
+    if (steps.length === 0) {
+      setProcessedImage(null);
+      setStepReports({});
+    }
+    if (steps.length === 0 || issues.length > 0) {
+      setError(null);
+    }
+    if (!source || steps.length === 0 || issues.length > 0 || !openCvReady) {
+      setProgress(null);
+      return;
+    }
+    setError(null);
 
-      src.delete();
-      dst.delete();
-    };
+    const reports: Record<string, string> = {};
+    let job: PipelineJob | null = runPipeline(
+      source,
+      steps,
+      (completed, total, cached) => setProgress({ completed, total, cached }),
+      (stepId, message) => {
+        reports[stepId] = message;
+        setStepReports({ ...reports });
+      }
+    );
 
-    processImage();
-  }, [image, steps, setProcessedImage]);
-
-  const loadImage = (src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = src;
-    });
-  };
-
-  const applyProcessingStep = async (src: any, option: ProcessingOption, params: ProcessingParams): Promise<any> => {
-    let dst = new window.cv.Mat();
-
-    switch (option) {
-      case 'Histogram Equalization':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        window.cv.equalizeHist(src, dst);
-        break;
-      case 'Adaptive Histogram Equalization':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        const clahe = new window.cv.CLAHE(params.clipLimit, new window.cv.Size(params.tileSize, params.tileSize));
-        clahe.apply(src, dst);
-        break;
-      case 'Edge Detection':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        window.cv.Canny(src, dst, params.threshold1, params.threshold2, 3, false);
-        break;
-      case 'Unsharp Masking':
-        let blurred = new window.cv.Mat();
-        window.cv.GaussianBlur(src, blurred, new window.cv.Size(0, 0), params.sigma, params.sigma);
-        window.cv.addWeighted(src, 1 + params.amount, blurred, -params.amount, 0, dst);
-        blurred.delete();
-        break;
-      case 'High-Pass Filtering':
-        let lowPass = new window.cv.Mat();
-        window.cv.GaussianBlur(src, lowPass, new window.cv.Size(params.kernelSize, params.kernelSize), 0, 0);
-        window.cv.subtract(src, lowPass, dst);
-        lowPass.delete();
-        break;
-      case 'Laplacian Filtering':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        window.cv.Laplacian(src, dst, window.cv.CV_8U, params.kernelSize, params.scale, 0, window.cv.BORDER_DEFAULT);
-        break;
-      case 'Color Inversion':
-        window.cv.bitwise_not(src, dst);
-        break;
-      case 'Thresholding':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        window.cv.threshold(src, dst, params.threshold, 255, window.cv.THRESH_BINARY);
-        break;
-      case 'Pseudocolor Mapping':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        window.cv.applyColorMap(src, dst, params.colorMap);
-        break;
-      case 'Fourier Transform':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        let planes = new window.cv.MatVector();
-        let complexI = new window.cv.Mat();
-        let padded = new window.cv.Mat();
-        let mag = new window.cv.Mat();
-        let paddedSize = new window.cv.Size(window.cv.getOptimalDFTSize(src.cols), window.cv.getOptimalDFTSize(src.rows));
-        window.cv.copyMakeBorder(src, padded, 0, paddedSize.height - src.rows, 0, paddedSize.width - src.cols, window.cv.BORDER_CONSTANT, new window.cv.Scalar(0));
-        planes.push_back(padded);
-        planes.push_back(new window.cv.Mat.zeros(padded.rows, padded.cols, window.cv.CV_32F));
-        window.cv.merge(planes, complexI);
-        window.cv.dft(complexI, complexI);
-        window.cv.split(complexI, planes);
-        window.cv.magnitude(planes.get(0), planes.get(1), mag);
-        mag.convertTo(mag, window.cv.CV_8U);
-        window.cv.normalize(mag, dst, 0, 255, window.cv.NORM_MINMAX);
-        planes.delete(); complexI.delete(); padded.delete(); mag.delete();
-        break;
-      case 'Color Boosting':
-        let channels = new window.cv.MatVector();
-        window.cv.split(src, channels);
-        for (let i = 0; i < 3; i++) {
-          channels.get(i).convertTo(channels.get(i), -1, params.boostFactor[i], 0);
+    job.promise
+      .then((result) => {
+        if (result) {
+          setProcessedImage(imageDataToDataUrl(result));
+          setStepReports(reports);
+          setProgress(null);
         }
-        window.cv.merge(channels, dst);
-        channels.delete();
-        break;
-      case 'Channel Mixing Simulation':
-        let mixedChannels = new window.cv.MatVector();
-        window.cv.split(src, mixedChannels);
-        for (let i = 0; i < 3; i++) {
-          let mixed = new window.cv.Mat();
-          window.cv.addWeighted(mixedChannels.get(0), params.mixFactors[i][0],
-                                mixedChannels.get(1), params.mixFactors[i][1],
-                                0, mixed);
-          window.cv.addWeighted(mixed, 1, mixedChannels.get(2), params.mixFactors[i][2], 0, mixed);
-          mixedChannels.set(i, mixed);
-        }
-        window.cv.merge(mixedChannels, dst);
-        mixedChannels.delete();
-        break;
-      case 'Manual Colorization':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        window.cv.cvtColor(src, dst, window.cv.COLOR_GRAY2BGR);
-        dst.convertTo(dst, -1, 1, 0);
-        let colorMask = new window.cv.Mat(src.rows, src.cols, src.type(), new window.cv.Scalar(...params.colorTint));
-        window.cv.add(dst, colorMask, dst);
-        colorMask.delete();
-        break;
-      case 'Multi-Scale Retinex':
-        let msr = new window.cv.Mat();
-        let sum = new window.cv.Mat(src.rows, src.cols, window.cv.CV_32F, new window.cv.Scalar(0));
-        for (let scale of params.retinexScales) {
-          let blur = new window.cv.Mat();
-          window.cv.GaussianBlur(src, blur, new window.cv.Size(0, 0), scale, scale);
-          let log = new window.cv.Mat();
-          window.cv.log(blur, log);
-          window.cv.subtract(sum, log, sum);
-          blur.delete();
-          log.delete();
-        }
-        window.cv.normalize(sum, msr, 0, 255, window.cv.NORM_MINMAX);
-        msr.convertTo(dst, window.cv.CV_8U);
-        sum.delete();
-        msr.delete();
-        break;
-      case 'Gabor Filter':
-        window.cv.cvtColor(src, src, window.cv.COLOR_RGBA2GRAY);
-        let kernel = window.cv.getGaborKernel(
-          new window.cv.Size(params.gaborKernelSize, params.gaborKernelSize),
-          params.gaborSigma,
-          params.gaborTheta,
-          params.gaborLambda,
-          params.gaborGamma,
-          params.gaborPsi,
-          window.cv.CV_32F
-        );
-        window.cv.filter2D(src, dst, window.cv.CV_8U, kernel, new window.cv.Point(-1, -1), 0, window.cv.BORDER_DEFAULT);
-        kernel.delete();
-        break;
-      default:
-        console.error('Unknown processing option:', option);
-        dst = src.clone();
+      })
+      .catch((error) => {
+        setError(describeError(error));
+        setProgress(null);
+      })
+      .finally(() => {
+        job = null;
+      });
+
+    return () => {
+      job?.cancel();
+    };
+  }, [source, steps, issues, openCvReady, setProcessedImage, setStepReports]);
+
+  useEffect(() => {
+    if (!proxy || !previewSteps || previewSteps.length === 0 || validatePipeline(previewSteps).length > 0) {
+      setPreviewImage(null);
+      setPreviewError(null);
+      return;
     }
 
-    return dst;
-  };
+    let job: PipelineJob | null = null;
+    const timer = setTimeout(() => {
+      job = previewClient.runPipeline(proxy, previewSteps);
+      job.promise
+        .then((result) => {
+          if (result) {
+            setPreviewImage(imageDataToDataUrl(result));
+            setPreviewError(null);
+          }
+        })
+        .catch((error) => {
+          setPreviewImage(null);
+          setPreviewError(describeError(error));
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [proxy, previewSteps, setPreviewImage]);
+
+  if (issues.length > 0) {
+    return (
+      <div className="mt-4 p-4 rounded-md bg-red-50 border border-red-200 text-red-700">
+        <div className="flex items-center font-semibold mb-1">
+          <AlertTriangle className="mr-2" size={18} />
+          This processing chain can't be applied
+        </div>
+        <ul className="list-disc ml-8 text-sm">
+          {issues.map((issue) => (
+            <li key={issue.stepIndex}>{issue.message}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const failures = [
+    ...(decodeError ? [{ title: 'The image could not be decoded', message: decodeError }] : []),
+    ...(error ? [{ title: 'The processing chain failed', message: error }] : []),
+    ...(previewError ? [{ title: 'The preview failed', message: previewError }] : []),
+  ];
+  if (failures.length > 0) {
+    return (
+      <div className="mt-4 p-4 rounded-md bg-red-50 border border-red-200 text-red-700">
+        {failures.map(({ title, message }) => (
+          <div key={title}>
+            <div className="flex items-center font-semibold mb-1">
+              <AlertTriangle className="mr-2" size={18} />
+              {title}
+            </div>
+            <p className="ml-8 text-sm">{message}</p>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!progress) {
+    return null;
+  }
 
-  return null;
+  return (
+    <div className="mt-4">
+      <div className="text-sm text-gray-600 mb-1">
+        Processing step {Math.min(progress.completed + 1, progress.total)} of {progress.total}
+        {progress.cached > 0 && ` (${progress.cached} reused from cache)`}
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-500 transition-all"
+          style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
 };
 
-export default ImageProcessor;
\ No newline at end of file
+export default ImageProcessor;
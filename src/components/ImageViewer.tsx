@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { describeError } from '../utils/errors';
+import { loadImage } from '../utils/image';
+import { FIT_VIEWPORT, PIXELATED_ZOOM, Size, Viewport, imageRect, panBy, viewToImage, zoomAt } from '../viewer/viewport';
+
+interface ImageViewerProps {
+  src: string;
+  label: string;
+  viewport: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
+  /** Size the viewport is expressed in; defaults to this image's own size. */
+  referenceSize?: Size | null;
+  onImageLoad?: (size: Size) => void;
+  /** Draws a translucent layer over the image; called with an image-shaped canvas, redrawn only when it changes. */
+  overlay?: ((context: CanvasRenderingContext2D, width: number, height: number) => void) | null;
+  /** When set, primary-button drags call these with points as fractions of the image instead of panning. */
+  onImagePointerDown?: (point: [number, number]) => void;
+  onImagePointerMove?: (point: [number, number]) => void;
+  onImagePointerUp?: () => void;
+}
+
+const OVERLAY_MAX_SIZE = 1024;
+const OVERLAY_OPACITY = 0.4;
+const WHEEL_ZOOM_RATE = 0.0015;
+
+/** Canvas image view with wheel zoom and drag pan, controlled through `viewport` so several panes can share one. */
+const ImageViewer: React.FC<ImageViewerProps> = ({
+  src,
+  label,
+  viewport,
+  onViewportChange,
+  referenceSize,
+  onImageLoad,
+  overlay,
+  onImagePointerDown,
+  onImagePointerMove,
+  onImagePointerUp,
+}) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [view, setView] = useState<Size>({ width: 0, height: 0 });
+  const [panning, setPanning] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ mode: 'pan' | 'draw'; x: number; y: number; start: Viewport } | null>(null);
+
+  const reference = useMemo(
+    () => referenceSize ?? (image && { width: image.naturalWidth, height: image.naturalHeight }),
+    [referenceSize, image]
+  );
+
+  useEffect(() => {
+    let active = true;
+    loadImage(src)
+      .then((loaded) => {
+        if (active) {
+          setImage(loaded);
+          setLoadError(null);
+          onImageLoad?.({ width: loaded.naturalWidth, height: loaded.naturalHeight });
+        }
+      })
+      .catch((error) => {
+        if (active) {
+          setImage(null);
+          setLoadError(describeError(error));
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [src, onImageLoad]);
+
+  useEffect(() => {
+    const container = containerRef.current!;
+    const observer = new ResizeObserver(() => setView({ width: container.clientWidth, height: container.clientHeight }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const overlayCanvas = useMemo(() => {
+    if (!overlay || !reference) {
+      return null;
+    }
+    const scale = Math.min(1, OVERLAY_MAX_SIZE / Math.max(reference.width, reference.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(reference.width * scale);
+    canvas.height = Math.round(reference.height * scale);
+    overlay(canvas.getContext('2d')!, canvas.width, canvas.height);
+    return canvas;
+  }, [overlay, reference]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(view.width * ratio);
+    canvas.height = Math.round(view.height * ratio);
+    if (!image || !reference || view.width === 0) {
+      return;
+    }
+    const context = canvas.getContext('2d')!;
+    context.scale(ratio, ratio);
+    const rect = imageRect(viewport, view, reference);
+    context.imageSmoothingEnabled = rect.width / image.naturalWidth < PIXELATED_ZOOM;
+    context.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    if (overlayCanvas) {
+      context.imageSmoothingEnabled = true;
+      context.globalAlpha = OVERLAY_OPACITY;
+      context.drawImage(overlayCanvas, rect.x, rect.y, rect.width, rect.height);
+    }
+  }, [image, reference, view, viewport, overlayCanvas]);
+
+  // React registers wheel listeners as passive, so page scrolling could not be prevented from onWheel.
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const handleWheel = (event: WheelEvent) => {
+      if (!reference) {
+        return;
+      }
+      event.preventDefault();
+      const bounds = canvas.getBoundingClientRect();
+      const zoom = imageRect(viewport, view, reference).width / reference.width;
+      onViewportChange(
+        zoomAt(
+          viewport,
+          view,
+          reference,
+          zoom * Math.exp(-event.deltaY * WHEEL_ZOOM_RATE),
+          event.clientX - bounds.left,
+          event.clientY - bounds.top
+        )
+      );
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [viewport, view, reference, onViewportChange]);
+
+  const imagePoint = (event: React.PointerEvent): [number, number] => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return viewToImage(viewport, view, reference!, event.clientX - bounds.left, event.clientY - bounds.top);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!reference) {
+      return;
+    }
+    if (event.button === 0 && onImagePointerDown) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      dragRef.current = { mode: 'draw', x: event.clientX, y: event.clientY, start: viewport };
+      onImagePointerDown(imagePoint(event));
+    } else if (event.button === 0 || event.button === 1) {
+      event.preventDefault();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      dragRef.current = { mode: 'pan', x: event.clientX, y: event.clientY, start: viewport };
+      setPanning(true);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !reference) {
+      return;
+    }
+    if (drag.mode === 'draw') {
+      onImagePointerMove?.(imagePoint(event));
+    } else {
+      onViewportChange(panBy(drag.start, view, reference, event.clientX - drag.x, event.clientY - drag.y));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (dragRef.current?.mode === 'draw') {
+      onImagePointerUp?.();
+    }
+    dragRef.current = null;
+    setPanning(false);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden bg-gray-100 rounded-md"
+      style={reference ? { aspectRatio: `${reference.width} / ${reference.height}`, maxHeight: '70vh' } : { height: '16rem' }}
+    >
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label={label}
+        className={`absolute inset-0 w-full h-full touch-none ${
+          onImagePointerDown ? 'cursor-crosshair' : panning ? 'cursor-grabbing' : 'cursor-grab'
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => !onImagePointerDown && onViewportChange(FIT_VIEWPORT)}
+      />
+      {loadError && (
+        <div className="absolute inset-0 flex items-center justify-center p-4 text-sm text-red-700">
+          <AlertTriangle className="mr-2 shrink-0" size={18} />
+          {loadError}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageViewer;
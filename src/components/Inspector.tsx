@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Loader } from 'lucide-react';
+import { ChannelStats, analyzeImage } from '../inspector/analysis';
+import { validatePipeline } from '../processing/formats';
+import { operationLabel } from '../processing/operations';
+import { ProcessingStep } from '../types';
+import { describeError } from '../utils/errors';
+import { loadImageData } from '../utils/image';
+import { createPipelineClient } from '../workers/pipelineClient';
+import CompareView from './CompareView';
+
+interface InspectorProps {
+  image: string;
+  /** The enabled steps of the chain, in order. */
+  steps: ProcessingStep[];
+}
+
+const CHANNEL_COLORS: Record<ChannelStats['name'], string> = {
+  Gray: '#4b5563',
+  Red: '#ef4444',
+  Green: '#22c55e',
+  Blue: '#3b82f6',
+};
+
+// Intermediate results are rendered by a client of their own so inspecting
+// never cancels the main render; the worker's prefix cache makes switching
+// steps cheap.
+const inspectorClient = createPipelineClient();
+
+const stageLabel = (index: number) => (index === 0 ? 'Original' : `Step ${index}`);
+
+const Histogram: React.FC<{ channels: ChannelStats[]; log: boolean }> = ({ channels, log }) => {
+  const scale = (count: number) => (log ? Math.log1p(count) : count);
+  const peak = Math.max(1, ...channels.flatMap((channel) => Array.from(channel.histogram, scale)));
+  return (
+    <svg viewBox="0 0 256 100" preserveAspectRatio="none" className="w-full h-32 bg-gray-50 border rounded-md">
+      {channels.map((channel) => {
+        const points = Array.from(channel.histogram, (count, level) => `${level},${100 - (scale(count) / peak) * 100}`);
+        return (
+          <polygon
+            key={channel.name}
+            points={`0,100 ${points.join(' ')} 255,100`}
+            fill={CHANNEL_COLORS[channel.name]}
+            fillOpacity={0.35}
+            stroke={CHANNEL_COLORS[channel.name]}
+            strokeWidth={0.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+const StatsTable: React.FC<{ channels: ChannelStats[] }> = ({ channels }) => (
+  <table className="mt-2 w-full text-sm">
+    <thead>
+      <tr className="text-gray-500">
+        <th className="text-left font-normal">Channel</th>
+        <th className="text-right font-normal">Min</th>
+        <th className="text-right font-normal">Max</th>
+        <th className="text-right font-normal">Mean</th>
+        <th className="text-right font-normal">Std dev</th>
+      </tr>
+    </thead>
+    <tbody className="font-mono">
+      {channels.map((channel) => (
+        <tr key={channel.name}>
+          <td className="font-sans" style={{ color: CHANNEL_COLORS[channel.name] }}>
+            {channel.name}
+          </td>
+          <td className="text-right">{channel.min}</td>
+          <td className="text-right">{channel.max}</td>
+          <td className="text-right">{channel.mean.toFixed(2)}</td>
+          <td className="text-right">{channel.stddev.toFixed(2)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const ImageAnalysis: React.FC<{ title: string; image: ImageData | undefined; log: boolean }> = ({ title, image, log }) => {
+  const channels = useMemo(() => image && analyzeImage(image), [image]);
+  return (
+    <div className="flex-1 min-w-0">
+      <h3 className="text-lg font-semibold mb-2">{title}</h3>
+      {channels ? (
+        <>
+          <Histogram channels={channels} log={log} />
+          <StatsTable channels={channels} />
+        </>
+      ) : (
+        <div className="flex items-center justify-center h-32 bg-gray-50 border rounded-md text-gray-400">
+          <Loader className="animate-spin" size={20} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Inspector: React.FC<InspectorProps> = ({ image, steps }) => {
+  const [source, setSource] = useState<ImageData | null>(null);
+  // Stage i is the image after the first i steps; stage 0 is the original.
+  const [stages, setStages] = useState<Record<number, ImageData>>({});
+  const [compareA, setCompareA] = useState(0);
+  const [compareB, setCompareB] = useState<number | null>(null);
+  const [logScale, setLogScale] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const issues = useMemo(() => validatePipeline(steps), [steps]);
+
+  const last = steps.length;
+  const a = Math.min(compareA, last);
+  const b = compareB === null ? last : Math.min(compareB, last);
+
+  useEffect(() => {
+    let active = true;
+    let decoded: ImageData | null = null;
+    setSource(null);
+    loadImageData(image)
+      .then((data) => {
+        decoded = data;
+        if (active) {
+          setSource(data);
+        }
+      })
+      .catch((failure) => active && setError(describeError(failure)));
+    return () => {
+      active = false;
+      if (decoded) {
+        inspectorClient.releaseSource(decoded);
+      }
+    };
+  }, [image]);
+
+  useEffect(() => {
+    setStages({});
+    setError(null);
+    if (!source || issues.length > 0) {
+      return;
+    }
+
+    // Render the full chain first so every prefix is cached for the stages after it.
+    let active = true;
+    const wanted = [...new Set([last, a, b])];
+    const render = async () => {
+      for (const stage of wanted) {
+        const result = stage === 0 ? source : await inspectorClient.runPipeline(source, steps.slice(0, stage)).promise;
+        if (!active || !result) {
+          return;
+        }
+        setStages((current) => ({ ...current, [stage]: result }));
+      }
+    };
+    render().catch((failure) => active && setError(describeError(failure)));
+    return () => {
+      active = false;
+    };
+  }, [source, steps, issues, last, a, b]);
+
+  if (issues.length > 0) {
+    return (
+      <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-700">
+        <div className="flex items-center font-semibold mb-1">
+          <AlertTriangle className="mr-2" size={18} />
+          This processing chain can't be inspected
+        </div>
+        <ul className="list-disc ml-8 text-sm">
+          {issues.map((issue) => (
+            <li key={issue.stepIndex}>{issue.message}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const stageSelect = (value: number, onChange: (value: number) => void) => (
+    <select
+      className="px-2 py-1 border rounded-md text-sm"
+      value={value}
+      onChange={(event) => onChange(parseInt(event.target.value))}
+    >
+      <option value={0}>Original</option>
+      {steps.map((step, index) => (
+        <option key={step.id} value={index + 1}>
+          After step {index + 1}: {operationLabel(step.option)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold">Histograms</h2>
+        <label className="flex items-center gap-1 text-sm">
+          <input type="checkbox" checked={logScale} onChange={(event) => setLogScale(event.target.checked)} />
+          Log scale
+        </label>
+      </div>
+      <div className="flex flex-col md:flex-row gap-6 mb-8">
+        <ImageAnalysis title="Original" image={source ?? undefined} log={logScale} />
+        <ImageAnalysis title={last === 0 ? 'Processed (no steps yet)' : 'Processed'} image={stages[last]} log={logScale} />
+      </div>
+
+      <h2 className="text-xl font-semibold mb-2">Compare</h2>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        {stageSelect(a, setCompareA)}
+        <span className="text-gray-500">against</span>
+        {stageSelect(b, (value) => setCompareB(value === last ? null : value))}
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : stages[a] && stages[b] ? (
+        <CompareView a={stages[a]} b={stages[b]} labelA={stageLabel(a)} labelB={stageLabel(b)} />
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader className="animate-spin" size={16} /> Rendering…
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Inspector;
@@ -0,0 +1,253 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Brush, Circle, Contrast, Maximize, Square } from 'lucide-react';
+import { DEFAULT_MASK_THRESHOLD, MAX_BRUSH_RADIUS, MAX_FEATHER } from '../processing/mask';
+import { MaskShape, StepMask } from '../types';
+import { Size, Viewport } from '../viewer/viewport';
+import ImageViewer from './ImageViewer';
+
+interface MaskEditorProps {
+  image: string;
+  mask: StepMask | null;
+  onChange: (mask: StepMask | null) => void;
+  viewport: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
+  onImageLoad: (size: Size) => void;
+}
+
+type DrawTool = 'rect' | 'ellipse' | 'brush';
+
+interface Drag {
+  start: [number, number];
+  /** Mask before the drag began, restored if the drag draws nothing. */
+  before: StepMask | null;
+}
+
+const DEFAULT_BRUSH_RADIUS = 0.03;
+const MIN_POINT_SPACING = 0.002;
+
+// Four decimals is well below a pixel for any image the app can hold and keeps recipes readable.
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/** A click without a drag leaves a zero-area rectangle or ellipse, which would mask out the whole step. */
+const isEmpty = (shape: MaskShape) =>
+  (shape.type === 'rect' && (shape.width === 0 || shape.height === 0)) ||
+  (shape.type === 'ellipse' && (shape.rx === 0 || shape.ry === 0));
+
+const paintShape = (context: CanvasRenderingContext2D, shape: MaskShape, width: number, height: number) => {
+  switch (shape.type) {
+    case 'rect':
+      context.fillRect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+      break;
+    case 'ellipse':
+      context.beginPath();
+      context.ellipse(shape.cx * width, shape.cy * height, shape.rx * width, shape.ry * height, 0, 0, 2 * Math.PI);
+      context.fill();
+      break;
+    case 'brush':
+      for (const stroke of shape.strokes) {
+        const radius = stroke.radius * Math.min(width, height);
+        const [[x0, y0], ...rest] = stroke.points;
+        context.beginPath();
+        context.arc(x0 * width, y0 * height, radius, 0, 2 * Math.PI);
+        context.fill();
+        context.lineWidth = radius * 2;
+        context.beginPath();
+        context.moveTo(x0 * width, y0 * height);
+        rest.forEach(([x, y]) => context.lineTo(x * width, y * height));
+        context.stroke();
+      }
+      break;
+  }
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, mask, onChange, viewport, onViewportChange, onImageLoad }) => {
+  const [tool, setTool] = useState<DrawTool | null>(null);
+  const [brushRadius, setBrushRadius] = useState(DEFAULT_BRUSH_RADIUS);
+  const dragRef = useRef<Drag | null>(null);
+
+  const overlay = useCallback(
+    (context: CanvasRenderingContext2D, width: number, height: number) => {
+      if (!mask || mask.shape.type === 'threshold') {
+        return;
+      }
+      context.fillStyle = context.strokeStyle = '#3b82f6';
+      context.lineCap = context.lineJoin = 'round';
+      context.filter = mask.feather > 0 ? `blur(${mask.feather * Math.min(width, height)}px)` : 'none';
+      if (mask.invert) {
+        context.fillRect(0, 0, width, height);
+        context.globalCompositeOperation = 'destination-out';
+      }
+      paintShape(context, mask.shape, width, height);
+    },
+    [mask]
+  );
+
+  const snap = ([x, y]: [number, number]): [number, number] => [round(clamp01(x)), round(clamp01(y))];
+
+  const withShape = (shape: MaskShape): StepMask => ({ feather: 0, ...mask, shape });
+
+  const dragShape = (kind: 'rect' | 'ellipse', [ax, ay]: [number, number], [bx, by]: [number, number]): MaskShape =>
+    kind === 'rect'
+      ? {
+          type: 'rect',
+          x: Math.min(ax, bx),
+          y: Math.min(ay, by),
+          width: round(Math.abs(bx - ax)),
+          height: round(Math.abs(by - ay)),
+        }
+      : {
+          type: 'ellipse',
+          cx: round((ax + bx) / 2),
+          cy: round((ay + by) / 2),
+          rx: round(Math.abs(bx - ax) / 2),
+          ry: round(Math.abs(by - ay) / 2),
+        };
+
+  const handlePointerDown = (position: [number, number]) => {
+    if (!tool) {
+      return;
+    }
+    const point = snap(position);
+    dragRef.current = { start: point, before: mask };
+    if (tool === 'brush') {
+      const strokes = mask?.shape.type === 'brush' ? mask.shape.strokes : [];
+      onChange(withShape({ type: 'brush', strokes: [...strokes, { radius: brushRadius, points: [point] }] }));
+    } else {
+      onChange(withShape(dragShape(tool, point, point)));
+    }
+  };
+
+  const handlePointerMove = (position: [number, number]) => {
+    const drag = dragRef.current;
+    if (!drag || !tool || !mask) {
+      return;
+    }
+    const point = snap(position);
+    if (tool !== 'brush') {
+      onChange(withShape(dragShape(tool, drag.start, point)));
+    } else if (mask.shape.type === 'brush') {
+      const strokes = mask.shape.strokes;
+      const last = strokes[strokes.length - 1];
+      const [px, py] = last.points[last.points.length - 1];
+      if (Math.hypot(point[0] - px, point[1] - py) >= MIN_POINT_SPACING) {
+        const extended = { ...last, points: [...last.points, point] };
+        onChange(withShape({ type: 'brush', strokes: [...strokes.slice(0, -1), extended] }));
+      }
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && mask && isEmpty(mask.shape)) {
+      onChange(drag.before);
+    }
+  };
+
+  const toolButton = (active: boolean, title: string, icon: React.ReactNode, onClick: () => void) => (
+    <button
+      key={title}
+      title={title}
+      className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-sm ${
+        active ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+      }`}
+      onClick={onClick}
+    >
+      {icon}
+      {title}
+    </button>
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {toolButton(!mask && !tool, 'Whole image', <Maximize size={14} />, () => {
+          setTool(null);
+          onChange(null);
+        })}
+        {toolButton(tool === 'rect', 'Rectangle', <Square size={14} />, () => setTool('rect'))}
+        {toolButton(tool === 'ellipse', 'Ellipse', <Circle size={14} />, () => setTool('ellipse'))}
+        {toolButton(tool === 'brush', 'Brush', <Brush size={14} />, () => setTool('brush'))}
+        {toolButton(mask?.shape.type === 'threshold', 'Threshold', <Contrast size={14} />, () => {
+          setTool(null);
+          onChange(withShape({ type: 'threshold', threshold: DEFAULT_MASK_THRESHOLD }));
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-2 text-sm">
+        {tool === 'brush' && (
+          <label className="flex items-center gap-2">
+            Brush size
+            <input
+              type="range"
+              min={0.005}
+              max={MAX_BRUSH_RADIUS / 2}
+              step={0.005}
+              value={brushRadius}
+              onChange={(event) => setBrushRadius(parseFloat(event.target.value))}
+            />
+          </label>
+        )}
+        {mask?.shape.type === 'threshold' && (
+          <label className="flex items-center gap-2">
+            Gray level above
+            <input
+              type="range"
+              min={0}
+              max={255}
+              step={1}
+              value={mask.shape.threshold}
+              onChange={(event) => onChange(withShape({ type: 'threshold', threshold: parseInt(event.target.value) }))}
+            />
+            <span className="w-8 text-right">{mask.shape.threshold}</span>
+          </label>
+        )}
+        {mask && (
+          <>
+            <label className="flex items-center gap-2">
+              Feather
+              <input
+                type="range"
+                min={0}
+                max={MAX_FEATHER}
+                step={0.005}
+                value={mask.feather}
+                onChange={(event) => onChange({ ...mask, feather: parseFloat(event.target.value) })}
+              />
+              <span className="w-10 text-right">{Math.round(mask.feather * 1000) / 10}%</span>
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={mask.invert ?? false}
+                onChange={(event) => onChange({ ...mask, invert: event.target.checked || undefined })}
+              />
+              Invert
+            </label>
+          </>
+        )}
+      </div>
+      {mask?.shape.type === 'threshold' && (
+        <p className="text-xs text-gray-500 mb-2">
+          The step only changes pixels whose gray level in the step's input is above the threshold.
+        </p>
+      )}
+
+      <ImageViewer
+        src={image}
+        label="Original image"
+        viewport={viewport}
+        onViewportChange={onViewportChange}
+        onImageLoad={onImageLoad}
+        overlay={overlay}
+        onImagePointerDown={tool ? handlePointerDown : undefined}
+        onImagePointerMove={handlePointerMove}
+        onImagePointerUp={handlePointerUp}
+      />
+    </div>
+  );
+};
+
+export default MaskEditor;
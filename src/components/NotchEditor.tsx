@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader, Trash2, Undo } from 'lucide-react';
+import { validatePipeline } from '../processing/formats';
+import { FOURIER_VIEWS } from '../processing/frequency';
+import { DEFAULT_PARAMS } from '../processing/params';
+import { NotchStroke, ProcessingStep } from '../types';
+import { describeError } from '../utils/errors';
+import { imageDataToDataUrl, loadImageData } from '../utils/image';
+import { FIT_VIEWPORT, Size } from '../viewer/viewport';
+import { createPipelineClient } from '../workers/pipelineClient';
+import ImageViewer from './ImageViewer';
+
+interface NotchEditorProps {
+  /** The original image and the enabled steps before the one being edited; the spectrum shown is of their output. */
+  image: string;
+  inputSteps: ProcessingStep[];
+  notches: NotchStroke[];
+  onChange: (notches: NotchStroke[]) => void;
+}
+
+const SPECTRUM_STEP: ProcessingStep = {
+  id: 'notch-spectrum',
+  option: 'Fourier Transform',
+  params: { ...DEFAULT_PARAMS, fourierView: FOURIER_VIEWS.indexOf('Log magnitude') },
+};
+
+const DEFAULT_RADIUS = 4;
+const MAX_RADIUS = 50;
+const MIN_POINT_SPACING = 0.5;
+
+// Rendered at full resolution by a client of its own: peaks above a preview
+// proxy's Nyquist limit can only be found and painted on the full spectrum.
+const spectrumClient = createPipelineClient();
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Paints notches over the centred log-magnitude spectrum of the step's input; each is mirrored about DC. */
+const NotchEditor: React.FC<NotchEditorProps> = ({ image, inputSteps, notches, onChange }) => {
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [spectrum, setSpectrum] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [size, setSize] = useState<Size | null>(null);
+  const [viewport, setViewport] = useState(FIT_VIEWPORT);
+  const [radius, setRadius] = useState(DEFAULT_RADIUS);
+  const [painting, setPainting] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    let decoded: ImageData | null = null;
+    setSource(null);
+    loadImageData(image)
+      .then((data) => {
+        decoded = data;
+        if (active) {
+          setSource(data);
+        }
+      })
+      .catch((failure) => active && setError(describeError(failure)));
+    return () => {
+      active = false;
+      if (decoded) {
+        spectrumClient.releaseSource(decoded);
+      }
+    };
+  }, [image]);
+
+  useEffect(() => {
+    const steps = [...inputSteps, SPECTRUM_STEP];
+    if (!source || validatePipeline(steps).length > 0) {
+      return;
+    }
+    setError(null);
+    const job = spectrumClient.runPipeline(source, steps);
+    job.promise
+      .then((result) => result && setSpectrum(imageDataToDataUrl(result)))
+      .catch((failure) => setError(describeError(failure)));
+    return () => job.cancel();
+  }, [source, inputSteps]);
+
+  const overlay = useCallback(
+    (context: CanvasRenderingContext2D, width: number, height: number) => {
+      if (!size) {
+        return;
+      }
+      context.strokeStyle = '#f59e0b';
+      context.lineCap = context.lineJoin = 'round';
+      const scale = Math.min(width, height) / Math.min(size.width, size.height);
+      for (const stroke of notches) {
+        context.lineWidth = Math.max(stroke.radius * 2 * scale, 1);
+        for (const mirror of [1, -1]) {
+          context.beginPath();
+          stroke.points.forEach(([u, v], i) => {
+            const x = (0.5 + (mirror * u) / size.width) * width;
+            const y = (0.5 + (mirror * v) / size.height) * height;
+            if (i === 0) {
+              context.moveTo(x, y);
+            }
+            context.lineTo(x, y);
+          });
+          context.stroke();
+        }
+      }
+    },
+    [notches, size]
+  );
+
+  // The spectrum is as large as the image, so each pixel from the centre is one cycle across the image.
+  const toFrequency = ([x, y]: [number, number]): [number, number] => [
+    round((x - 0.5) * size!.width),
+    round((y - 0.5) * size!.height),
+  ];
+
+  const handlePointerDown = (point: [number, number]) => {
+    setPainting(true);
+    onChange([...notches, { radius, points: [toFrequency(point)] }]);
+  };
+
+  const handlePointerMove = (point: [number, number]) => {
+    if (!painting || notches.length === 0) {
+      return;
+    }
+    const frequency = toFrequency(point);
+    const last = notches[notches.length - 1];
+    const [u, v] = last.points[last.points.length - 1];
+    if (Math.hypot(frequency[0] - u, frequency[1] - v) >= MIN_POINT_SPACING) {
+      onChange([...notches.slice(0, -1), { ...last, points: [...last.points, frequency] }]);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <span className="block mb-1 text-sm text-gray-700">Notches</span>
+      <div className="flex flex-wrap items-center gap-4 mb-2 text-sm">
+        <label className="flex items-center gap-2">
+          Brush radius
+          <input
+            type="range"
+            min={1}
+            max={MAX_RADIUS}
+            step={0.5}
+            value={radius}
+            onChange={(event) => setRadius(parseFloat(event.target.value))}
+          />
+          <span className="w-16">{radius} cycles</span>
+        </label>
+        <button
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50"
+          onClick={() => onChange(notches.slice(0, -1))}
+          disabled={notches.length === 0}
+        >
+          <Undo size={14} /> Remove last
+        </button>
+        <button
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50"
+          onClick={() => onChange([])}
+          disabled={notches.length === 0}
+        >
+          <Trash2 size={14} /> Clear
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">
+        Paint over the bright off-centre peaks that periodic noise leaves in the spectrum. Each notch is mirrored
+        through the centre; middle-drag pans and the wheel zooms.
+      </p>
+      <div className="max-w-md">
+        {error ? (
+          <p className="text-sm text-red-600">Could not show the spectrum: {error}</p>
+        ) : spectrum ? (
+          <ImageViewer
+            src={spectrum}
+            label="Spectrum of the step's input"
+            viewport={viewport}
+            onViewportChange={setViewport}
+            onImageLoad={setSize}
+            overlay={overlay}
+            onImagePointerDown={size ? handlePointerDown : undefined}
+            onImagePointerMove={handlePointerMove}
+            onImagePointerUp={() => setPainting(false)}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-48 bg-gray-100 rounded-md text-gray-400">
+            <Loader className="animate-spin" size={20} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotchEditor;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Loader, RotateCw } from 'lucide-react';
+import { PoolLiveObjects, loadOpenCv, onLiveObjects, onOpenCvState, setDebug } from '../workers/pipelineClient';
+import { OpenCvState } from '../workers/protocol';
+
+// `?debug=memory` in the page URL shows how many OpenCV objects the pipeline workers have alive after each run.
+const DEBUG_MEMORY = new URLSearchParams(window.location.search).get('debug') === 'memory';
+
+/**
+ * Shows while OpenCV is loading in any pipeline worker, or why one failed with
+ * a button to try again. In memory debug mode it then shows the live object
+ * count summed over the workers.
+ */
+const OpenCvStatus: React.FC = () => {
+  const [state, setState] = useState<OpenCvState>({ status: 'loading' });
+  const [objects, setObjects] = useState<PoolLiveObjects | null>(null);
+
+  useEffect(() => {
+    loadOpenCv();
+    return onOpenCvState(setState);
+  }, []);
+
+  useEffect(() => {
+    if (!DEBUG_MEMORY) {
+      return;
+    }
+    setDebug(true);
+    const unsubscribe = onLiveObjects(setObjects);
+    return () => {
+      unsubscribe();
+      setDebug(false);
+    };
+  }, []);
+
+  if (state.status === 'ready') {
+    if (!objects) {
+      return null;
+    }
+    const leaked = objects.total - objects.held;
+    return (
+      <div className={`mb-6 text-xs font-mono ${leaked > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+        OpenCV objects alive: {objects.total} (
+        {Object.entries(objects.counts)
+          .map(([name, count]) => `${count} ${name}`)
+          .join(', ') || 'none'}
+        ); {objects.held} held for sources and cache
+        {objects.workers > 1 && ` across ${objects.workers} workers`}
+        {leaked > 0 && `, ${leaked} leaked`}
+      </div>
+    );
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <div className="mb-6 flex items-center text-sm text-gray-600">
+        <Loader className="mr-2 animate-spin" size={16} />
+        Loading OpenCV…
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-md bg-red-50 border border-red-200 text-red-700 flex items-start justify-between gap-4">
+      <div>
+        <div className="flex items-center font-semibold mb-1">
+          <AlertTriangle className="mr-2" size={18} />
+          Image processing is unavailable
+        </div>
+        <p className="ml-8 text-sm">{state.message}</p>
+      </div>
+      <button
+        className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 shrink-0"
+        onClick={loadOpenCv}
+      >
+        <RotateCw className="mr-2" size={16} /> Retry
+      </button>
+    </div>
+  );
+};
+
+export default OpenCvStatus;
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { getOperation } from '../processing/operations';
+import {
+  ParamDefinition,
+  ParamPath,
+  clampToRange,
+  rangeOf,
+  resizeSquareMatrix,
+  resizeVector,
+  setParamAt,
+} from '../processing/paramSchema';
+import { ProcessingOption, ProcessingParams, ProcessingStep } from '../types';
+import NotchEditor from './NotchEditor';
+
+interface ParamFormProps {
+  option: ProcessingOption;
+  params: ProcessingParams;
+  onChange: (params: ProcessingParams) => void;
+  /** The original image and the enabled steps feeding this one, for params edited on a picture of the step's input. */
+  image?: string | null;
+  inputSteps?: ProcessingStep[];
+}
+
+interface NumberInputProps {
+  value: number;
+  definition: ParamDefinition;
+  onCommit: (value: number) => void;
+  className?: string;
+}
+
+/** Number box that only clamps and commits on blur or Enter, so partial input can be typed freely. */
+const NumberInput: React.FC<NumberInputProps> = ({ value, definition, onCommit, className }) => {
+  const [draft, setDraft] = useState(String(value));
+  const range = rangeOf(definition);
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (Number.isNaN(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    const clamped = clampToRange(parsed, range);
+    setDraft(String(clamped));
+    if (clamped !== value) {
+      onCommit(clamped);
+    }
+  };
+
+  return (
+    <input
+      type="number"
+      className={`px-2 py-1 border rounded-md ${className ?? 'w-20'}`}
+      value={draft}
+      min={range.min}
+      max={range.max}
+      step={range.step}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => event.key === 'Enter' && commit()}
+    />
+  );
+};
+
+const SliderField: React.FC<{
+  label: string;
+  value: number;
+  definition: ParamDefinition;
+  onCommit: (value: number) => void;
+}> = ({ label, value, definition, onCommit }) => {
+  const range = rangeOf(definition);
+  return (
+    <label className="flex flex-col text-sm min-w-[12rem]">
+      <span className="mb-1 text-gray-700">{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="range"
+          className="flex-1"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={value}
+          onChange={(event) => onCommit(parseFloat(event.target.value))}
+        />
+        <NumberInput value={value} definition={definition} onCommit={onCommit} />
+      </div>
+    </label>
+  );
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+const ParamForm: React.FC<ParamFormProps> = ({ option, params, onChange, image, inputSteps }) => {
+  const definitions = getOperation(option).params;
+
+  if (definitions.length === 0) {
+    return <p className="text-sm text-gray-500">This operation has no parameters.</p>;
+  }
+
+  const set = (definition: ParamDefinition, path: ParamPath, value: number) =>
+    onChange(setParamAt(params, definition, path, value));
+
+  const renderDefinition = (definition: ParamDefinition) => {
+    switch (definition.type) {
+      case 'number':
+        return (
+          <SliderField
+            key={definition.key}
+            label={definition.label}
+            value={params[definition.key]}
+            definition={definition}
+            onCommit={(value) => set(definition, [definition.key], value)}
+          />
+        );
+      case 'select':
+        return (
+          <label key={definition.key} className="flex flex-col text-sm">
+            <span className="mb-1 text-gray-700">{definition.label}</span>
+            <select
+              className="px-2 py-1 border rounded-md"
+              value={params[definition.key]}
+              onChange={(event) => set(definition, [definition.key], parseInt(event.target.value))}
+            >
+              {definition.choices.map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        );
+      case 'vector': {
+        const vector = params[definition.key];
+        const { lengths } = definition;
+        return (
+          <React.Fragment key={definition.key}>
+            {lengths && (
+              <label className="flex items-center gap-2 text-sm">
+                {definition.label}
+                <select
+                  className="px-2 py-1 border rounded-md"
+                  value={vector.length}
+                  onChange={(event) =>
+                    onChange({ ...params, [definition.key]: resizeVector(definition, vector, parseInt(event.target.value)) })
+                  }
+                >
+                  {Array.from({ length: lengths.max - lengths.min + 1 }, (_, i) => lengths.min + i).map((length) => (
+                    <option key={length} value={length}>
+                      {length}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {vector.map((value, index) => (
+              <SliderField
+                key={index}
+                label={`${definition.label}: ${definition.labels[index] ?? `#${index + 1}`}`}
+                value={value}
+                definition={definition}
+                onCommit={(newValue) => set(definition, [definition.key, index], newValue)}
+              />
+            ))}
+          </React.Fragment>
+        );
+      }
+      case 'color': {
+        const rgb = params[definition.key];
+        return (
+          <div key={definition.key} className="flex flex-col text-sm">
+            <span className="mb-1 text-gray-700">{definition.label}</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                className="w-10 h-8 border rounded-md"
+                value={toHex(rgb)}
+                onChange={(event) =>
+                  onChange({ ...params, [definition.key]: fromHex(event.target.value) as [number, number, number] })
+                }
+              />
+              {rgb.map((value, index) => (
+                <label key={index} className="flex items-center gap-1">
+                  {'RGB'[index]}
+                  <NumberInput
+                    value={value}
+                    definition={definition}
+                    onCommit={(newValue) => set(definition, [definition.key, index], newValue)}
+                    className="w-16"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      }
+      case 'matrix': {
+        const matrix = params[definition.key];
+        const { sizes } = definition;
+        return (
+          <div key={definition.key} className="text-sm max-w-full overflow-x-auto">
+            <span className="block mb-1 text-gray-700">{definition.label}</span>
+            {sizes && (
+              <label className="flex items-center gap-2 mb-1">
+                Size
+                <select
+                  className="px-2 py-1 border rounded-md"
+                  value={matrix.length}
+                  onChange={(event) =>
+                    onChange({ ...params, [definition.key]: resizeSquareMatrix(matrix, parseInt(event.target.value)) })
+                  }
+                >
+                  {Array.from({ length: (sizes.max - sizes.min) / 2 + 1 }, (_, i) => sizes.min + 2 * i).map((size) => (
+                    <option key={size} value={size}>
+                      {size}×{size}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <table>
+              {definition.columnLabels && (
+                <thead>
+                  <tr>
+                    <th />
+                    {definition.columnLabels.map((label) => (
+                      <th key={label} className="px-1 font-normal text-gray-500">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody>
+                {matrix.map((row, r) => (
+                  <tr key={r}>
+                    {definition.rowLabels && (
+                      <th className="pr-2 font-normal text-gray-500 text-right">{definition.rowLabels[r]}</th>
+                    )}
+                    {row.map((value, c) => (
+                      <td key={c} className="p-0.5">
+                        <NumberInput
+                          value={value}
+                          definition={definition}
+                          onCommit={(newValue) => set(definition, [definition.key, r, c], newValue)}
+                          className={sizes ? 'w-16' : undefined}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+      case 'notches':
+        return image && inputSteps ? (
+          <NotchEditor
+            key={definition.key}
+            image={image}
+            inputSteps={inputSteps}
+            notches={params[definition.key]}
+            onChange={(notches) => onChange({ ...params, [definition.key]: notches })}
+          />
+        ) : (
+          <p key={definition.key} className="text-sm text-gray-500">
+            Upload an image to paint notches on its spectrum.
+          </p>
+        );
+    }
+  };
+
+  const shown = definitions.filter((definition) => !definition.shownWhen || definition.shownWhen(params));
+  return <div className="flex flex-wrap gap-6">{shown.map(renderDefinition)}</div>;
+};
+
+export default ParamForm;
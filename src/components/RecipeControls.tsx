@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { FileDown, FileUp, X } from 'lucide-react';
+import { createRecipe, parseRecipe, serializeRecipe } from '../recipes/recipe';
+import { ProcessingStep } from '../types';
+import { downloadBlob } from '../utils/image';
+
+interface RecipeControlsProps {
+  steps: ProcessingStep[];
+  onImport: (steps: ProcessingStep[]) => void;
+}
+
+const RecipeControls: React.FC<RecipeControlsProps> = ({ steps, onImport }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeRecipe(createRecipe(steps))], { type: 'application/json' }), 'recipe.json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    const result = parseRecipe(await file.text());
+    if (result.ok) {
+      setErrors([]);
+      onImport(result.steps);
+    } else {
+      setErrors(result.errors.map((error) => `${file.name}: ${error}`));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <button
+          className="inline-flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+          onClick={() => inputRef.current?.click()}
+        >
+          <FileUp className="mr-2" size={18} /> Import Recipe
+        </button>
+        <button
+          className="inline-flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          onClick={handleExport}
+          disabled={steps.length === 0}
+        >
+          <FileDown className="mr-2" size={18} /> Export Recipe
+        </button>
+        <input ref={inputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+      {errors.length > 0 && (
+        <div className="mt-2 p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm">
+          <div className="flex justify-between font-semibold">
+            Could not import recipe
+            <button onClick={() => setErrors([])} aria-label="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="list-disc ml-5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipeControls;
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, FolderOpen, History, Pencil, Trash2, X } from 'lucide-react';
+import { SessionSummary, deleteSession, listSessions, renameSession, storageEstimate } from '../sessions/sessions';
+import { describeError } from '../utils/errors';
+
+interface SessionControlsProps {
+  /** Session the editor is autosaving to, if any. */
+  currentId: string | null;
+  /** Autosave and restore problems to show until dismissed. */
+  errors: string[];
+  onDismissErrors: () => void;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+const SessionControls: React.FC<SessionControlsProps> = ({
+  currentId,
+  errors,
+  onDismissErrors,
+  onOpen,
+  onDeleted,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listSessions()
+      .then((list) => {
+        setSessions(list);
+        setListError(null);
+      })
+      .catch((error) => setListError(`Could not read saved sessions: ${describeError(error)}`));
+    storageEstimate()
+      .then(setUsage)
+      .catch(() => setUsage(null));
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, currentId, refresh]);
+
+  const commitRename = () => {
+    if (!renaming) {
+      return;
+    }
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (name) {
+      renameSession(renaming.id, name)
+        .then(refresh)
+        .catch((error) => setListError(describeError(error)));
+    }
+  };
+
+  const remove = (session: SessionSummary) => {
+    if (!window.confirm(`Delete the session "${session.name}"? This cannot be undone.`)) {
+      return;
+    }
+    deleteSession(session.id)
+      .then(() => {
+        onDeleted(session.id);
+        refresh();
+      })
+      .catch((error) => setListError(describeError(error)));
+  };
+
+  const shownErrors = listError ? [...errors, listError] : errors;
+
+  return (
+    <div className="relative">
+      <button
+        className="inline-flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+        onClick={() => setOpen(!open)}
+      >
+        <History className="mr-2" size={18} /> Sessions
+      </button>
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-96 p-3 bg-white rounded-md shadow-lg border border-gray-200">
+          {sessions === null ? (
+            <p className="text-sm text-gray-500">Loading sessions…</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved sessions. Uploading an image starts one.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-2 flex items-center gap-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    {renaming?.id === session.id ? (
+                      <input
+                        autoFocus
+                        className="w-full px-1 border rounded"
+                        value={renaming.name}
+                        onChange={(event) => setRenaming({ id: session.id, name: event.target.value })}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Enter') {
+                            commitRename();
+                          } else if (event.key === 'Escape') {
+                            setRenaming(null);
+                          }
+                        }}
+                      />
+                    ) : (
+                      <div className={`truncate ${session.id === currentId ? 'font-semibold' : ''}`}>
+                        {session.name}
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-500">
+                      {new Date(session.updatedAt).toLocaleString()} · {session.stepCount} steps ·{' '}
+                      {formatBytes(session.imageBytes)}
+                    </div>
+                  </div>
+                  {renaming?.id === session.id ? (
+                    <button className="p-1 text-gray-500 hover:text-gray-800" title="Save name" onClick={commitRename}>
+                      <Check size={16} />
+                    </button>
+                  ) : (
+                    <button
+                      className="p-1 text-gray-500 hover:text-gray-800"
+                      title="Rename session"
+                      onClick={() => setRenaming({ id: session.id, name: session.name })}
+                    >
+                      <Pencil size={16} />
+                    </button>
+                  )}
+                  <button
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                    title="Open session"
+                    disabled={session.id === currentId}
+                    onClick={() => {
+                      onOpen(session.id);
+                      setOpen(false);
+                    }}
+                  >
+                    <FolderOpen size={16} />
+                  </button>
+                  <button
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Delete session"
+                    onClick={() => remove(session)}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {usage && (
+            <p className="mt-2 text-xs text-gray-500">
+              Using {formatBytes(usage.usage)} of {formatBytes(usage.quota)} of browser storage
+            </p>
+          )}
+        </div>
+      )}
+      {shownErrors.length > 0 && (
+        <div className="mt-2 p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm">
+          <div className="flex justify-between font-semibold">
+            Session problem
+            <button
+              onClick={() => {
+                setListError(null);
+                onDismissErrors();
+              }}
+              aria-label="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="list-disc ml-5">
+            {shownErrors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionControls;
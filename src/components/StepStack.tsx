@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Copy, Eye, EyeOff, GripVertical, Trash2 } from 'lucide-react';
+import { isEnabled } from '../history';
+import { describeMask } from '../processing/mask';
+import { operationLabel } from '../processing/operations';
+import { paramDefinition, usedParams } from '../processing/params';
+import { ProcessingStep } from '../types';
+
+interface StepStackProps {
+  steps: ProcessingStep[];
+  selectedStepId: string | null;
+  /** What steps reported about their last full-resolution run, by step id. */
+  reports: Record<string, string>;
+  onSelect: (step: ProcessingStep) => void;
+  onToggle: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const formatValue = (value: unknown): string =>
+  Array.isArray(value) ? `[${value.map(formatValue).join(', ')}]` : String(value);
+
+// Painted notches are too long to list; their count is enough to tell steps apart.
+const formatParam = (step: ProcessingStep, key: string, value: unknown): string =>
+  paramDefinition(step.option, key)?.type === 'notches'
+    ? `${(value as unknown[]).length} notch strokes`
+    : `${key} ${formatValue(value)}`;
+
+const summarize = (step: ProcessingStep) =>
+  [
+    ...Object.entries(usedParams(step)).map(([key, value]) => formatParam(step, key, value)),
+    ...(step.mask ? [`mask: ${describeMask(step.mask)}`] : []),
+  ].join(' · ');
+
+const StepStack: React.FC<StepStackProps> = ({
+  steps,
+  selectedStepId,
+  reports,
+  onSelect,
+  onToggle,
+  onDuplicate,
+  onRemove,
+  onMove,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Steps</h2>
+      {steps.length === 0 ? (
+        <p className="text-sm text-gray-500">No steps yet. Pick an option and add it to start a chain.</p>
+      ) : (
+        <ol className="space-y-1">
+          {steps.map((step, index) => {
+            const selected = step.id === selectedStepId;
+            return (
+              <li
+                key={step.id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                onDrop={() => handleDrop(index)}
+                onClick={() => onSelect(step)}
+                className={`flex items-center gap-2 px-2 py-2 rounded-md border cursor-pointer text-sm ${
+                  selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                } ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-blue-300' : ''} ${
+                  isEnabled(step) ? '' : 'opacity-50'
+                }`}
+              >
+                <GripVertical className="text-gray-400 cursor-grab shrink-0" size={16} />
+                <span className="text-gray-500 w-5 shrink-0">{index + 1}.</span>
+                <div className="flex-1 min-w-0">
+                  <div className={`font-medium truncate ${isEnabled(step) ? '' : 'line-through'}`}>
+                    {operationLabel(step.option)}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">{summarize(step)}</div>
+                  {isEnabled(step) && reports[step.id] && (
+                    <div className="text-xs text-blue-700 truncate">{reports[step.id]}</div>
+                  )}
+                </div>
+                <button
+                  className="p-1 text-gray-500 hover:text-gray-800"
+                  title={isEnabled(step) ? 'Disable step' : 'Enable step'}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onToggle(step.id);
+                  }}
+                >
+                  {isEnabled(step) ? <Eye size={16} /> : <EyeOff size={16} />}
+                </button>
+                <button
+                  className="p-1 text-gray-500 hover:text-gray-800"
+                  title="Duplicate step"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onDuplicate(step.id);
+                  }}
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  className="p-1 text-gray-500 hover:text-red-600"
+                  title="Remove step"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onRemove(step.id);
+                  }}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default StepStack;
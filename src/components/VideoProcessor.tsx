@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Film, Loader, Play, Square } from 'lucide-react';
+import { stripExtension } from '../batch/batch';
+import { validatePipeline } from '../processing/formats';
+import { operationLabel } from '../processing/operations';
+import { ProcessingStep } from '../types';
+import { describeError } from '../utils/errors';
+import { downloadBlob, imageDataToDataUrl } from '../utils/image';
+import { ANIMATED_IMAGE_TYPES, DEFAULT_FRAME_RATE, FrameSource, openClip } from '../video/frames';
+import {
+  CLIP_EXPORT_FORMATS,
+  ClipExportFormat,
+  clipFilename,
+  createClipEncoder,
+  renderClip,
+} from '../video/render';
+import { PipelineClient, createPipelineClient } from '../workers/pipelineClient';
+
+interface VideoProcessorProps {
+  steps: ProcessingStep[];
+}
+
+const MAX_FRAME_RATE = 240;
+
+// Scrubbing runs as a client of its own so it never cancels the single-image editor's renders.
+const scrubClient = createPipelineClient();
+
+const VideoProcessor: React.FC<VideoProcessorProps> = ({ steps }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [frameRate, setFrameRate] = useState(DEFAULT_FRAME_RATE);
+  const [source, setSource] = useState<FrameSource | null>(null);
+  const [opening, setOpening] = useState(false);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [frame, setFrame] = useState<ImageData | null>(null);
+  const [original, setOriginal] = useState<string | null>(null);
+  const [processed, setProcessed] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [format, setFormat] = useState<ClipExportFormat>('webm');
+  const [renderProgress, setRenderProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const renderClientRef = useRef<PipelineClient | null>(null);
+  const stoppedRef = useRef(false);
+  const issues = useMemo(() => validatePipeline(steps), [steps]);
+  const isVideo = file?.type.startsWith('video/') ?? false;
+
+  useEffect(() => {
+    if (!file) {
+      return;
+    }
+    let active = true;
+    let opened: FrameSource | null = null;
+    setSource(null);
+    setOpening(true);
+    setError(null);
+    openClip(file, frameRate)
+      .then((clip) => {
+        opened = clip;
+        if (active) {
+          setSource(clip);
+          setFrameIndex((index) => Math.min(index, clip.frameCount - 1));
+        } else {
+          clip.close();
+        }
+      })
+      .catch((error) => active && setError(describeError(error)))
+      .finally(() => active && setOpening(false));
+    return () => {
+      active = false;
+      opened?.close();
+    };
+  }, [file, frameRate]);
+
+  useEffect(() => {
+    if (!source) {
+      setFrame(null);
+      setOriginal(null);
+      return;
+    }
+    let active = true;
+    source
+      .readFrame(frameIndex)
+      .then(({ image }) => {
+        if (active) {
+          setFrame(image);
+          setOriginal(imageDataToDataUrl(image));
+        }
+      })
+      .catch((error) => active && setError(describeError(error)));
+    return () => {
+      active = false;
+    };
+  }, [source, frameIndex]);
+
+  // Keep the current frame in the worker while the chain is edited, so only steps after a change rerun.
+  useEffect(() => {
+    return () => {
+      if (frame) {
+        scrubClient.releaseSource(frame);
+      }
+    };
+  }, [frame]);
+
+  useEffect(() => {
+    setProcessed(null);
+    if (!frame || steps.length === 0 || issues.length > 0) {
+      setProcessing(false);
+      return;
+    }
+    let active = true;
+    setProcessing(true);
+    const job = scrubClient.runPipeline(frame, steps);
+    job.promise
+      .then((result) => {
+        if (active && result) {
+          setProcessed(imageDataToDataUrl(result));
+          setError(null);
+        }
+      })
+      .catch((error) => active && setError(describeError(error)))
+      .finally(() => active && setProcessing(false));
+    return () => {
+      active = false;
+      job.cancel();
+    };
+  }, [frame, steps, issues]);
+
+  // Stop a render still running when the tab is left.
+  useEffect(() => {
+    return () => {
+      stoppedRef.current = true;
+      renderClientRef.current?.close();
+    };
+  }, []);
+
+  const render = async () => {
+    if (!source || !file) {
+      return;
+    }
+    const name = stripExtension(file.name);
+    const client = createPipelineClient();
+    renderClientRef.current = client;
+    stoppedRef.current = false;
+    setRenderError(null);
+    setRenderProgress({ completed: 0, total: source.frameCount });
+    try {
+      const encoder = await createClipEncoder(format, source, name);
+      const clip = await renderClip(
+        source,
+        steps,
+        client,
+        encoder,
+        (completed, total) => setRenderProgress({ completed, total }),
+        () => stoppedRef.current
+      );
+      if (clip) {
+        downloadBlob(clip, clipFilename(format, name));
+      }
+    } catch (error) {
+      setRenderError(describeError(error));
+    } finally {
+      client.close();
+      renderClientRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  const stop = () => {
+    stoppedRef.current = true;
+    renderClientRef.current?.close();
+  };
+
+  const rendering = renderProgress !== null;
+  const lastFrame = source ? source.frameCount - 1 : 0;
+  const stepFrames = (delta: number) => setFrameIndex((index) => Math.min(Math.max(index + delta, 0), lastFrame));
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Video and Animations</h2>
+      {steps.length === 0 ? (
+        <p className="text-gray-600 mb-4">
+          Build a processing chain on a single image first (or import a recipe); it will be applied to every frame here.
+        </p>
+      ) : (
+        <p className="text-gray-600 mb-4">
+          Applying {steps.length} step{steps.length === 1 ? '' : 's'}: {steps.map((step) => operationLabel(step.option)).join(' → ')}
+        </p>
+      )}
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm">
+          {issues.map((issue) => (
+            <div key={issue.stepIndex}>{issue.message}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="cursor-pointer inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600">
+          <Film className="mr-2" size={18} />
+          Open video or animation
+          <input
+            type="file"
+            accept={['video/*', ...ANIMATED_IMAGE_TYPES].join(',')}
+            className="hidden"
+            disabled={rendering}
+            onChange={(event) => {
+              const chosen = event.target.files?.[0];
+              if (chosen) {
+                setFile(chosen);
+                setFrameIndex(0);
+              }
+              event.target.value = '';
+            }}
+          />
+        </label>
+        {isVideo && (
+          <label className="flex flex-col text-sm">
+            Frames per second
+            <input
+              type="number"
+              className="mt-1 px-2 py-1 border rounded-md w-24"
+              min={1}
+              max={MAX_FRAME_RATE}
+              value={frameRate}
+              disabled={rendering}
+              onChange={(event) =>
+                setFrameRate(Math.min(Math.max(parseFloat(event.target.value) || 1, 1), MAX_FRAME_RATE))
+              }
+            />
+          </label>
+        )}
+        {file && <span className="text-sm text-gray-600 truncate max-w-xs">{file.name}</span>}
+        {opening && <Loader className="animate-spin text-blue-500" size={18} />}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm flex items-center">
+          <AlertTriangle className="mr-2 shrink-0" size={16} />
+          {error}
+        </div>
+      )}
+
+      {source && (
+        <>
+          <div className="flex items-center gap-3 mb-4">
+            <button
+              className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              title="Previous frame"
+              disabled={frameIndex === 0}
+              onClick={() => stepFrames(-1)}
+            >
+              <ChevronLeft size={20} />
+            </button>
+            <input
+              type="range"
+              className="flex-1"
+              min={0}
+              max={lastFrame}
+              value={frameIndex}
+              onChange={(event) => setFrameIndex(parseInt(event.target.value))}
+              aria-label="Frame"
+            />
+            <button
+              className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              title="Next frame"
+              disabled={frameIndex === lastFrame}
+              onClick={() => stepFrames(1)}
+            >
+              <ChevronRight size={20} />
+            </button>
+            <span className="text-sm text-gray-600 whitespace-nowrap w-48 text-right">
+              Frame {frameIndex + 1} of {source.frameCount}
+              {isVideo && ` · ${(frameIndex / frameRate).toFixed(2)} s`}
+            </span>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-6 mb-6">
+            <div className="w-full md:w-1/2">
+              <h3 className="font-semibold mb-2">Original frame</h3>
+              {original && <img src={original} alt="Original frame" className="max-w-full" />}
+            </div>
+            <div className="w-full md:w-1/2">
+              <h3 className="font-semibold mb-2 flex items-center">
+                Processed frame
+                {processing && <Loader className="ml-2 animate-spin text-blue-500" size={16} />}
+              </h3>
+              {processed ? (
+                <img src={processed} alt="Processed frame" className="max-w-full" />
+              ) : (
+                <div className="flex items-center justify-center h-48 bg-gray-200 text-gray-500">
+                  <Film size={48} />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="flex flex-col text-sm">
+              Export as
+              <select
+                className="mt-1 px-2 py-1 border rounded-md"
+                value={format}
+                disabled={rendering}
+                onChange={(event) => setFormat(event.target.value as ClipExportFormat)}
+              >
+                {Object.entries(CLIP_EXPORT_FORMATS).map(([value, { label }]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {rendering ? (
+              <button className="inline-flex items-center px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600" onClick={stop}>
+                <Square className="mr-2" size={18} /> Stop
+              </button>
+            ) : (
+              <button
+                className="inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+                onClick={render}
+                disabled={steps.length === 0 || issues.length > 0}
+              >
+                <Play className="mr-2" size={18} /> Render {source.frameCount} frame{source.frameCount === 1 ? '' : 's'}
+              </button>
+            )}
+            {renderProgress && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <div className="w-48 h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${(renderProgress.completed / renderProgress.total) * 100}%` }}
+                  />
+                </div>
+                {renderProgress.completed} / {renderProgress.total}
+              </div>
+            )}
+          </div>
+          {renderError && <p className="mt-2 text-sm text-red-600">{renderError}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VideoProcessor;
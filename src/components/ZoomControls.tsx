@@ -0,0 +1,39 @@
+import React from 'react';
+import { Maximize2 } from 'lucide-react';
+import { FIT_VIEWPORT, Viewport } from '../viewer/viewport';
+
+interface ZoomControlsProps {
+  viewport: Viewport;
+  onChange: (viewport: Viewport) => void;
+}
+
+const PRESETS = [1, 2];
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ viewport, onChange }) => {
+  const button = (key: string, active: boolean, content: React.ReactNode, onClick: () => void) => (
+    <button
+      key={key}
+      className={`inline-flex items-center px-2 py-1 rounded-md text-sm ${
+        active ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+      }`}
+      onClick={onClick}
+    >
+      {content}
+    </button>
+  );
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {button('fit', viewport.zoom === null, <><Maximize2 className="mr-1" size={14} /> Fit</>, () => onChange(FIT_VIEWPORT))}
+      {PRESETS.map((zoom) =>
+        button(String(zoom), viewport.zoom === zoom, `${zoom * 100}%`, () => onChange({ ...viewport, zoom }))
+      )}
+      <span className="w-14 text-right text-gray-500">
+        {viewport.zoom === null ? 'Fit' : `${Math.round(viewport.zoom * 100)}%`}
+      </span>
+      <span className="text-gray-400 hidden md:inline">Scroll to zoom, drag to pan, double-click to fit</span>
+    </div>
+  );
+};
+
+export default ZoomControls;
@@ -0,0 +1,38 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { decodePng } from '../cli/images';
+import { createStep } from '../history';
+import { loadNodeOpenCv } from '../processing/nodeOpenCv';
+import '../processing/operations';
+import { DEFAULT_PARAMS } from '../processing/params';
+import { PARAM_SCHEMA } from '../processing/paramSchema';
+import { createRecipe, serializeRecipe } from '../recipes/recipe';
+import { testImage, translucentPixels } from '../test/images';
+import { workerResult, workerResult16 } from '../test/pipeline';
+import { BuiltInOption } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, encodeImage, supports16Bit } from './export';
+
+const CHAINS = (Object.keys(PARAM_SCHEMA) as BuiltInOption[]).map((option) => [createStep(option, DEFAULT_PARAMS)]);
+
+describe('exported images', () => {
+  let cv: any;
+  const image = testImage();
+
+  beforeAll(async () => {
+    ({ cv } = await loadNodeOpenCv());
+  });
+
+  it.each(CHAINS.map((steps) => [steps[0].option, steps] as const))('are opaque after %s', async (_, steps) => {
+    expect(translucentPixels(workerResult(cv, image, steps))).toBe(0);
+    if (!supports16Bit(steps)) {
+      return;
+    }
+    const result = workerResult16(cv, image, steps);
+    expect(result.data.filter((_, i) => i % 4 === 3 && result.data[i] !== 65535).length).toBe(0);
+    const blob = await encodeImage(
+      result,
+      { ...DEFAULT_EXPORT_OPTIONS, bitDepth: 16 },
+      serializeRecipe(createRecipe(steps))
+    );
+    expect(translucentPixels(decodePng(new Uint8Array(await blob.arrayBuffer())))).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { formatAfter } from '../processing/formats';
+import { ProcessingStep } from '../types';
+import { imageDataToBlob } from '../utils/image';
+import { Rgba16Image } from '../workers/protocol';
+import { embedRecipe } from './metadata';
+import { encodePng16 } from './png';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Encoder quality in [0, 1] for the lossy formats. */
+  quality: number;
+  /** Bits per sample; 16 applies to PNG only. */
+  bitDepth: 8 | 16;
+  embedRecipe: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; extension: string; lossy: boolean }> = {
+  png: { label: 'PNG', mime: 'image/png', extension: 'png', lossy: false },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg', lossy: true },
+  webp: { label: 'WebP', mime: 'image/webp', extension: 'webp', lossy: true },
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  bitDepth: 8,
+  embedRecipe: true,
+};
+
+/** 16-bit output only carries more information than 8-bit when the chain ends in a float step. */
+export const supports16Bit = (steps: ProcessingStep[]) => formatAfter(steps).depth === '32F';
+
+export const uses16Bit = (options: ExportOptions, steps: ProcessingStep[]) =>
+  options.format === 'png' && options.bitDepth === 16 && supports16Bit(steps);
+
+/** Encodes a rendered result in the chosen format, with `recipe` (JSON) in its metadata if given. */
+export const encodeImage = async (
+  image: ImageData | Rgba16Image,
+  options: ExportOptions,
+  recipe: string | null
+): Promise<Blob> => {
+  const { mime, label, lossy } = EXPORT_FORMATS[options.format];
+  let bytes: Uint8Array;
+  if (image.data instanceof Uint16Array) {
+    bytes = await encodePng16(image as Rgba16Image);
+  } else {
+    const blob = await imageDataToBlob(image as ImageData, mime, lossy ? options.quality : undefined);
+    // Browsers without an encoder for the type silently fall back to PNG.
+    if (blob.type !== mime) {
+      throw new Error(`This browser can't encode ${label} images.`);
+    }
+    bytes = new Uint8Array(await blob.arrayBuffer());
+  }
+  if (recipe) {
+    bytes = embedRecipe(bytes, options.format, recipe);
+  }
+  return new Blob([bytes], { type: mime });
+};
@@ -0,0 +1,106 @@
+import { RECIPE_FORMAT } from '../recipes/recipe';
+import { concatBytes, insertPngText } from './png';
+import { ExportFormat } from './export';
+
+const XMP_NAMESPACE = `urn:${RECIPE_FORMAT}`;
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const JPEG_MAX_SEGMENT = 0xffff - 2;
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const xmpPacket = (recipe: string) =>
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+  `<rdf:Description rdf:about="" xmlns:recipe="${XMP_NAMESPACE}">` +
+  `<recipe:json>${escapeXml(recipe)}</recipe:json>` +
+  '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="r"?>';
+
+/** Adds an APP1 XMP segment after SOI and any APP0 (JFIF) segment, which must stay first. */
+const embedJpeg = (jpeg: Uint8Array, recipe: string): Uint8Array => {
+  const payload = new TextEncoder().encode(JPEG_XMP_HEADER + xmpPacket(recipe));
+  if (payload.length > JPEG_MAX_SEGMENT) {
+    throw new Error(
+      `The recipe is too large to embed in a JPEG (${payload.length} bytes; the limit is ${JPEG_MAX_SEGMENT}).`
+    );
+  }
+  let offset = 2;
+  if (jpeg[offset] === 0xff && jpeg[offset + 1] === 0xe0) {
+    offset += 2 + ((jpeg[offset + 2] << 8) | jpeg[offset + 3]);
+  }
+  const length = payload.length + 2;
+  const marker = new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]);
+  return concatBytes([jpeg.subarray(0, offset), marker, payload, jpeg.subarray(offset)]);
+};
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(8 + data.length + (data.length % 2));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) {
+    bytes[i] = type.charCodeAt(i);
+  }
+  view.setUint32(4, data.length, true);
+  bytes.set(data, 8);
+  return bytes;
+};
+
+const VP8X_XMP = 0x04;
+const VP8X_ALPHA = 0x10;
+
+/**
+ * Appends an XMP chunk. Simple (VP8/VP8L-only) files are first turned into
+ * the extended format, whose VP8X header carries the canvas size and the flag
+ * announcing the metadata.
+ */
+const embedWebp = (webp: Uint8Array, recipe: string): Uint8Array => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const first = fourCC(webp, 12);
+  let body = webp.subarray(12);
+  if (first === 'VP8X') {
+    body = body.slice();
+    body[8] |= VP8X_XMP;
+  } else {
+    let width: number;
+    let height: number;
+    let flags = VP8X_XMP;
+    if (first === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >> 14) & 0x3fff) + 1;
+      flags |= (bits >> 28) & 1 ? VP8X_ALPHA : 0;
+    } else if (first === 'VP8 ') {
+      width = view.getUint16(26, true) & 0x3fff;
+      height = view.getUint16(28, true) & 0x3fff;
+    } else {
+      throw new Error(`Unexpected WebP chunk "${first}".`);
+    }
+    const header = new Uint8Array(10);
+    header[0] = flags;
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    body = concatBytes([riffChunk('VP8X', header), body]);
+  }
+
+  const chunks = concatBytes([body, riffChunk('XMP ', new TextEncoder().encode(xmpPacket(recipe)))]);
+  const riff = new Uint8Array(12);
+  riff.set(webp.subarray(0, 12));
+  new DataView(riff.buffer).setUint32(4, 4 + chunks.length, true);
+  return concatBytes([riff, chunks]);
+};
+
+/**
+ * Stores the recipe JSON in the file's metadata: an iTXt chunk keyed by the
+ * recipe format name in PNGs, and an XMP packet in JPEGs and WebPs.
+ */
+export const embedRecipe = (bytes: Uint8Array, format: ExportFormat, recipe: string): Uint8Array => {
+  switch (format) {
+    case 'png':
+      return insertPngText(bytes, RECIPE_FORMAT, recipe);
+    case 'jpeg':
+      return embedJpeg(bytes, recipe);
+    case 'webp':
+      return embedWebp(bytes, recipe);
+  }
+};
@@ -0,0 +1,88 @@
+import { RgbaImage } from '../processing/backend';
+import { crc32 } from '../utils/zip';
+import { Rgba16Image } from '../workers/protocol';
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const COLOR_TYPE_RGBA = 6;
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    bytes[4 + i] = type.charCodeAt(i);
+  }
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+const encodeRgbaPng = async (
+  width: number,
+  height: number,
+  bitDepth: 8 | 16,
+  samples: ArrayLike<number>
+): Promise<Uint8Array> => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = COLOR_TYPE_RGBA;
+
+  const bytesPerSample = bitDepth / 8;
+  const rowBytes = width * 4 * bytesPerSample;
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  const rawView = new DataView(raw.buffer);
+  for (let y = 0; y < height; y++) {
+    const offset = y * (rowBytes + 1) + 1;
+    for (let i = 0; i < width * 4; i++) {
+      const sample = samples[y * width * 4 + i];
+      if (bitDepth === 16) {
+        rawView.setUint16(offset + i * 2, sample);
+      } else {
+        raw[offset + i] = sample;
+      }
+    }
+  }
+
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+};
+
+/** Encodes a 16-bit RGBA PNG, which canvas can't produce. Rows are stored unfiltered. */
+export const encodePng16 = (image: Rgba16Image): Promise<Uint8Array> =>
+  encodeRgbaPng(image.width, image.height, 16, image.data);
+
+/** Encodes an 8-bit RGBA PNG without a canvas, e.g. from the command-line runner. */
+export const encodePng = (image: RgbaImage): Promise<Uint8Array> =>
+  encodeRgbaPng(image.width, image.height, 8, image.data);
+
+/** Inserts an uncompressed iTXt chunk with UTF-8 `text` right after the IHDR chunk of `png`. */
+export const insertPngText = (png: Uint8Array, keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // keyword NUL, compression flag, compression method, empty language tag NUL, empty translated keyword NUL
+  const data = concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]);
+  const ihdrEnd = PNG_SIGNATURE.length + 12 + new DataView(png.buffer, png.byteOffset).getUint32(PNG_SIGNATURE.length);
+  return concatBytes([png.subarray(0, ihdrEnd), chunk('iTXt', data), png.subarray(ihdrEnd)]);
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_HISTORY,
+  activeSteps,
+  createStep,
+  duplicateStep,
+  moveStep,
+  pushHistory,
+  redoHistory,
+  removeStep,
+  toggleStep,
+  undoHistory,
+  updateStep,
+} from './history';
+import { DEFAULT_PARAMS } from './processing/params';
+
+const steps = () => [
+  createStep('Color Inversion', DEFAULT_PARAMS),
+  createStep('Unsharp Masking', DEFAULT_PARAMS),
+  createStep('Thresholding', DEFAULT_PARAMS),
+];
+
+describe('undo history', () => {
+  it('undoes and redoes pushed states in order', () => {
+    const [a, b] = [steps(), steps()];
+    let history = pushHistory(pushHistory(EMPTY_HISTORY, a), b);
+    history = undoHistory(history);
+    expect(history.present).toBe(a);
+    history = undoHistory(history);
+    expect(history.present).toEqual([]);
+    expect(undoHistory(history)).toBe(history);
+    history = redoHistory(redoHistory(history));
+    expect(history.present).toBe(b);
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it('drops the redo states when a new state is pushed', () => {
+    const history = pushHistory(undoHistory(pushHistory(EMPTY_HISTORY, steps())), steps());
+    expect(history.future).toEqual([]);
+  });
+
+  it('keeps at most 100 undo states', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 120; i++) {
+      history = pushHistory(history, [createStep('Color Inversion', DEFAULT_PARAMS)]);
+    }
+    expect(history.past).toHaveLength(100);
+  });
+});
+
+describe('step edits', () => {
+  it('give every step a unique id', () => {
+    const ids = [...steps(), ...steps()].map((step) => step.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('toggle, update and remove only the step with the id', () => {
+    const chain = steps();
+    const toggled = toggleStep(chain, chain[1].id);
+    expect(activeSteps(toggled).map((step) => step.option)).toEqual(['Color Inversion', 'Thresholding']);
+    expect(activeSteps(toggleStep(toggled, chain[1].id))).toHaveLength(3);
+    expect(updateStep(chain, chain[0].id, { option: 'Edge Detection' })[0]).toMatchObject({
+      id: chain[0].id,
+      option: 'Edge Detection',
+    });
+    expect(removeStep(chain, chain[1].id).map((step) => step.id)).toEqual([chain[0].id, chain[2].id]);
+  });
+
+  it('duplicates a step right after itself under a new id', () => {
+    const chain = steps();
+    const duplicated = duplicateStep(chain, chain[1].id);
+    expect(duplicated).toHaveLength(4);
+    expect(duplicated[2]).toMatchObject({ option: chain[1].option, params: chain[1].params, enabled: true });
+    expect(duplicated[2].id).not.toBe(chain[1].id);
+  });
+
+  it('moves a step to a new position', () => {
+    const chain = steps();
+    expect(moveStep(chain, 0, 2).map((step) => step.option)).toEqual([
+      'Unsharp Masking',
+      'Thresholding',
+      'Color Inversion',
+    ]);
+    expect(moveStep(chain, 2, 0)[0]).toBe(chain[2]);
+  });
+});
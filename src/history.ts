@@ -0,0 +1,71 @@
+import { ProcessingHistory, ProcessingOption, ProcessingParams, ProcessingStep, StepMask } from './types';
+
+const MAX_UNDO_DEPTH = 100;
+
+export const EMPTY_HISTORY: ProcessingHistory = { past: [], present: [], future: [] };
+
+let nextStepId = 1;
+
+export const createStep = (
+  option: ProcessingOption,
+  params: ProcessingParams,
+  enabled = true,
+  mask?: StepMask
+): ProcessingStep => ({
+  id: `step-${nextStepId++}`,
+  option,
+  params,
+  enabled,
+  ...(mask ? { mask } : {}),
+});
+
+export const isEnabled = (step: ProcessingStep) => step.enabled !== false;
+
+/** The steps that actually run, in order. */
+export const activeSteps = (steps: ProcessingStep[]) => steps.filter(isEnabled);
+
+export const pushHistory = (history: ProcessingHistory, present: ProcessingStep[]): ProcessingHistory => ({
+  past: [...history.past, history.present].slice(-MAX_UNDO_DEPTH),
+  present,
+  future: [],
+});
+
+export const undoHistory = (history: ProcessingHistory): ProcessingHistory => {
+  if (history.past.length === 0) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoHistory = (history: ProcessingHistory): ProcessingHistory => {
+  if (history.future.length === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
+
+export const updateStep = (steps: ProcessingStep[], id: string, update: Partial<Omit<ProcessingStep, 'id'>>) =>
+  steps.map((step) => (step.id === id ? { ...step, ...update } : step));
+
+export const toggleStep = (steps: ProcessingStep[], id: string) =>
+  steps.map((step) => (step.id === id ? { ...step, enabled: !isEnabled(step) } : step));
+
+export const removeStep = (steps: ProcessingStep[], id: string) => steps.filter((step) => step.id !== id);
+
+export const duplicateStep = (steps: ProcessingStep[], id: string) =>
+  steps.flatMap((step) => (step.id === id ? [step, createStep(step.option, step.params, isEnabled(step), step.mask)] : [step]));
+
+export const moveStep = (steps: ProcessingStep[], from: number, to: number) => {
+  const moved = [...steps];
+  const [step] = moved.splice(from, 1);
+  moved.splice(to, 0, step);
+  return moved;
+};
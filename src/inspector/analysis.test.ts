@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { RgbaImage } from '../processing/backend';
+import { colorMapRgb } from '../processing/reference/colormap';
+import { analyzeImage, differenceImage, isGrayscale } from './analysis';
+
+const image = (pixels: [number, number, number][]): RgbaImage => ({
+  width: pixels.length,
+  height: 1,
+  data: new Uint8ClampedArray(pixels.flatMap((rgb) => [...rgb, 255])),
+});
+
+describe('analyzeImage', () => {
+  it('reports one gray channel when R, G and B agree', () => {
+    const gray = image([[10, 10, 10], [30, 30, 30], [30, 30, 30], [50, 50, 50]]);
+    expect(isGrayscale(gray)).toBe(true);
+    const [stats] = analyzeImage(gray);
+    expect(analyzeImage(gray)).toHaveLength(1);
+    expect(stats).toMatchObject({ name: 'Gray', min: 10, max: 50, mean: 30 });
+    expect(stats.stddev).toBeCloseTo(Math.sqrt(200));
+    expect(stats.histogram[30]).toBe(2);
+  });
+
+  it('reports each colour channel separately', () => {
+    const stats = analyzeImage(image([[0, 100, 255], [255, 100, 0]]));
+    expect(stats.map(({ name, min, max, mean, stddev }) => ({ name, min, max, mean, stddev }))).toEqual([
+      { name: 'Red', min: 0, max: 255, mean: 127.5, stddev: 127.5 },
+      { name: 'Green', min: 100, max: 100, mean: 100, stddev: 0 },
+      { name: 'Blue', min: 0, max: 255, mean: 127.5, stddev: 127.5 },
+    ]);
+  });
+});
+
+describe('differenceImage', () => {
+  it('takes the largest channel difference per pixel and scales the heatmap to it', () => {
+    const result = differenceImage(image([[0, 0, 0], [10, 10, 10], [5, 5, 5]]), image([[0, 0, 0], [10, 30, 0], [5, 15, 5]]));
+    expect(result.max).toBe(20);
+    expect(result.mean).toBe(10);
+    expect(result.changed).toBeCloseTo(2 / 3);
+    expect([...result.heatmap.data.subarray(4, 7)]).toEqual([...new Uint8ClampedArray(colorMapRgb(14, 255))]);
+    expect([...result.heatmap.data.subarray(8, 11)]).toEqual([...new Uint8ClampedArray(colorMapRgb(14, 128))]);
+  });
+
+  it('refuses images of different sizes', () => {
+    expect(() => differenceImage(image([[0, 0, 0]]), image([[0, 0, 0], [0, 0, 0]]))).toThrow(
+      'Cannot compare a 1x1 image with a 2x1 one.'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { RgbaImage } from '../processing/backend';
+import { colorMapRgb } from '../processing/reference/colormap';
+
+export interface ChannelStats {
+  name: 'Gray' | 'Red' | 'Green' | 'Blue';
+  /** Pixel count per 8-bit level. */
+  histogram: Uint32Array;
+  min: number;
+  max: number;
+  mean: number;
+  stddev: number;
+}
+
+export interface DifferenceResult {
+  /** Heatmap of the per-pixel difference, scaled so `max` maps to the top of the colour map. */
+  heatmap: RgbaImage;
+  /** Largest absolute difference in any channel, 0-255. */
+  max: number;
+  mean: number;
+  /** Fraction of pixels that differ at all. */
+  changed: number;
+}
+
+const COLORMAP_INFERNO = 14;
+
+const RGB_NAMES = ['Red', 'Green', 'Blue'] as const;
+
+export const isGrayscale = (image: RgbaImage): boolean => {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] !== data[i + 1] || data[i] !== data[i + 2]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const statsFromHistogram = (name: ChannelStats['name'], histogram: Uint32Array, count: number): ChannelStats => {
+  let min = 255;
+  let max = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  histogram.forEach((n, level) => {
+    if (n > 0) {
+      min = Math.min(min, level);
+      max = Math.max(max, level);
+      sum += n * level;
+      sumSquares += n * level * level;
+    }
+  });
+  const mean = count > 0 ? sum / count : 0;
+  const variance = count > 0 ? Math.max(sumSquares / count - mean * mean, 0) : 0;
+  return { name, histogram, min: count > 0 ? min : 0, max, mean, stddev: Math.sqrt(variance) };
+};
+
+/** Per-channel histograms and statistics; a single Gray channel when R, G and B agree everywhere. Alpha is ignored. */
+export const analyzeImage = (image: RgbaImage): ChannelStats[] => {
+  const count = image.width * image.height;
+  const channels = isGrayscale(image) ? 1 : 3;
+  const histograms = Array.from({ length: channels }, () => new Uint32Array(256));
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < channels; c++) {
+      histograms[c][image.data[i + c]]++;
+    }
+  }
+  return histograms.map((histogram, c) =>
+    statsFromHistogram(channels === 1 ? 'Gray' : RGB_NAMES[c], histogram, count)
+  );
+};
+
+/** Absolute difference of two equally sized images, taking the largest channel difference per pixel. */
+export const differenceImage = (a: RgbaImage, b: RgbaImage): DifferenceResult => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Cannot compare a ${a.width}x${a.height} image with a ${b.width}x${b.height} one.`);
+  }
+  const count = a.width * a.height;
+  const diff = new Uint8Array(count);
+  let max = 0;
+  let sum = 0;
+  let changed = 0;
+  for (let p = 0, i = 0; p < count; p++, i += 4) {
+    const d = Math.max(
+      Math.abs(a.data[i] - b.data[i]),
+      Math.abs(a.data[i + 1] - b.data[i + 1]),
+      Math.abs(a.data[i + 2] - b.data[i + 2])
+    );
+    diff[p] = d;
+    max = Math.max(max, d);
+    sum += d;
+    changed += d > 0 ? 1 : 0;
+  }
+
+  const colors = Array.from({ length: 256 }, (_, level) => colorMapRgb(COLORMAP_INFERNO, level));
+  const scale = max > 0 ? 255 / max : 0;
+  const data = new Uint8ClampedArray(count * 4);
+  for (let p = 0, i = 0; p < count; p++, i += 4) {
+    const [r, g, b] = colors[Math.round(diff[p] * scale)];
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  }
+  return {
+    heatmap: { width: a.width, height: a.height, data },
+    max,
+    mean: count > 0 ? sum / count : 0,
+    changed: count > 0 ? changed / count : 0,
+  };
+};
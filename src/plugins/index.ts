@@ -0,0 +1,6 @@
+/**
+ * Import plugin modules here, after the built-ins are registered. Both the
+ * app and the pipeline worker load this file, so an operation registered by
+ * one of these modules is available everywhere; see docs/plugins.md.
+ */
+export {};
@@ -0,0 +1,246 @@
+import { BuiltInOption, ProcessingParams, ProcessingStep } from '../types';
+import { RgbaImage } from './backend';
+import { BOOST_SPACES, applyToLightness, boostInHsv, equalizeSpace } from './colorSpaces';
+import { convertMat } from './convertMat';
+import { ImageFormat, RGBA_8U, StepFormat, stepFormat } from './formats';
+import { filterFrequencies, fourierView, frequencyResponse } from './frequency';
+import { applyGaborBank, gaborKernelMat } from './gabor';
+import { applyCustomKernel } from './kernel';
+import { compositeMasked } from './mask';
+import { withMatScope } from './matScope';
+import { applyMorphology } from './morphology';
+import { StepReporter, getOperation } from './registry';
+import { applyThreshold } from './thresholding';
+
+/** Runs a pixel implementation on a Mat in the step's accepted format, returning a Mat in its output format. */
+export const applyImageToMat = (
+  cv: any,
+  src: any,
+  { accepts, produces }: StepFormat,
+  applyImage: (image: RgbaImage, params: ProcessingParams, report: StepReporter) => RgbaImage,
+  params: ProcessingParams,
+  report: StepReporter
+): any => {
+  const rgba = convertMat(cv, src, accepts, RGBA_8U);
+  let result: any = null;
+  try {
+    const pixels = { width: rgba.cols, height: rgba.rows, data: new Uint8ClampedArray(rgba.data) };
+    const image = applyImage(pixels, params, report);
+    result = cv.matFromImageData(image);
+    return convertMat(cv, result, RGBA_8U, produces);
+  } finally {
+    rgba.delete();
+    result?.delete();
+  }
+};
+
+/**
+ * Converts `src` (in `format`) to the format the step accepts, applies it and
+ * returns a new Mat in the step's declared output format, blended over the
+ * input through the step's mask if it has one. `src` is untouched. Everything
+ * else the step allocates is deleted, even if it throws.
+ */
+export const runStep = (
+  cv: any,
+  src: any,
+  format: ImageFormat,
+  step: ProcessingStep,
+  report: StepReporter = () => {}
+): any =>
+  withMatScope(cv, (cv) => {
+    const { applyMat, applyImage } = getOperation(step.option);
+    const declared = stepFormat(step);
+    const input = convertMat(cv, src, format, declared.accepts);
+    let output: any;
+    try {
+      output = applyMat
+        ? applyMat(cv, input, step.params, report)
+        : applyImageToMat(cv, input, declared, applyImage!, step.params, report);
+    } finally {
+      input.delete();
+    }
+    if (!step.mask) {
+      return output;
+    }
+    try {
+      return compositeMasked(cv, src, format, output, declared.produces, step.mask);
+    } finally {
+      output.delete();
+    }
+  });
+
+/** The OpenCV implementation of the built-in operations, on a Mat already in the format builtInFormat gives. */
+export const applyProcessingStep = (
+  cv: any,
+  src: any,
+  option: BuiltInOption,
+  params: ProcessingParams,
+  report: StepReporter
+): any => {
+  let dst = new cv.Mat();
+
+  switch (option) {
+    case 'Histogram Equalization': {
+      const space = equalizeSpace(params);
+      if (space) {
+        dst.delete();
+        dst = applyToLightness(cv, src, space, (channel, out) => cv.equalizeHist(channel, out));
+      } else {
+        cv.equalizeHist(src, dst);
+      }
+      break;
+    }
+    case 'Adaptive Histogram Equalization': {
+      const clahe = new cv.CLAHE(params.clipLimit, new cv.Size(params.tileSize, params.tileSize));
+      const space = equalizeSpace(params);
+      try {
+        if (space) {
+          dst.delete();
+          dst = applyToLightness(cv, src, space, (channel, out) => clahe.apply(channel, out));
+        } else {
+          clahe.apply(src, dst);
+        }
+      } finally {
+        clahe.delete();
+      }
+      break;
+    }
+    case 'Edge Detection':
+      cv.Canny(src, dst, params.threshold1, params.threshold2, 3, false);
+      break;
+    case 'Unsharp Masking':
+      let blurred = new cv.Mat();
+      cv.GaussianBlur(src, blurred, new cv.Size(0, 0), params.sigma, params.sigma);
+      cv.addWeighted(src, 1 + params.amount, blurred, -params.amount, 0, dst);
+      blurred.delete();
+      break;
+    case 'High-Pass Filtering':
+      let lowPass = new cv.Mat();
+      cv.GaussianBlur(src, lowPass, new cv.Size(params.kernelSize, params.kernelSize), 0, 0);
+      cv.subtract(src, lowPass, dst);
+      lowPass.delete();
+      break;
+    case 'Laplacian Filtering':
+      cv.Laplacian(src, dst, cv.CV_8U, params.kernelSize, params.scale, 0, cv.BORDER_DEFAULT);
+      break;
+    case 'Custom Kernel':
+      dst.delete();
+      dst = applyCustomKernel(cv, src, params);
+      break;
+    case 'Color Inversion':
+      cv.bitwise_not(src, dst);
+      break;
+    case 'Thresholding':
+      dst.delete();
+      dst = applyThreshold(cv, src, params, report);
+      break;
+    case 'Morphology':
+      dst.delete();
+      dst = applyMorphology(cv, src, params);
+      break;
+    case 'Pseudocolor Mapping':
+      cv.applyColorMap(src, dst, params.colorMap);
+      break;
+    case 'Fourier Transform':
+      dst.delete();
+      // Left as float 0-255 so a 16-bit export keeps the precision; later steps saturate it to 8-bit.
+      dst = fourierView(cv, src, params.fourierView);
+      break;
+    case 'Frequency Filter':
+    case 'Notch Filter':
+      dst.delete();
+      dst = filterFrequencies(cv, src, (width, height) =>
+        frequencyResponse(option, params, width, height, src.cols, src.rows)
+      );
+      break;
+    case 'Color Boosting':
+      if (BOOST_SPACES[params.boostSpace] === 'HSV') {
+        dst.delete();
+        dst = boostInHsv(cv, src, params);
+        break;
+      }
+      let channels = new cv.MatVector();
+      cv.split(src, channels);
+      for (let i = 0; i < 3; i++) {
+        channels.get(i).convertTo(channels.get(i), -1, params.boostFactor[i], 0);
+      }
+      cv.merge(channels, dst);
+      channels.delete();
+      break;
+    case 'Channel Mixing Simulation':
+      // Every row reads the original channels, summed in float so negative
+      // factors only clip once, when the result is narrowed back to 8 bits.
+      let floatSrc = new cv.Mat();
+      src.convertTo(floatSrc, cv.CV_32F);
+      let sourceChannels = new cv.MatVector();
+      cv.split(floatSrc, sourceChannels);
+      let mixedChannels = new cv.MatVector();
+      for (let i = 0; i < 3; i++) {
+        const [f0, f1, f2] = params.mixFactors[i];
+        let mixed = new cv.Mat();
+        cv.addWeighted(sourceChannels.get(0), f0, sourceChannels.get(1), f1, 0, mixed);
+        cv.addWeighted(mixed, 1, sourceChannels.get(2), f2, 0, mixed);
+        mixedChannels.push_back(mixed);
+        mixed.delete();
+      }
+      let mixedFloat = new cv.Mat();
+      cv.merge(mixedChannels, mixedFloat);
+      mixedFloat.convertTo(dst, cv.CV_8U);
+      floatSrc.delete();
+      sourceChannels.delete();
+      mixedChannels.delete();
+      mixedFloat.delete();
+      break;
+    case 'Manual Colorization':
+      cv.cvtColor(src, dst, cv.COLOR_GRAY2RGB);
+      let colorMask = new cv.Mat(src.rows, src.cols, cv.CV_8UC3, new cv.Scalar(...params.colorTint));
+      cv.add(dst, colorMask, dst);
+      colorMask.delete();
+      break;
+    case 'Multi-Scale Retinex':
+      // src is RGB 32F; log(I + 1) keeps zero-valued pixels finite.
+      let shifted = new cv.Mat();
+      let logSrc = new cv.Mat();
+      let sum = cv.Mat.zeros(src.rows, src.cols, cv.CV_32FC3);
+      src.convertTo(shifted, -1, 1, 1);
+      cv.log(shifted, logSrc);
+      for (let scale of params.retinexScales) {
+        let blur = new cv.Mat();
+        cv.GaussianBlur(src, blur, new cv.Size(0, 0), scale, scale);
+        blur.convertTo(blur, -1, 1, 1);
+        let log = new cv.Mat();
+        cv.log(blur, log);
+        cv.add(sum, logSrc, sum);
+        cv.subtract(sum, log, sum);
+        blur.delete();
+        log.delete();
+      }
+      cv.normalize(sum, dst, 0, 255, cv.NORM_MINMAX);
+      shifted.delete();
+      logSrc.delete();
+      sum.delete();
+      break;
+    case 'Gabor Filter':
+      let kernel = gaborKernelMat(
+        cv,
+        params.gaborKernelSize,
+        params.gaborSigma,
+        params.gaborTheta,
+        params.gaborLambda,
+        params.gaborGamma,
+        params.gaborPsi
+      );
+      cv.filter2D(src, dst, cv.CV_8U, kernel, new cv.Point(-1, -1), 0, cv.BORDER_DEFAULT);
+      kernel.delete();
+      break;
+    case 'Gabor Bank':
+      dst.delete();
+      dst = applyGaborBank(cv, src, params);
+      break;
+    default:
+      console.error('Unknown processing option:', option);
+      dst = src.clone();
+  }
+
+  return dst;
+};
@@ -0,0 +1,33 @@
+import { ProcessingStep } from '../types';
+import { StepReporter } from './registry';
+
+/** Interleaved 8-bit RGBA pixels; structurally compatible with ImageData. */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface ProcessingBackend {
+  readonly name: string;
+  applyStep: (image: RgbaImage, step: ProcessingStep, report?: StepReporter) => RgbaImage;
+  /**
+   * Runs a whole chain, for backends whose intermediate results are richer
+   * than 8-bit RGBA (such as float Mats); without it, runSteps chains applyStep.
+   */
+  applySteps?: (
+    image: RgbaImage,
+    steps: ProcessingStep[],
+    onReport: (step: ProcessingStep, message: string) => void
+  ) => RgbaImage;
+}
+
+export const runSteps = (
+  backend: ProcessingBackend,
+  image: RgbaImage,
+  steps: ProcessingStep[],
+  onReport: (step: ProcessingStep, message: string) => void = () => {}
+): RgbaImage =>
+  backend.applySteps
+    ? backend.applySteps(image, steps, onReport)
+    : steps.reduce((current, step) => backend.applyStep(current, step, (message) => onReport(step, message)), image);
@@ -0,0 +1,171 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { compareImages, testImage, translucentPixels } from '../test/images';
+import { BuiltInOption, ProcessingParams, ProcessingStep, StepMask } from '../types';
+import { ProcessingBackend } from './backend';
+import { OPTIONAL_CV_FUNCTIONS } from './builtins';
+import { EQUALIZE_SPACES } from './colorSpaces';
+import { convertMat } from './convertMat';
+import { GRAY_32F, RGBA_32F, RGBA_8U, RGB_32F } from './formats';
+import { FREQUENCY_BANDS, FREQUENCY_FILTERS } from './frequency';
+import { BORDER_MODES } from './kernel';
+import { MORPH_OPERATIONS } from './morphology';
+import { loadNodeOpenCv } from './nodeOpenCv';
+import { createOpenCvBackend } from './opencvBackend';
+import './operations';
+import { DEFAULT_PARAMS } from './params';
+import { PARAM_SCHEMA } from './paramSchema';
+import { referenceBackend } from './reference';
+import { THRESHOLD_METHODS } from './thresholding';
+
+interface GoldenCase {
+  name: string;
+  option: BuiltInOption;
+  params?: Partial<ProcessingParams>;
+  mask?: StepMask;
+  /** Per-sample difference from the OpenCV result that still counts as a match. */
+  tolerance?: number;
+  /** Fraction of samples allowed beyond the tolerance, where rounding can tip a value across a jump. */
+  outliers?: number;
+}
+
+const builtIns = Object.keys(PARAM_SCHEMA) as BuiltInOption[];
+
+const SWAP_RED_GREEN: ProcessingParams['mixFactors'] = [
+  [0, 1, 0],
+  [1, 0, 0],
+  [0, 0, 1],
+];
+
+const CASES: GoldenCase[] = [
+  ...builtIns.map((option): GoldenCase => ({ name: 'defaults', option })),
+  // OpenCV converts 8-bit RGB to Lab through interpolated tables, so lightness
+  // can differ by a level, which equalization then spreads.
+  ...EQUALIZE_SPACES.slice(1).flatMap((space, index): GoldenCase[] => {
+    const lab = space === 'Lab lightness';
+    return [
+      {
+        name: space,
+        option: 'Histogram Equalization',
+        params: { equalizeSpace: index + 1 },
+        ...(lab ? { tolerance: 8, outliers: 0.001 } : {}),
+      },
+      {
+        name: space,
+        option: 'Adaptive Histogram Equalization',
+        params: { equalizeSpace: index + 1 },
+        ...(lab ? { tolerance: 8, outliers: 0.02 } : {}),
+      },
+    ];
+  }),
+  ...THRESHOLD_METHODS.map((method, thresholdMethod): GoldenCase => ({
+    name: method,
+    option: 'Thresholding',
+    params: { thresholdMethod },
+  })),
+  ...MORPH_OPERATIONS.map((operation, morphOperation): GoldenCase => ({
+    name: operation,
+    option: 'Morphology',
+    params: { morphOperation },
+  })),
+  ...BORDER_MODES.map((mode, borderMode): GoldenCase => ({ name: mode, option: 'Custom Kernel', params: { borderMode } })),
+  ...FREQUENCY_BANDS.flatMap((band, frequencyBand) =>
+    FREQUENCY_FILTERS.map((filter, frequencyFilter): GoldenCase => ({
+      name: `${filter} ${band}`,
+      option: 'Frequency Filter',
+      params: { frequencyBand, frequencyFilter },
+    }))
+  ),
+  // Angles within float rounding of 0 can land on either side of the 0-2π wrap.
+  { name: 'phase', option: 'Fourier Transform', params: { fourierView: 1 }, outliers: 0.001 },
+  {
+    name: 'notches',
+    option: 'Notch Filter',
+    params: { notches: [{ radius: 2, points: [[6, 4], [10, 4]] }] },
+  },
+  { name: 'HSV', option: 'Color Boosting', params: { boostSpace: 1 } },
+  { name: 'red-green swap', option: 'Channel Mixing Simulation', params: { mixFactors: SWAP_RED_GREEN } },
+  {
+    name: 'negative factors',
+    option: 'Channel Mixing Simulation',
+    params: { mixFactors: [[1.5, -0.5, 0], [-0.25, 1, 0.75], [0.2, 0.3, -0.6]] },
+  },
+  { name: 'energy', option: 'Gabor Bank', params: { gaborCombine: 1 } },
+  { name: 'dominant orientation', option: 'Gabor Bank', params: { gaborOutput: 1 } },
+  {
+    name: 'feathered ellipse mask',
+    option: 'Color Inversion',
+    mask: { shape: { type: 'ellipse', cx: 0.5, cy: 0.5, rx: 0.3, ry: 0.25 }, feather: 0.05 },
+  },
+  {
+    name: 'threshold mask over a float step',
+    option: 'Multi-Scale Retinex',
+    mask: { shape: { type: 'threshold', threshold: 128 }, invert: true, feather: 0 },
+  },
+];
+
+const step = ({ option, params, mask }: GoldenCase): ProcessingStep => ({
+  id: 'golden',
+  option,
+  params: { ...DEFAULT_PARAMS, ...params },
+  ...(mask ? { mask } : {}),
+});
+
+describe('reference backend against OpenCV.js', () => {
+  let cv: any;
+  let opencvBackend: ProcessingBackend;
+  const image = testImage();
+
+  beforeAll(async () => {
+    ({ cv } = await loadNodeOpenCv());
+    opencvBackend = createOpenCvBackend(cv);
+  });
+
+  it.each(CASES.map((golden) => [`${golden.option} (${golden.name})`, golden] as const))('%s', (_, golden) => {
+    const { tolerance = 2, outliers = 0 } = golden;
+    const expected = opencvBackend.applyStep(image, step(golden));
+    const actual = referenceBackend.applyStep(image, step(golden));
+    expect(translucentPixels(expected)).toBe(0);
+    expect(translucentPixels(actual)).toBe(0);
+    if ((OPTIONAL_CV_FUNCTIONS[golden.option] ?? []).some((name) => typeof cv[name] !== 'function')) {
+      // The OpenCV backend falls back to the reference here, so this only checks
+      // the fallback is wired up; reference/colormap.test.ts checks the values.
+      expect(compareImages(actual, expected, 0).max).toBe(0);
+      return;
+    }
+    expect(compareImages(actual, expected, tolerance).outliers).toBeLessThanOrEqual(outliers);
+  });
+
+  it('swaps channels with a permutation matrix in both backends', () => {
+    const swapped = { ...image, data: image.data.slice() };
+    for (let i = 0; i < swapped.data.length; i += 4) {
+      [swapped.data[i], swapped.data[i + 1]] = [image.data[i + 1], image.data[i]];
+    }
+    const mix = step({ name: 'swap', option: 'Channel Mixing Simulation', params: { mixFactors: SWAP_RED_GREEN } });
+    expect(compareImages(opencvBackend.applyStep(image, mix), swapped, 0).max).toBe(0);
+    expect(compareImages(referenceBackend.applyStep(image, mix), swapped, 0).max).toBe(0);
+  });
+});
+
+describe('convertMat', () => {
+  let cv: any;
+
+  beforeAll(async () => {
+    ({ cv } = await loadNodeOpenCv());
+  });
+
+  it('adds an opaque alpha channel when narrowing float colour to RGBA 8U', () => {
+    const src = cv.matFromArray(1, 1, cv.CV_32FC3, [10, 20, 30]);
+    const dst = convertMat(cv, src, RGB_32F, RGBA_8U);
+    expect([...dst.data]).toEqual([10, 20, 30, 255]);
+    src.delete();
+    dst.delete();
+  });
+
+  it('adds an alpha channel of 255 to float RGBA', () => {
+    const src = cv.matFromArray(1, 1, cv.CV_32FC1, [12.5]);
+    const dst = convertMat(cv, src, GRAY_32F, RGBA_32F);
+    expect([...dst.data32F]).toEqual([12.5, 12.5, 12.5, 255]);
+    src.delete();
+    dst.delete();
+  });
+});
@@ -0,0 +1,35 @@
+import { BuiltInOption } from '../types';
+import { applyImageToMat, applyProcessingStep } from './applyProcessingStep';
+import { builtInFormat } from './formats';
+import { PARAM_SCHEMA } from './paramSchema';
+import { applyReferenceStep } from './reference';
+import { Operation, registerOperation } from './registry';
+
+/**
+ * OpenCV functions a built-in calls that OpenCV.js builds may leave out; the
+ * bundled 4.5.5 build has no `applyColorMap`. Without them the built-in runs
+ * its reference implementation on the Mat instead.
+ */
+export const OPTIONAL_CV_FUNCTIONS: Partial<Record<BuiltInOption, string[]>> = {
+  'Pseudocolor Mapping': ['applyColorMap'],
+};
+
+const hasCvFunctions = (cv: any, option: BuiltInOption) =>
+  (OPTIONAL_CV_FUNCTIONS[option] ?? []).every((name) => typeof cv[name] === 'function');
+
+// PARAM_SCHEMA lists every built-in, in the order the editor shows them.
+for (const option of Object.keys(PARAM_SCHEMA) as BuiltInOption[]) {
+  const applyImage: NonNullable<Operation['applyImage']> = (image, params, report) =>
+    applyReferenceStep(image, option, params, report);
+  registerOperation({
+    id: option,
+    label: option,
+    params: PARAM_SCHEMA[option],
+    format: (params) => builtInFormat(option, params),
+    applyMat: (cv, src, params, report) =>
+      hasCvFunctions(cv, option)
+        ? applyProcessingStep(cv, src, option, params, report)
+        : applyImageToMat(cv, src, builtInFormat(option, params), applyImage, params, report),
+    applyImage,
+  });
+}
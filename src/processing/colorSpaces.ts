@@ -0,0 +1,91 @@
+import { ProcessingParams } from '../types';
+
+export const EQUALIZE_SPACES = ['Grayscale', 'Lab lightness', 'HSV value', 'YCrCb luma'] as const;
+export const BOOST_SPACES = ['RGB', 'HSV'] as const;
+
+export type EqualizeSpace = Exclude<(typeof EQUALIZE_SPACES)[number], 'Grayscale'>;
+export type ColorModel = 'Lab' | 'HSV' | 'YCrCb';
+
+/** The colour model each equalization space converts to, and which of its channels carries the brightness. */
+export const LIGHTNESS_CHANNELS: Record<EqualizeSpace, { model: ColorModel; channel: number }> = {
+  'Lab lightness': { model: 'Lab', channel: 0 },
+  'HSV value': { model: 'HSV', channel: 2 },
+  'YCrCb luma': { model: 'YCrCb', channel: 0 },
+};
+
+/** The colour space `params` equalizes the brightness of, or null to equalize a grayscale image. */
+export const equalizeSpace = (params: ProcessingParams): EqualizeSpace | null => {
+  const space = EQUALIZE_SPACES[params.equalizeSpace];
+  return space === 'Grayscale' ? null : space;
+};
+
+/** Hue of 8-bit HSV images runs over 0-179, two degrees per step. */
+const HUE_RANGE = 180;
+
+const clampByte = (value: number) => Math.min(Math.max(Math.round(value), 0), 255);
+
+/**
+ * Applies the HSV boost to interleaved 8-bit HSV pixels in place: rotates
+ * the hue by `hueShift` degrees and scales saturation and value.
+ */
+export const boostHsv = (hsv: Uint8Array | Uint8ClampedArray, params: ProcessingParams) => {
+  const shift = Math.round(params.hueShift / 2);
+  for (let i = 0; i < hsv.length; i += 3) {
+    hsv[i] = (((hsv[i] + shift) % HUE_RANGE) + HUE_RANGE) % HUE_RANGE;
+    hsv[i + 1] = clampByte(hsv[i + 1] * params.saturationScale);
+    hsv[i + 2] = clampByte(hsv[i + 2] * params.valueScale);
+  }
+};
+
+/**
+ * Runs `apply` (e.g. equalizeHist) on the brightness channel of an RGB 8U
+ * Mat in `space`, leaving the colour channels as they were, and returns the
+ * result converted back to RGB 8U.
+ */
+export const applyToLightness = (
+  cv: any,
+  src: any,
+  space: EqualizeSpace,
+  apply: (channel: any, dst: any) => void
+): any => {
+  const { model, channel } = LIGHTNESS_CHANNELS[space];
+  const converted = new cv.Mat();
+  const channels = new cv.MatVector();
+  const adjusted = new cv.Mat();
+  const dst = new cv.Mat();
+  try {
+    cv.cvtColor(src, converted, cv[`COLOR_RGB2${model}`]);
+    cv.split(converted, channels);
+    const lightness = channels.get(channel);
+    apply(lightness, adjusted);
+    lightness.delete();
+    channels.set(channel, adjusted);
+    cv.merge(channels, converted);
+    cv.cvtColor(converted, dst, cv[`COLOR_${model}2RGB`]);
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw error;
+  } finally {
+    converted.delete();
+    channels.delete();
+    adjusted.delete();
+  }
+};
+
+/** Boosts an RGB 8U Mat in HSV (see boostHsv) and returns RGB 8U. */
+export const boostInHsv = (cv: any, src: any, params: ProcessingParams): any => {
+  const hsv = new cv.Mat();
+  const dst = new cv.Mat();
+  try {
+    cv.cvtColor(src, hsv, cv.COLOR_RGB2HSV);
+    boostHsv(hsv.data, params);
+    cv.cvtColor(hsv, dst, cv.COLOR_HSV2RGB);
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw error;
+  } finally {
+    hsv.delete();
+  }
+};
@@ -0,0 +1,43 @@
+import { ColorSpace, ImageFormat } from './formats';
+
+const COLOR_CONVERSIONS: Record<ColorSpace, Partial<Record<ColorSpace, string>>> = {
+  GRAY: { RGB: 'COLOR_GRAY2RGB', BGR: 'COLOR_GRAY2BGR', RGBA: 'COLOR_GRAY2RGBA' },
+  RGB: { GRAY: 'COLOR_RGB2GRAY', BGR: 'COLOR_RGB2BGR', RGBA: 'COLOR_RGB2RGBA' },
+  BGR: { GRAY: 'COLOR_BGR2GRAY', RGB: 'COLOR_BGR2RGB', RGBA: 'COLOR_BGR2RGBA' },
+  RGBA: { GRAY: 'COLOR_RGBA2GRAY', RGB: 'COLOR_RGBA2RGB', BGR: 'COLOR_RGBA2BGR' },
+};
+
+const convertColor = (cv: any, src: any, dst: any, from: ColorSpace, to: ColorSpace) => {
+  if (from !== to) {
+    cv.cvtColor(src, dst, cv[COLOR_CONVERSIONS[from][to]!]);
+  } else {
+    src.copyTo(dst);
+  }
+};
+
+/**
+ * Returns a new Mat holding `src` converted from format `from` to `to`. Depth
+ * changes keep the 0-255 value range, so float intermediates can be fed back
+ * to 8-bit steps with saturation rather than rescaling. An alpha channel the
+ * conversion adds is opaque (255) at either depth.
+ */
+export const convertMat = (cv: any, src: any, from: ImageFormat, to: ImageFormat): any => {
+  const dst = new cv.Mat();
+  // cvtColor fills an added alpha channel with the depth's maximum, which is
+  // 1.0 for floats, so float sources are narrowed to 8-bit before it runs.
+  if (from.depth === '32F' && to.depth === '8U') {
+    src.convertTo(dst, cv.CV_8U);
+    convertColor(cv, dst, dst, from.colorSpace, to.colorSpace);
+    return dst;
+  }
+  convertColor(cv, src, dst, from.colorSpace, to.colorSpace);
+  if (from.depth !== to.depth) {
+    dst.convertTo(dst, cv.CV_32F);
+  } else if (to.depth === '32F' && to.channels === 4 && from.channels !== 4) {
+    const samples: Float32Array = dst.data32F;
+    for (let i = 3; i < samples.length; i += 4) {
+      samples[i] = 255;
+    }
+  }
+  return dst;
+};
@@ -0,0 +1,103 @@
+import { BuiltInOption, ProcessingStep } from '../types';
+import { equalizeSpace } from './colorSpaces';
+import { getOperation, hasOperation, operationLabel } from './registry';
+
+export type ColorSpace = 'GRAY' | 'RGB' | 'BGR' | 'RGBA';
+export type Depth = '8U' | '32F';
+
+export interface ImageFormat {
+  channels: 1 | 3 | 4;
+  depth: Depth;
+  colorSpace: ColorSpace;
+}
+
+export interface StepFormat {
+  accepts: ImageFormat;
+  produces: ImageFormat;
+  /** The step works on colour information and is meaningless on a grayscale input. */
+  requiresColor?: boolean;
+}
+
+export interface PipelineIssue {
+  stepIndex: number;
+  message: string;
+}
+
+export const GRAY_8U: ImageFormat = { channels: 1, depth: '8U', colorSpace: 'GRAY' };
+export const RGB_8U: ImageFormat = { channels: 3, depth: '8U', colorSpace: 'RGB' };
+export const BGR_8U: ImageFormat = { channels: 3, depth: '8U', colorSpace: 'BGR' };
+export const RGBA_8U: ImageFormat = { channels: 4, depth: '8U', colorSpace: 'RGBA' };
+export const GRAY_32F: ImageFormat = { channels: 1, depth: '32F', colorSpace: 'GRAY' };
+export const RGB_32F: ImageFormat = { channels: 3, depth: '32F', colorSpace: 'RGB' };
+export const RGBA_32F: ImageFormat = { channels: 4, depth: '32F', colorSpace: 'RGBA' };
+
+/** Format of the decoded source image and of everything handed back for display. */
+export const SOURCE_FORMAT = RGBA_8U;
+
+export const STEP_FORMATS: Record<BuiltInOption, StepFormat> = {
+  'Histogram Equalization': { accepts: GRAY_8U, produces: GRAY_8U },
+  'Adaptive Histogram Equalization': { accepts: GRAY_8U, produces: GRAY_8U },
+  'Edge Detection': { accepts: GRAY_8U, produces: GRAY_8U },
+  'Unsharp Masking': { accepts: RGBA_8U, produces: RGBA_8U },
+  'High-Pass Filtering': { accepts: RGB_8U, produces: RGB_8U },
+  'Laplacian Filtering': { accepts: GRAY_8U, produces: GRAY_8U },
+  'Custom Kernel': { accepts: RGB_32F, produces: RGB_32F },
+  'Color Inversion': { accepts: RGB_8U, produces: RGB_8U },
+  'Thresholding': { accepts: GRAY_8U, produces: GRAY_8U },
+  'Morphology': { accepts: RGB_8U, produces: RGB_8U },
+  'Pseudocolor Mapping': { accepts: GRAY_8U, produces: BGR_8U },
+  'Fourier Transform': { accepts: GRAY_8U, produces: GRAY_32F },
+  'Frequency Filter': { accepts: RGB_32F, produces: RGB_32F },
+  'Notch Filter': { accepts: RGB_32F, produces: RGB_32F },
+  'Color Boosting': { accepts: RGB_8U, produces: RGB_8U, requiresColor: true },
+  'Channel Mixing Simulation': { accepts: RGB_8U, produces: RGB_8U, requiresColor: true },
+  'Manual Colorization': { accepts: GRAY_8U, produces: RGB_8U },
+  'Multi-Scale Retinex': { accepts: RGB_32F, produces: RGB_32F },
+  'Gabor Filter': { accepts: GRAY_8U, produces: GRAY_8U },
+  'Gabor Bank': { accepts: GRAY_32F, produces: RGB_32F },
+};
+
+/** Equalizing the brightness channel of a colour space keeps the colour. */
+const COLOR_EQUALIZATION: StepFormat = { accepts: RGB_8U, produces: RGB_8U };
+
+/** Format of a built-in step; unlike STEP_FORMATS it accounts for params that change what a step works on. */
+export const builtInFormat = (option: BuiltInOption, params: ProcessingStep['params']): StepFormat =>
+  (option === 'Histogram Equalization' || option === 'Adaptive Histogram Equalization') && equalizeSpace(params)
+    ? COLOR_EQUALIZATION
+    : STEP_FORMATS[option];
+
+/** Format of operations that do not declare one, such as plugins working on ImageData. */
+const PIXEL_FORMAT: StepFormat = { accepts: RGBA_8U, produces: RGBA_8U };
+
+export const stepFormat = ({ option, params }: Pick<ProcessingStep, 'option' | 'params'>): StepFormat => {
+  const { format = PIXEL_FORMAT } = getOperation(option);
+  return typeof format === 'function' ? format(params) : format;
+};
+
+export const describeFormat = (format: ImageFormat): string => `${format.colorSpace} ${format.depth}`;
+
+/** Format of the image after `steps[0..count)` have run. */
+export const formatAfter = (steps: ProcessingStep[], count = steps.length): ImageFormat =>
+  count > 0 ? stepFormat(steps[count - 1]).produces : SOURCE_FORMAT;
+
+export const validatePipeline = (steps: ProcessingStep[]): PipelineIssue[] => {
+  const issues: PipelineIssue[] = [];
+  for (const [stepIndex, step] of steps.entries()) {
+    // Formats after an unknown step are unknown too, so checking stops there.
+    if (!hasOperation(step.option)) {
+      issues.push({ stepIndex, message: `Step ${stepIndex + 1}: unknown processing option "${step.option}".` });
+      break;
+    }
+    const format = stepFormat(step);
+    const input = formatAfter(steps, stepIndex);
+    if (format.requiresColor && input.colorSpace === 'GRAY') {
+      issues.push({
+        stepIndex,
+        message: `Step ${stepIndex + 1} (${operationLabel(step.option)}) needs a colour image, but step ${stepIndex} (${
+          operationLabel(steps[stepIndex - 1].option)
+        }) outputs ${describeFormat(input)}.`,
+      });
+    }
+  }
+  return issues;
+};
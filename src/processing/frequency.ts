@@ -0,0 +1,299 @@
+import { NotchStroke, ProcessingParams } from '../types';
+import { distanceToSegment } from './mask';
+
+export const FOURIER_VIEWS = ['Log magnitude', 'Phase'] as const;
+export const FREQUENCY_BANDS = ['Low-pass', 'High-pass', 'Band-pass'] as const;
+export const FREQUENCY_FILTERS = ['Ideal', 'Butterworth', 'Gaussian'] as const;
+
+/** Bounds for notch strokes read from files; a 32768-pixel side has its Nyquist limit at 16384 cycles. */
+export const MAX_NOTCH_FREQUENCY = 16384;
+export const MAX_NOTCH_RADIUS = 256;
+
+type FilterKind = (typeof FREQUENCY_FILTERS)[number];
+
+/**
+ * Signed frequency of bin `index` in a DFT of `size` samples, in cycles per
+ * `size` samples. Shifting the spectrum moves bin 0 (DC) to `floor(size / 2)`.
+ */
+const signedBin = (index: number, size: number) => ((index + Math.floor(size / 2)) % size) - Math.floor(size / 2);
+
+const binIndex = (frequency: number, size: number) => ((frequency % size) + size) % size;
+
+/** Gain of a low-pass filter at distance `d` from DC with cutoff `d0`; a notch rejects with the same profile. */
+const lowPass = (kind: FilterKind, order: number, d: number, d0: number) => {
+  switch (kind) {
+    case 'Ideal':
+      return d <= d0 ? 1 : 0;
+    case 'Butterworth':
+      return 1 / (1 + (d / d0) ** (2 * order));
+    case 'Gaussian':
+      return Math.exp(-(d * d) / (2 * d0 * d0));
+  }
+};
+
+const bandPass = (kind: FilterKind, order: number, d: number, centre: number, width: number) => {
+  switch (kind) {
+    case 'Ideal':
+      return Math.abs(d - centre) <= width / 2 ? 1 : 0;
+    case 'Butterworth':
+      return 1 - 1 / (1 + ((d * width) / (d * d - centre * centre)) ** (2 * order));
+    case 'Gaussian':
+      return Math.exp(-(((d * d - centre * centre) / (d * width)) ** 2));
+  }
+};
+
+/** Distance from a notch centre, in multiples of its radius, beyond which it rejects under 1%. */
+const notchReach = (kind: FilterKind, order: number) => {
+  switch (kind) {
+    case 'Ideal':
+      return 1;
+    case 'Butterworth':
+      return 99 ** (1 / (2 * order));
+    case 'Gaussian':
+      return Math.sqrt(2 * Math.log(100));
+  }
+};
+
+const bandResponse = (params: ProcessingParams, width: number, height: number, unit: number) => {
+  const kind = FREQUENCY_FILTERS[params.frequencyFilter];
+  const band = FREQUENCY_BANDS[params.frequencyBand];
+  const response = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = (signedBin(y, height) / height) * unit;
+    for (let x = 0; x < width; x++) {
+      const d = Math.hypot((signedBin(x, width) / width) * unit, fy);
+      const low = lowPass(kind, params.filterOrder, d, params.cutoff);
+      response[y * width + x] =
+        band === 'Low-pass'
+          ? low
+          : band === 'High-pass'
+          ? 1 - low
+          : bandPass(kind, params.filterOrder, d, params.cutoff, params.bandWidth);
+    }
+  }
+  // Keeping DC leaves high- and band-pass results at the input's mean brightness instead of around zero.
+  if (band !== 'Low-pass') {
+    response[0] = 1;
+  }
+  return response;
+};
+
+const notchResponse = (
+  params: ProcessingParams,
+  width: number,
+  height: number,
+  imageWidth: number,
+  imageHeight: number,
+  unit: number
+) => {
+  const kind = FREQUENCY_FILTERS[params.frequencyFilter];
+  const response = new Float32Array(width * height).fill(1);
+  const reject = (stroke: NotchStroke, mirror: number) => {
+    const reach = stroke.radius * notchReach(kind, params.filterOrder);
+    const points = stroke.points.map(([u, v]) => [(mirror * u * unit) / imageWidth, (mirror * v * unit) / imageHeight]);
+    points.forEach(([bx, by], i) => {
+      const [ax, ay] = points[Math.max(i - 1, 0)];
+      const x0 = Math.max(Math.ceil(((Math.min(ax, bx) - reach) * width) / unit), -Math.floor(width / 2));
+      const x1 = Math.min(Math.floor(((Math.max(ax, bx) + reach) * width) / unit), width - 1 - Math.floor(width / 2));
+      const y0 = Math.max(Math.ceil(((Math.min(ay, by) - reach) * height) / unit), -Math.floor(height / 2));
+      const y1 = Math.min(Math.floor(((Math.max(ay, by) + reach) * height) / unit), height - 1 - Math.floor(height / 2));
+      for (let fy = y0; fy <= y1; fy++) {
+        const row = binIndex(fy, height) * width;
+        for (let fx = x0; fx <= x1; fx++) {
+          const d = distanceToSegment((fx / width) * unit, (fy / height) * unit, ax, ay, bx, by);
+          const i = row + binIndex(fx, width);
+          response[i] = Math.min(response[i], 1 - lowPass(kind, params.filterOrder, d, stroke.radius));
+        }
+      }
+    });
+  };
+  // A real image's spectrum is point-symmetric about DC, so each notch is mirrored onto its conjugate.
+  for (const stroke of params.notches) {
+    reject(stroke, 1);
+    reject(stroke, -1);
+  }
+  return response;
+};
+
+/**
+ * Gain of the frequency-domain step `option` at every bin of a `width` x
+ * `height` DFT (unshifted, DC at index 0) of an `imageWidth` x `imageHeight`
+ * image padded to that size. Distances are measured in cycles across the
+ * image's shorter side, so cutoffs mean the same thing at any resolution.
+ */
+export const frequencyResponse = (
+  option: 'Frequency Filter' | 'Notch Filter',
+  params: ProcessingParams,
+  width: number,
+  height: number,
+  imageWidth: number,
+  imageHeight: number
+): Float32Array => {
+  const unit = Math.min(imageWidth, imageHeight);
+  return option === 'Frequency Filter'
+    ? bandResponse(params, width, height, unit)
+    : notchResponse(params, width, height, imageWidth, imageHeight, unit);
+};
+
+/** Returns `src` padded by reflection to the next fast DFT size, as CV_32F. */
+const padForDft = (cv: any, src: any): any => {
+  const padded = new cv.Mat();
+  const bottom = cv.getOptimalDFTSize(src.rows) - src.rows;
+  const right = cv.getOptimalDFTSize(src.cols) - src.cols;
+  cv.copyMakeBorder(src, padded, 0, bottom, 0, right, cv.BORDER_REFLECT_101);
+  padded.convertTo(padded, cv.CV_32F);
+  return padded;
+};
+
+/** Forward DFT of a single-channel float Mat as a two-channel (real, imaginary) Mat. */
+const forwardDft = (cv: any, padded: any): any => {
+  const zeros = cv.Mat.zeros(padded.rows, padded.cols, cv.CV_32F);
+  const planes = new cv.MatVector();
+  const complex = new cv.Mat();
+  planes.push_back(padded);
+  planes.push_back(zeros);
+  cv.merge(planes, complex);
+  cv.dft(complex, complex);
+  planes.delete();
+  zeros.delete();
+  return complex;
+};
+
+/** Returns a copy of `src` with its quadrants swapped so DC sits at the centre. */
+const shiftQuadrants = (cv: any, src: any): any => {
+  const shifted = new cv.Mat(src.rows, src.cols, src.type());
+  const cx = Math.floor(src.cols / 2);
+  const cy = Math.floor(src.rows / 2);
+  // [source start, length, destination start] of the two halves along each axis.
+  const columns = [[0, src.cols - cx, cx], [src.cols - cx, cx, 0]];
+  const rows = [[0, src.rows - cy, cy], [src.rows - cy, cy, 0]];
+  for (const [sx, width, dx] of columns) {
+    for (const [sy, height, dy] of rows) {
+      if (width > 0 && height > 0) {
+        const from = src.roi(new cv.Rect(sx, sy, width, height));
+        const to = shifted.roi(new cv.Rect(dx, dy, width, height));
+        from.copyTo(to);
+        from.delete();
+        to.delete();
+      }
+    }
+  }
+  return shifted;
+};
+
+/**
+ * Centred spectrum of a GRAY 8U Mat, resampled to the input's size so the
+ * chain keeps its geometry: log(1 + magnitude) stretched to 0-255, or the
+ * phase with 0-2π mapped to 0-255. Returns GRAY 32F.
+ */
+export const fourierView = (cv: any, src: any, view: number): any => {
+  const padded = padForDft(cv, src);
+  const complex = forwardDft(cv, padded);
+  const planes = new cv.MatVector();
+  const values = new cv.Mat();
+  const resized = new cv.Mat();
+  const dst = new cv.Mat();
+  let shifted: any = null;
+  try {
+    cv.split(complex, planes);
+    const re = planes.get(0);
+    const im = planes.get(1);
+    if (FOURIER_VIEWS[view] === 'Phase') {
+      // This OpenCV.js build has no cv.phase; like it, the angle is kept in 0-2π.
+      re.copyTo(values);
+      const angles: Float32Array = values.data32F;
+      const imaginary: Float32Array = im.data32F;
+      for (let i = 0; i < angles.length; i++) {
+        const angle = Math.atan2(imaginary[i], angles[i]);
+        angles[i] = angle < 0 ? angle + 2 * Math.PI : angle;
+      }
+    } else {
+      cv.magnitude(re, im, values);
+      values.convertTo(values, -1, 1, 1);
+      cv.log(values, values);
+    }
+    re.delete();
+    im.delete();
+    shifted = shiftQuadrants(cv, values);
+    cv.resize(shifted, resized, new cv.Size(src.cols, src.rows), 0, 0, cv.INTER_LINEAR);
+    if (FOURIER_VIEWS[view] === 'Phase') {
+      resized.convertTo(dst, -1, 255 / (2 * Math.PI), 0);
+    } else {
+      cv.normalize(resized, dst, 0, 255, cv.NORM_MINMAX);
+    }
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw error;
+  } finally {
+    padded.delete();
+    complex.delete();
+    planes.delete();
+    values.delete();
+    resized.delete();
+    shifted?.delete();
+  }
+};
+
+/** Filters one float channel: forward DFT, multiply by the two-channel `gain`, inverse DFT, crop. */
+const filterPlane = (cv: any, plane: any, gain: any): any => {
+  const padded = padForDft(cv, plane);
+  const complex = forwardDft(cv, padded);
+  const planes = new cv.MatVector();
+  try {
+    cv.multiply(complex, gain, complex);
+    cv.dft(complex, complex, cv.DFT_INVERSE | cv.DFT_SCALE);
+    cv.split(complex, planes);
+    const re = planes.get(0);
+    const cropped = re.roi(new cv.Rect(0, 0, plane.cols, plane.rows));
+    const result = cropped.clone();
+    re.delete();
+    cropped.delete();
+    return result;
+  } finally {
+    padded.delete();
+    complex.delete();
+    planes.delete();
+  }
+};
+
+/**
+ * Applies a frequency-domain filter to every channel of a float Mat and
+ * returns the filtered spatial image. `response` gives the gain for a DFT
+ * grid of the size the channels are padded to (see frequencyResponse).
+ */
+export const filterFrequencies = (cv: any, src: any, response: (width: number, height: number) => Float32Array): any => {
+  const width = cv.getOptimalDFTSize(src.cols);
+  const height = cv.getOptimalDFTSize(src.rows);
+  const plane = new cv.Mat(height, width, cv.CV_32F);
+  const pair = new cv.MatVector();
+  const gain = new cv.Mat();
+  const channels = new cv.MatVector();
+  const filtered = new cv.MatVector();
+  const dst = new cv.Mat();
+  try {
+    plane.data32F.set(response(width, height));
+    pair.push_back(plane);
+    pair.push_back(plane);
+    cv.merge(pair, gain);
+    cv.split(src, channels);
+    for (let c = 0; c < channels.size(); c++) {
+      const channel = channels.get(c);
+      const result = filterPlane(cv, channel, gain);
+      filtered.push_back(result);
+      channel.delete();
+      result.delete();
+    }
+    cv.merge(filtered, dst);
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw error;
+  } finally {
+    plane.delete();
+    pair.delete();
+    gain.delete();
+    channels.delete();
+    filtered.delete();
+  }
+};
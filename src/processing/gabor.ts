@@ -0,0 +1,156 @@
+import { ProcessingParams } from '../types';
+import { getGaborKernel } from './reference/filters';
+
+export const GABOR_COMBINATIONS = ['Maximum', 'Energy'] as const;
+export const GABOR_OUTPUTS = ['Response', 'Dominant orientation'] as const;
+
+/** Bank kernels reach three standard deviations along their long axis, up to this size. */
+export const MAX_GABOR_KERNEL_SIZE = 255;
+
+export interface GaborKernelSpec {
+  size: number;
+  sigma: number;
+  theta: number;
+  lambda: number;
+}
+
+/** Gaussian sigma giving a filter of `bandwidth` octaves at wavelength `lambda`. */
+export const gaborSigma = (lambda: number, bandwidth: number): number =>
+  (lambda / Math.PI) * Math.sqrt(Math.log(2) / 2) * ((2 ** bandwidth + 1) / (2 ** bandwidth - 1));
+
+/** The bank's kernels, indexed by orientation then wavelength; orientations split 0-π evenly. */
+export const gaborBank = (params: ProcessingParams): GaborKernelSpec[][] =>
+  Array.from({ length: params.gaborOrientations }, (_, o) =>
+    params.gaborWavelengths.map((lambda) => {
+      const sigma = gaborSigma(lambda, params.gaborBandwidth);
+      // The envelope's sigma along the kernel's long axis is sigma / gamma.
+      const half = Math.min(Math.ceil((3 * sigma) / params.gaborGamma), (MAX_GABOR_KERNEL_SIZE - 1) / 2);
+      return { size: 2 * half + 1, sigma, theta: (Math.PI * o) / params.gaborOrientations, lambda };
+    })
+  );
+
+/** Phase offsets each bank kernel is applied with: a quadrature pair for energy, the chosen psi for maximum. */
+export const gaborPhases = (params: ProcessingParams): number[] =>
+  GABOR_COMBINATIONS[params.gaborCombine] === 'Energy' ? [0, Math.PI / 2] : [params.gaborPsi];
+
+/**
+ * How strongly one orientation responds given its filter outputs (one per
+ * wavelength and phase): the largest output for maximum, the summed squares
+ * for energy.
+ */
+export const orientationStrength = (params: ProcessingParams, responses: Float32Array[]): Float32Array => {
+  const energy = GABOR_COMBINATIONS[params.gaborCombine] === 'Energy';
+  const strength = new Float32Array(responses[0].length).fill(energy ? 0 : -Infinity);
+  for (const response of responses) {
+    for (let p = 0; p < strength.length; p++) {
+      strength[p] = energy ? strength[p] + response[p] * response[p] : Math.max(strength[p], response[p]);
+    }
+  }
+  return strength;
+};
+
+const hsvToRgb = (hue: number, value: number): [number, number, number] => {
+  const sector = hue * 6;
+  const f = sector - Math.floor(sector);
+  const rising = value * f;
+  const falling = value * (1 - f);
+  switch (Math.floor(sector) % 6) {
+    case 0:
+      return [value, rising, 0];
+    case 1:
+      return [falling, value, 0];
+    case 2:
+      return [0, value, rising];
+    case 3:
+      return [0, falling, value];
+    case 4:
+      return [rising, 0, value];
+    default:
+      return [value, 0, falling];
+  }
+};
+
+/**
+ * Combines per-orientation strengths into the step's interleaved RGB output
+ * in 0-255: the bank response (maximum, or square root of the total energy)
+ * stretched to the full range, or, for the orientation map, the hue of the
+ * strongest orientation at that brightness.
+ */
+export const combineGaborBank = (params: ProcessingParams, strengths: Float32Array[]): Float32Array => {
+  const energy = GABOR_COMBINATIONS[params.gaborCombine] === 'Energy';
+  const orientationMap = GABOR_OUTPUTS[params.gaborOutput] === 'Dominant orientation';
+  const count = strengths[0].length;
+  const combined = new Float32Array(count);
+  const dominant = new Uint8Array(count);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let p = 0; p < count; p++) {
+    let best = -Infinity;
+    let total = 0;
+    strengths.forEach((strength, o) => {
+      total += strength[p];
+      if (strength[p] > best) {
+        best = strength[p];
+        dominant[p] = o;
+      }
+    });
+    combined[p] = energy ? Math.sqrt(total) : best;
+    min = Math.min(min, combined[p]);
+    max = Math.max(max, combined[p]);
+  }
+
+  const scale = max > min ? 1 / (max - min) : 0;
+  const rgb = new Float32Array(count * 3);
+  for (let p = 0; p < count; p++) {
+    const value = (combined[p] - min) * scale;
+    // Orientation is periodic over π, which the hue circle maps without a seam.
+    const color = orientationMap ? hsvToRgb(dominant[p] / strengths.length, value) : [value, value, value];
+    rgb.set(color.map((c) => c * 255), p * 3);
+  }
+  return rgb;
+};
+
+/**
+ * The kernel `cv.getGaborKernel` would return, as a CV_32F Mat. The bundled
+ * OpenCV.js build leaves that function out, so the kernel comes from the
+ * TypeScript port the reference backend and the kernel viewer use.
+ */
+export const gaborKernelMat = (
+  cv: any,
+  size: number,
+  sigma: number,
+  theta: number,
+  lambda: number,
+  gamma: number,
+  psi: number
+): any => {
+  const kernel = getGaborKernel(size, sigma, theta, lambda, gamma, psi);
+  const mat = new cv.Mat(kernel.height, kernel.width, cv.CV_32F);
+  mat.data32F.set(kernel.data);
+  return mat;
+};
+
+/**
+ * Filters a GRAY 32F Mat with the whole bank and returns RGB 32F, as
+ * described by combineGaborBank.
+ */
+export const applyGaborBank = (cv: any, src: any, params: ProcessingParams): any => {
+  const phases = gaborPhases(params);
+  const response = new cv.Mat();
+  const strengths = gaborBank(params).map((kernels) => {
+    const responses: Float32Array[] = [];
+    for (const { size, sigma, theta, lambda } of kernels) {
+      for (const psi of phases) {
+        const kernel = gaborKernelMat(cv, size, sigma, theta, lambda, params.gaborGamma, psi);
+        cv.filter2D(src, response, cv.CV_32F, kernel, new cv.Point(-1, -1), 0, cv.BORDER_DEFAULT);
+        kernel.delete();
+        responses.push(response.data32F.slice());
+      }
+    }
+    return orientationStrength(params, responses);
+  });
+  response.delete();
+  const dst = new cv.Mat(src.rows, src.cols, cv.CV_32FC3);
+  dst.data32F.set(combineGaborBank(params, strengths));
+  return dst;
+};
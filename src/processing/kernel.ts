@@ -0,0 +1,50 @@
+import { ProcessingParams } from '../types';
+
+export const KERNEL_NORMALIZATIONS = ['None', 'Divide by sum', 'Divide by absolute sum'] as const;
+export const BORDER_MODES = ['Reflect 101', 'Reflect', 'Replicate', 'Constant (zero)'] as const;
+
+/** Side lengths a custom kernel can be resized between; odd so the kernel has a centre. */
+export const MIN_KERNEL_SIZE = 1;
+export const MAX_KERNEL_SIZE = 15;
+
+const CV_BORDERS: Record<(typeof BORDER_MODES)[number], string> = {
+  'Reflect 101': 'BORDER_REFLECT_101',
+  Reflect: 'BORDER_REFLECT',
+  Replicate: 'BORDER_REPLICATE',
+  'Constant (zero)': 'BORDER_CONSTANT',
+};
+
+/** The custom kernel divided by its (absolute) sum if normalization is on; a kernel summing to zero is left as is. */
+export const normalizedKernel = (params: ProcessingParams): number[][] => {
+  const kernel = params.customKernel;
+  const normalization = KERNEL_NORMALIZATIONS[params.kernelNormalization];
+  const weights = kernel.flat();
+  const sum =
+    normalization === 'Divide by sum'
+      ? weights.reduce((total, w) => total + w, 0)
+      : normalization === 'Divide by absolute sum'
+      ? weights.reduce((total, w) => total + Math.abs(w), 0)
+      : 1;
+  return sum === 0 ? kernel : kernel.map((row) => row.map((w) => w / sum));
+};
+
+/**
+ * Correlates every channel of a float Mat with the custom kernel, anchored
+ * at its centre, and adds `kernelOffset`. Results are left unclamped, so
+ * negative responses survive until a later step saturates them.
+ */
+export const applyCustomKernel = (cv: any, src: any, params: ProcessingParams): any => {
+  const weights = normalizedKernel(params);
+  const kernel = cv.matFromArray(weights.length, weights.length, cv.CV_32F, weights.flat());
+  const dst = new cv.Mat();
+  try {
+    const border = cv[CV_BORDERS[BORDER_MODES[params.borderMode]]];
+    cv.filter2D(src, dst, cv.CV_32F, kernel, new cv.Point(-1, -1), params.kernelOffset, border);
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw error;
+  } finally {
+    kernel.delete();
+  }
+};
@@ -0,0 +1,114 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { StepMask } from '../types';
+import { GRAY_8U } from './formats';
+import { checkMask, compositeMasked, describeMask, distanceToSegment, rasterizeShape } from './mask';
+import { loadNodeOpenCv } from './nodeOpenCv';
+
+const rows = (coverage: Uint8Array, width: number) =>
+  Array.from({ length: coverage.length / width }, (_, y) => [...coverage.subarray(y * width, (y + 1) * width)].join(''));
+
+describe('rasterizeShape', () => {
+  it('covers the pixels whose centres are inside a rectangle', () => {
+    expect(rows(rasterizeShape({ type: 'rect', x: 0.25, y: 0.25, width: 0.5, height: 0.5 }, 4, 4), 4)).toEqual([
+      '0000',
+      '0110',
+      '0110',
+      '0000',
+    ]);
+  });
+
+  it('covers an ellipse', () => {
+    expect(rows(rasterizeShape({ type: 'ellipse', cx: 0.5, cy: 0.5, rx: 0.5, ry: 0.5 }, 5, 5), 5)).toEqual([
+      '01110',
+      '11111',
+      '11111',
+      '11111',
+      '01110',
+    ]);
+  });
+
+  it('covers brush strokes along the segments between their points', () => {
+    const shape = { type: 'brush' as const, strokes: [{ radius: 0.1, points: [[0.1, 0.5], [0.9, 0.5]] as [number, number][] }] };
+    expect(rows(rasterizeShape(shape, 5, 5), 5)).toEqual(['00000', '00000', '11111', '00000', '00000']);
+  });
+});
+
+describe('distanceToSegment', () => {
+  it('measures to the nearest point of the segment, or its ends', () => {
+    expect(distanceToSegment(1, 1, 0, 0, 2, 0)).toBe(1);
+    expect(distanceToSegment(5, 4, 0, 0, 2, 0)).toBe(5);
+    expect(distanceToSegment(3, 4, 0, 0, 0, 0)).toBe(5);
+  });
+});
+
+describe('describeMask', () => {
+  it('names the shape, inversion and threshold', () => {
+    expect(describeMask({ shape: { type: 'threshold', threshold: 90 }, invert: true, feather: 0 })).toBe(
+      'outside threshold > 90'
+    );
+  });
+});
+
+describe('checkMask', () => {
+  it('accepts every kind of valid mask', () => {
+    const masks: StepMask[] = [
+      { shape: { type: 'rect', x: 0, y: 0, width: 1, height: 1 }, feather: 0 },
+      { shape: { type: 'ellipse', cx: 0.5, cy: 0.5, rx: 0.2, ry: 0.3 }, invert: true, feather: 0.2 },
+      { shape: { type: 'brush', strokes: [{ radius: 0.05, points: [[0.1, 0.2]] }] }, feather: 0.01 },
+      { shape: { type: 'threshold', threshold: 200 }, feather: 0 },
+    ];
+    expect(masks.flatMap(checkMask)).toEqual([]);
+  });
+
+  it('describes every problem', () => {
+    expect(checkMask(null)).toEqual(['"mask" must be an object with "shape" and "feather"']);
+    expect(checkMask({ shape: { type: 'rect', x: 0, y: 0, width: 2, height: 1 }, feather: 0.5, invert: 1 })).toEqual([
+      '"mask.shape" needs "x", "y", "width" and "height" between 0 and 1',
+      '"mask.feather" must be a number between 0 and 0.2',
+      '"mask.invert" must be true or false',
+    ]);
+    expect(checkMask({ shape: { type: 'brush', strokes: [{ radius: 0.1, points: [] }] }, feather: 0 })).toHaveLength(1);
+    expect(checkMask({ shape: { type: 'threshold', threshold: 300 }, feather: 0 })).toEqual([
+      '"mask.shape" needs a "threshold" between 0 and 255',
+    ]);
+    expect(checkMask({ shape: { type: 'lasso' }, feather: 0 })).toEqual([
+      '"mask.shape" needs a "type" of rect, ellipse, brush, threshold',
+    ]);
+  });
+});
+
+describe('compositeMasked', () => {
+  let cv: any;
+
+  beforeAll(async () => {
+    ({ cv } = await loadNodeOpenCv());
+  });
+
+  // Four identical rows, so a feather has room to blur; returns the first.
+  const composite = (mask: StepMask) => {
+    const src = cv.matFromArray(4, 4, cv.CV_8UC1, Array(4).fill([0, 50, 100, 150]).flat());
+    const dst = cv.matFromArray(4, 4, cv.CV_8UC1, Array(16).fill(200));
+    const result = compositeMasked(cv, src, GRAY_8U, dst, GRAY_8U, mask);
+    const values = [...result.data.subarray(0, 4)];
+    [src, dst, result].forEach((mat) => mat.delete());
+    return values;
+  };
+
+  it('keeps the step output inside the shape and the input outside it', () => {
+    const shape = { type: 'rect' as const, x: 0, y: 0, width: 0.5, height: 1 };
+    expect(composite({ shape, feather: 0 })).toEqual([200, 200, 100, 150]);
+    expect(composite({ shape, invert: true, feather: 0 })).toEqual([0, 50, 200, 200]);
+  });
+
+  it('selects pixels of the input above a threshold', () => {
+    expect(composite({ shape: { type: 'threshold', threshold: 75 }, feather: 0 })).toEqual([0, 50, 200, 200]);
+  });
+
+  it('blends across a feathered edge', () => {
+    const [a, b, c, d] = composite({ shape: { type: 'rect', x: 0, y: 0, width: 0.5, height: 1 }, feather: 0.2 });
+    expect(a).toBeGreaterThan(0);
+    expect(b).toBeLessThan(200);
+    expect(c).toBeGreaterThan(100);
+    expect(d).toBeLessThan(200);
+  });
+});
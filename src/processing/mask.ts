@@ -0,0 +1,211 @@
+import { MaskShape, StepMask } from '../types';
+import { convertMat } from './convertMat';
+import { GRAY_8U, ImageFormat } from './formats';
+
+/** Upper bound of `StepMask.feather`; a fifth of the shorter side already fades across most of the image. */
+export const MAX_FEATHER = 0.2;
+
+export const MAX_BRUSH_RADIUS = 0.25;
+
+export const DEFAULT_MASK_THRESHOLD = 128;
+
+const SHAPE_LABELS: Record<MaskShape['type'], string> = {
+  rect: 'rectangle',
+  ellipse: 'ellipse',
+  brush: 'brush',
+  threshold: 'threshold',
+};
+
+export const describeMask = (mask: StepMask): string =>
+  `${mask.invert ? 'outside ' : ''}${SHAPE_LABELS[mask.shape.type]}` +
+  (mask.shape.type === 'threshold' ? ` > ${mask.shape.threshold}` : '');
+
+/** Gaussian sigma in pixels for the mask's feather on a `width` x `height` image. */
+export const featherSigma = (mask: StepMask, width: number, height: number): number =>
+  mask.feather * Math.min(width, height);
+
+export const distanceToSegment = (px: number, py: number, ax: number, ay: number, bx: number, by: number): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.min(Math.max(((px - ax) * dx + (py - ay) * dy) / lengthSquared, 0), 1) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/**
+ * Rasterizes a drawn shape to one byte per pixel, 1 inside and 0 outside,
+ * testing pixel centres. Threshold masks depend on pixel values rather than
+ * geometry and are built by each backend instead.
+ */
+export const rasterizeShape = (shape: Exclude<MaskShape, { type: 'threshold' }>, width: number, height: number) => {
+  const coverage = new Uint8Array(width * height);
+  const fill = (x0: number, y0: number, x1: number, y1: number, inside: (x: number, y: number) => boolean) => {
+    for (let y = Math.max(Math.floor(y0), 0); y < Math.min(Math.ceil(y1), height); y++) {
+      for (let x = Math.max(Math.floor(x0), 0); x < Math.min(Math.ceil(x1), width); x++) {
+        if (inside(x + 0.5, y + 0.5)) {
+          coverage[y * width + x] = 1;
+        }
+      }
+    }
+  };
+
+  switch (shape.type) {
+    case 'rect': {
+      const x0 = shape.x * width;
+      const y0 = shape.y * height;
+      const x1 = x0 + shape.width * width;
+      const y1 = y0 + shape.height * height;
+      fill(x0, y0, x1, y1, (x, y) => x >= x0 && x < x1 && y >= y0 && y < y1);
+      break;
+    }
+    case 'ellipse': {
+      const cx = shape.cx * width;
+      const cy = shape.cy * height;
+      const rx = shape.rx * width;
+      const ry = shape.ry * height;
+      if (rx > 0 && ry > 0) {
+        fill(cx - rx, cy - ry, cx + rx, cy + ry, (x, y) => ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1);
+      }
+      break;
+    }
+    case 'brush':
+      for (const stroke of shape.strokes) {
+        const radius = stroke.radius * Math.min(width, height);
+        const points = stroke.points.map(([x, y]) => [x * width, y * height]);
+        points.forEach(([bx, by], i) => {
+          const [ax, ay] = points[Math.max(i - 1, 0)];
+          fill(
+            Math.min(ax, bx) - radius,
+            Math.min(ay, by) - radius,
+            Math.max(ax, bx) + radius,
+            Math.max(ay, by) + radius,
+            (x, y) => distanceToSegment(x, y, ax, ay, bx, by) <= radius
+          );
+        });
+      }
+      break;
+  }
+  return coverage;
+};
+
+/** Returns a single-channel CV_32F Mat of per-pixel weights in [0, 1] for `mask` over `input`. */
+const maskWeights = (cv: any, mask: StepMask, input: any, format: ImageFormat): any => {
+  let weights: any;
+  if (mask.shape.type === 'threshold') {
+    const gray = convertMat(cv, input, format, GRAY_8U);
+    weights = new cv.Mat();
+    cv.threshold(gray, weights, mask.shape.threshold, 1, cv.THRESH_BINARY);
+    gray.delete();
+  } else {
+    weights = new cv.Mat(input.rows, input.cols, cv.CV_8UC1);
+    weights.data.set(rasterizeShape(mask.shape, input.cols, input.rows));
+  }
+  weights.convertTo(weights, cv.CV_32F);
+  if (mask.invert) {
+    cv.threshold(weights, weights, 0.5, 1, cv.THRESH_BINARY_INV);
+  }
+  const sigma = featherSigma(mask, input.cols, input.rows);
+  if (sigma > 0) {
+    cv.GaussianBlur(weights, weights, new cv.Size(0, 0), sigma, sigma, cv.BORDER_DEFAULT);
+  }
+  return weights;
+};
+
+/**
+ * Blends a step's output back over its input through the step's mask:
+ * `input + (output - input) * weight`. `src` is the step input in `format`,
+ * `dst` the step output in `produces`; returns a new Mat in `produces`.
+ */
+export const compositeMasked = (
+  cv: any,
+  src: any,
+  format: ImageFormat,
+  dst: any,
+  produces: ImageFormat,
+  mask: StepMask
+): any => {
+  const before = convertMat(cv, src, format, produces);
+  const weights = maskWeights(cv, mask, src, format);
+  const stacked = new cv.Mat();
+  const planes = new cv.MatVector();
+  const after = new cv.Mat();
+  const result = new cv.Mat();
+  try {
+    for (let c = 0; c < produces.channels; c++) {
+      planes.push_back(weights);
+    }
+    cv.merge(planes, stacked);
+    before.convertTo(before, cv.CV_32F);
+    dst.convertTo(after, cv.CV_32F);
+    cv.subtract(after, before, after);
+    cv.multiply(after, stacked, after);
+    cv.add(before, after, after);
+    after.convertTo(result, produces.depth === '32F' ? cv.CV_32F : cv.CV_8U);
+    return result;
+  } catch (error) {
+    result.delete();
+    throw error;
+  } finally {
+    before.delete();
+    weights.delete();
+    stacked.delete();
+    planes.delete();
+    after.delete();
+  }
+};
+
+const isFraction = (value: unknown, max = 1) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+
+const isPoint = (value: unknown) => Array.isArray(value) && value.length === 2 && value.every((v) => isFraction(v));
+
+const checkShape = (shape: any): string | null => {
+  switch (shape?.type) {
+    case 'rect':
+      return ['x', 'y', 'width', 'height'].every((key) => isFraction(shape[key]))
+        ? null
+        : 'needs "x", "y", "width" and "height" between 0 and 1';
+    case 'ellipse':
+      return ['cx', 'cy', 'rx', 'ry'].every((key) => isFraction(shape[key]))
+        ? null
+        : 'needs "cx", "cy", "rx" and "ry" between 0 and 1';
+    case 'brush': {
+      const ok =
+        Array.isArray(shape.strokes) &&
+        shape.strokes.every(
+          (stroke: any) =>
+            isFraction(stroke?.radius, MAX_BRUSH_RADIUS) &&
+            Array.isArray(stroke.points) &&
+            stroke.points.length > 0 &&
+            stroke.points.every(isPoint)
+        );
+      return ok
+        ? null
+        : `needs "strokes": a list of { radius, points } with radius between 0 and ${MAX_BRUSH_RADIUS} and points as [x, y] pairs between 0 and 1`;
+    }
+    case 'threshold':
+      return isFraction(shape.threshold, 255) ? null : 'needs a "threshold" between 0 and 255';
+    default:
+      return `needs a "type" of ${Object.keys(SHAPE_LABELS).join(', ')}`;
+  }
+};
+
+/** Describes everything wrong with a mask read from a file; empty when it is valid. */
+export const checkMask = (value: unknown): string[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['"mask" must be an object with "shape" and "feather"'];
+  }
+  const mask = value as Record<string, unknown>;
+  const problems: string[] = [];
+  const shapeProblem = checkShape(mask.shape);
+  if (shapeProblem) {
+    problems.push(`"mask.shape" ${shapeProblem}`);
+  }
+  if (!isFraction(mask.feather, MAX_FEATHER)) {
+    problems.push(`"mask.feather" must be a number between 0 and ${MAX_FEATHER}`);
+  }
+  if (mask.invert !== undefined && typeof mask.invert !== 'boolean') {
+    problems.push('"mask.invert" must be true or false');
+  }
+  return problems;
+};
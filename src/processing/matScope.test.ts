@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createStep } from '../history';
+import { testImage } from '../test/images';
+import { BuiltInOption } from '../types';
+import { runStep } from './applyProcessingStep';
+import { RGBA_8U } from './formats';
+import { liveObjects, trackAllocations, withMatScope } from './matScope';
+import { loadNodeOpenCv } from './nodeOpenCv';
+import { DEFAULT_PARAMS } from './params';
+import { PARAM_SCHEMA } from './paramSchema';
+
+const total = () => Object.values(liveObjects()).reduce((sum, count) => sum + count, 0);
+
+describe('matScope', () => {
+  let cv: any;
+
+  beforeAll(async () => {
+    ({ cv } = await loadNodeOpenCv());
+  });
+
+  it('counts tracked objects until they are deleted', () => {
+    const tracked = trackAllocations(cv);
+    expect(trackAllocations(tracked)).toBe(tracked);
+    const mat = new tracked.Mat(2, 2, cv.CV_8UC1);
+    const vector = new tracked.MatVector();
+    const clone = mat.clone();
+    expect(liveObjects()).toEqual({ Mat: 2, MatVector: 1 });
+    [mat, vector, clone].forEach((handle) => handle.delete());
+    expect(total()).toBe(0);
+  });
+
+  it('deletes what a scope allocated except its result, and leaves older objects alone', () => {
+    const source = cv.Mat.zeros(2, 2, cv.CV_8UC1);
+    const result = withMatScope(cv, (scoped) => {
+      const scratch = new scoped.Mat();
+      scoped.add(source, source, scratch);
+      const inner = withMatScope(scoped, (nested) => nested.Mat.ones(2, 2, cv.CV_8UC1));
+      scoped.Mat.eye(2, 2, cv.CV_8UC1);
+      return inner;
+    });
+    expect(liveObjects()).toEqual({ Mat: 1 });
+    expect(source.isDeleted()).toBe(false);
+    result.delete();
+    source.delete();
+    expect(total()).toBe(0);
+  });
+
+  it('deletes everything a scope allocated when it throws', () => {
+    expect(() =>
+      withMatScope(cv, (scoped) => {
+        new scoped.Mat(4, 4, cv.CV_8UC1);
+        throw new Error('step failed');
+      })
+    ).toThrow('step failed');
+    expect(total()).toBe(0);
+  });
+
+  it('leaves nothing behind after any built-in step', () => {
+    const image = testImage(32, 24);
+    for (const option of Object.keys(PARAM_SCHEMA) as BuiltInOption[]) {
+      const src = trackAllocations(cv).matFromImageData(image);
+      runStep(trackAllocations(cv), src, RGBA_8U, createStep(option, DEFAULT_PARAMS)).delete();
+      src.delete();
+      expect({ option, live: liveObjects() }).toEqual({ option, live: {} });
+    }
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Allocation tracking for OpenCV.js objects. Mats, MatVectors, CLAHE and every
+ * other embind object live on the WASM heap until `delete()` is called, so a
+ * missed delete or an exception between allocation and delete leaks memory
+ * for the life of the worker.
+ *
+ * `trackAllocations` wraps `cv` so everything it or the objects it returns
+ * allocate is recorded; `withMatScope` deletes what was allocated inside it.
+ */
+
+interface Handle {
+  delete: () => void;
+  isDeleted: () => boolean;
+}
+
+// Raw embind objects allocated through a tracked `cv` and not yet deleted.
+const live = new Set<Handle>();
+// Objects allocated by each open scope, innermost last.
+const scopes: Set<Handle>[] = [];
+const rawHandles = new WeakMap<object, Handle>();
+const handleProxies = new WeakMap<Handle, Handle>();
+const trackedFunctions = new WeakMap<Function, Function>();
+const trackedModules = new WeakMap<object, any>();
+
+const isHandle = (value: unknown): value is Handle =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Handle).delete === 'function' &&
+  typeof (value as Handle).isDeleted === 'function';
+
+const unwrap = (value: unknown) => (typeof value === 'object' && value !== null && rawHandles.get(value)) || value;
+
+const forget = (handle: Handle) => {
+  live.delete(handle);
+  scopes.forEach((owned) => owned.delete(handle));
+};
+
+/** Wraps an embind object so deleting it is recorded and what its methods return is tracked. */
+const wrapHandle = (handle: Handle): Handle => {
+  let proxy = handleProxies.get(handle);
+  if (!proxy) {
+    proxy = new Proxy(handle, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property, target);
+        if (property === 'delete') {
+          return () => {
+            forget(target);
+            target.delete();
+          };
+        }
+        return typeof value === 'function'
+          ? (...args: unknown[]) => track(value.apply(target, args.map(unwrap)))
+          : value;
+      },
+      set: (target, property, value) => Reflect.set(target, property, value, target),
+    });
+    handleProxies.set(handle, proxy);
+    rawHandles.set(proxy, handle);
+  }
+  return proxy;
+};
+
+/** Records a newly returned embind object as live and owned by the innermost scope. */
+const track = (value: unknown): unknown => {
+  if (!isHandle(value) || rawHandles.has(value)) {
+    return value;
+  }
+  if (!live.has(value) && !handleProxies.has(value)) {
+    live.add(value);
+    scopes[scopes.length - 1]?.add(value);
+  }
+  return wrapHandle(value);
+};
+
+/** Wraps a cv function or class so calls, `new` and its static methods (such as `Mat.zeros`) are tracked. */
+const trackFunction = (fn: Function, self: unknown): Function => {
+  let tracked = trackedFunctions.get(fn);
+  if (!tracked) {
+    tracked = new Proxy(fn, {
+      apply: (target, _thisArg, args) => track(Reflect.apply(target, self, args.map(unwrap))),
+      construct: (target, args) => track(Reflect.construct(target, args.map(unwrap))) as object,
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        return typeof value === 'function' && property !== 'prototype' ? trackFunction(value, target) : value;
+      },
+    });
+    trackedFunctions.set(fn, tracked);
+  }
+  return tracked;
+};
+
+/**
+ * Returns `cv` with allocation tracking: every object created with it, or
+ * returned by one of its functions or by a method of such an object, counts
+ * as live until deleted and belongs to the innermost open scope. Tracked
+ * objects can be passed anywhere OpenCV expects one. Tracking a tracked `cv`
+ * returns it unchanged.
+ */
+export const trackAllocations = (cv: any): any => {
+  if (rawHandles.has(cv)) {
+    return cv;
+  }
+  let tracked = trackedModules.get(cv);
+  if (!tracked) {
+    tracked = new Proxy(cv, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        return typeof value === 'function' ? trackFunction(value, target) : value;
+      },
+    });
+    trackedModules.set(cv, tracked);
+    // Marks the proxy as tracked; it never reaches OpenCV as an argument.
+    rawHandles.set(tracked, cv);
+  }
+  return tracked;
+};
+
+/**
+ * Runs `body` with a tracking `cv` and then deletes every object allocated
+ * inside it, except the one it returns, whether it returns or throws.
+ * Objects that existed before, such as the step's source, are left alone. In
+ * a nested scope the returned object passes to the enclosing one.
+ */
+export const withMatScope = <T>(cv: any, body: (cv: any) => T): T => {
+  const owned = new Set<Handle>();
+  scopes.push(owned);
+  let result: T | undefined;
+  try {
+    result = body(trackAllocations(cv));
+    return result;
+  } finally {
+    scopes.pop();
+    const kept = unwrap(result);
+    for (const handle of owned) {
+      if (handle === kept) {
+        scopes[scopes.length - 1]?.add(handle);
+      } else {
+        forget(handle);
+        if (!handle.isDeleted()) {
+          handle.delete();
+        }
+      }
+    }
+  }
+};
+
+/** How many tracked objects have not been deleted, by class name (`Mat`, `MatVector`, `CLAHE`, …). */
+export const liveObjects = (): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const handle of live) {
+    if (handle.isDeleted()) {
+      live.delete(handle);
+    } else {
+      const name = Object.getPrototypeOf(handle).constructor?.name || 'Object';
+      counts[name] = (counts[name] ?? 0) + 1;
+    }
+  }
+  return counts;
+};
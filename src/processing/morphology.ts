@@ -0,0 +1,49 @@
+import { ProcessingParams } from '../types';
+
+export const MORPH_OPERATIONS = ['Erode', 'Dilate', 'Open', 'Close', 'Gradient', 'Top-hat', 'Black-hat'] as const;
+export const STRUCTURING_SHAPES = ['Rectangle', 'Cross', 'Ellipse'] as const;
+
+const CV_OPERATIONS: Record<(typeof MORPH_OPERATIONS)[number], string> = {
+  Erode: 'MORPH_ERODE',
+  Dilate: 'MORPH_DILATE',
+  Open: 'MORPH_OPEN',
+  Close: 'MORPH_CLOSE',
+  Gradient: 'MORPH_GRADIENT',
+  'Top-hat': 'MORPH_TOPHAT',
+  'Black-hat': 'MORPH_BLACKHAT',
+};
+
+const CV_SHAPES: Record<(typeof STRUCTURING_SHAPES)[number], string> = {
+  Rectangle: 'MORPH_RECT',
+  Cross: 'MORPH_CROSS',
+  Ellipse: 'MORPH_ELLIPSE',
+};
+
+/**
+ * Applies the selected morphological operation with a `structuringSize`
+ * square element of the selected shape, `morphIterations` times. Pixels
+ * beyond the border never win a minimum or maximum, as in OpenCV's default.
+ */
+export const applyMorphology = (cv: any, src: any, params: ProcessingParams): any => {
+  const size = new cv.Size(params.structuringSize, params.structuringSize);
+  const element = cv.getStructuringElement(cv[CV_SHAPES[STRUCTURING_SHAPES[params.structuringShape]]], size);
+  const dst = new cv.Mat();
+  try {
+    cv.morphologyEx(
+      src,
+      dst,
+      cv[CV_OPERATIONS[MORPH_OPERATIONS[params.morphOperation]]],
+      element,
+      new cv.Point(-1, -1),
+      params.morphIterations,
+      cv.BORDER_CONSTANT,
+      cv.morphologyDefaultBorderValue()
+    );
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw error;
+  } finally {
+    element.delete();
+  }
+};
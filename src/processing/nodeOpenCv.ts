@@ -0,0 +1,23 @@
+import { createRequire } from 'node:module';
+
+let loaded: Promise<{ cv: any }> | null = null;
+
+/**
+ * Loads the bundled OpenCV.js in Node, for the command-line runner and tests.
+ * The Module object it exports is thenable, so it is handed back wrapped
+ * rather than resolved directly.
+ */
+export const loadNodeOpenCv = (): Promise<{ cv: any }> => {
+  if (!loaded) {
+    loaded = new Promise((resolve, reject) => {
+      const cv = createRequire(import.meta.url)('@techstark/opencv-js');
+      if (cv.Mat) {
+        resolve({ cv });
+      } else {
+        cv.onRuntimeInitialized = () => resolve({ cv });
+        cv.onAbort = (reason: unknown) => reject(new Error(`OpenCV failed to load: ${reason}`));
+      }
+    });
+  }
+  return loaded;
+};
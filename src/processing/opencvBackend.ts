@@ -0,0 +1,63 @@
+import { runStep } from './applyProcessingStep';
+import { ProcessingBackend, RgbaImage } from './backend';
+import { convertMat } from './convertMat';
+import { ImageFormat, RGBA_32F, RGBA_8U, RGB_32F, SOURCE_FORMAT, formatAfter, stepFormat } from './formats';
+
+export const matToRgbaImage = (cv: any, mat: any, format: ImageFormat): RgbaImage => {
+  const rgba = convertMat(cv, mat, format, RGBA_8U);
+  const image = { width: rgba.cols, height: rgba.rows, data: new Uint8ClampedArray(rgba.data) };
+  rgba.delete();
+  return image;
+};
+
+/**
+ * Like matToRgbaImage but with 16 bits per sample, mapping the 0-255 value
+ * range onto 0-65535. Float results keep their fractional levels; 8-bit ones
+ * just scale. Alpha is opaque unless `format` has its own.
+ */
+export const matToRgba16Image = (cv: any, mat: any, format: ImageFormat) => {
+  const hasAlpha = format.channels === 4;
+  const float = convertMat(cv, mat, format, hasAlpha ? RGBA_32F : RGB_32F);
+  const channels = hasAlpha ? 4 : 3;
+  const samples: Float32Array = float.data32F;
+  const data = new Uint16Array(float.rows * float.cols * 4);
+  for (let p = 0; p < float.rows * float.cols; p++) {
+    for (let c = 0; c < 4; c++) {
+      const value = c < channels ? samples[p * channels + c] * 257 : 65535;
+      data[p * 4 + c] = Math.min(Math.max(Math.round(value), 0), 65535);
+    }
+  }
+  const image = { width: float.cols, height: float.rows, data };
+  float.delete();
+  return image;
+};
+
+export const createOpenCvBackend = (cv: any): ProcessingBackend => ({
+  name: 'opencv',
+  applyStep: (image, step, report) => {
+    const src = cv.matFromImageData(image);
+    let dst: any = null;
+    try {
+      dst = runStep(cv, src, SOURCE_FORMAT, step, report);
+      return matToRgbaImage(cv, dst, stepFormat(step).produces);
+    } finally {
+      src.delete();
+      dst?.delete();
+    }
+  },
+  // Like the pipeline worker, each step's result stays in the format it
+  // produces, float included, and is only converted to RGBA 8U at the end.
+  applySteps: (image, steps, onReport) => {
+    let current = cv.matFromImageData(image);
+    try {
+      for (const [i, step] of steps.entries()) {
+        const next = runStep(cv, current, formatAfter(steps, i), step, (message) => onReport(step, message));
+        current.delete();
+        current = next;
+      }
+      return matToRgbaImage(cv, current, formatAfter(steps));
+    } finally {
+      current.delete();
+    }
+  },
+});
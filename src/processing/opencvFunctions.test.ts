@@ -0,0 +1,48 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { OPTIONAL_CV_FUNCTIONS } from './builtins';
+import { loadNodeOpenCv } from './nodeOpenCv';
+
+const SRC = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const stripComments = (source: string) => source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+/**
+ * Every `cv.name` the app reads, and constant names it looks up on `cv` by
+ * string (colour conversion codes, border and threshold types). Assignments
+ * such as `cv.onRuntimeInitialized = …` are left out.
+ */
+const referencedNames = (): Map<string, string> => {
+  const names = new Map<string, string>();
+  const files = readdirSync(SRC, { recursive: true, encoding: 'utf8' }).filter(
+    (file) => /\.tsx?$/.test(file) && !file.endsWith('.test.ts')
+  );
+  for (const file of files) {
+    const source = stripComments(readFileSync(path.join(SRC, file), 'utf8'));
+    for (const [, name] of source.matchAll(/\bcv\.([A-Za-z_]\w*)\b(?!\s*=[^=])/g)) {
+      names.set(name, file);
+    }
+    for (const [, name] of source.matchAll(/'((?:COLOR|BORDER|THRESH|MORPH)_\w+)'/g)) {
+      names.set(name, file);
+    }
+  }
+  return names;
+};
+
+describe('bundled OpenCV.js', () => {
+  let cv: any;
+
+  beforeAll(async () => {
+    ({ cv } = await loadNodeOpenCv());
+  });
+
+  it('has every function and constant the app uses', () => {
+    const optional = new Set(Object.values(OPTIONAL_CV_FUNCTIONS).flat());
+    const missing = [...referencedNames()]
+      .filter(([name]) => !optional.has(name) && cv[name] === undefined)
+      .map(([name, file]) => `cv.${name} (${file})`);
+    expect(missing).toEqual([]);
+  });
+});
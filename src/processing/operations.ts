@@ -0,0 +1,5 @@
+// Registers every operation: the built-ins first, so they lead the editor's list, then the plugins.
+import './builtins';
+import '../plugins';
+
+export { getOperation, hasOperation, listOperations, operationLabel } from './registry';
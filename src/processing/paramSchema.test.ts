@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ParamDefinition, VectorParam, checkParamValue, resizeVector } from './paramSchema';
+import { paramDefinition } from './params';
+
+const definition = (option: Parameters<typeof paramDefinition>[0], key: string): ParamDefinition =>
+  paramDefinition(option, key)!;
+
+describe('checkParamValue', () => {
+  it('accepts values the editor can set', () => {
+    expect(checkParamValue(definition('Laplacian Filtering', 'kernelSize'), 5)).toBeNull();
+    expect(checkParamValue(definition('Thresholding', 'thresholdMethod'), 3)).toBeNull();
+    expect(checkParamValue(definition('Unsharp Masking', 'sigma'), 1.37)).toBeNull();
+    expect(checkParamValue(definition('Manual Colorization', 'colorTint'), [0, 128, 255])).toBeNull();
+  });
+
+  it('rejects off-step and fractional values of integer params', () => {
+    expect(checkParamValue(definition('Laplacian Filtering', 'kernelSize'), 4)).toBe(
+      'must be a whole number between 1 and 31 in steps of 2'
+    );
+    expect(checkParamValue(definition('Thresholding', 'thresholdMethod'), 3.5)).toBe(
+      'must be a whole number between 0 and 5'
+    );
+    expect(checkParamValue(definition('Manual Colorization', 'colorTint'), [0, 12.5, 255])).toBe(
+      'must be a list of 3 whole numbers between 0 and 255'
+    );
+  });
+
+  it('rejects values out of range', () => {
+    expect(checkParamValue(definition('Multi-Scale Retinex', 'retinexScales'), [])).toBe(
+      'must be a list of 1 to 5 numbers between 1 and 300'
+    );
+    expect(checkParamValue(definition('Gabor Bank', 'gaborWavelengths'), [4, 8, 16, 32, 48, 64, 64])).toBe(
+      'must be a list of 1 to 6 numbers between 2 and 64'
+    );
+  });
+});
+
+describe('resizeVector', () => {
+  const wavelengths = definition('Gabor Bank', 'gaborWavelengths') as VectorParam;
+
+  it('keeps existing components and fills new ones from the default, then the last value', () => {
+    expect(resizeVector(wavelengths, [10, 20], 1)).toEqual([10]);
+    expect(resizeVector(wavelengths, [10], 3)).toEqual([10, 16, 16]);
+  });
+});
@@ -0,0 +1,453 @@
+import { BuiltInOption, ProcessingParams } from '../types';
+import { BOOST_SPACES, EQUALIZE_SPACES } from './colorSpaces';
+import {
+  FOURIER_VIEWS,
+  FREQUENCY_BANDS,
+  FREQUENCY_FILTERS,
+  MAX_NOTCH_FREQUENCY,
+  MAX_NOTCH_RADIUS,
+} from './frequency';
+import { GABOR_COMBINATIONS, GABOR_OUTPUTS } from './gabor';
+import { BORDER_MODES, KERNEL_NORMALIZATIONS, MAX_KERNEL_SIZE, MIN_KERNEL_SIZE } from './kernel';
+import { MORPH_OPERATIONS, STRUCTURING_SHAPES } from './morphology';
+import { THRESHOLD_METHODS, THRESHOLD_TYPES, isAdaptive } from './thresholding';
+
+type KeysOfType<T> = { [K in keyof ProcessingParams]: ProcessingParams[K] extends T ? K : never }[keyof ProcessingParams];
+
+interface BaseParam<K extends keyof ProcessingParams> {
+  key: K;
+  label: string;
+  default: ProcessingParams[K];
+  /** Hides the control while the step's other params make it irrelevant; its value is still kept and saved. */
+  shownWhen?: (params: ProcessingParams) => boolean;
+}
+
+interface Range {
+  min: number;
+  max: number;
+  step: number;
+  /** Values snap to `min + k * step`, e.g. odd kernel sizes with min 1 and step 2. */
+  integer?: boolean;
+}
+
+export interface NumberParam extends BaseParam<KeysOfType<number>>, Range {
+  type: 'number';
+}
+
+export interface SelectParam extends BaseParam<KeysOfType<number>> {
+  type: 'select';
+  choices: { value: number; label: string }[];
+}
+
+export interface VectorParam extends BaseParam<KeysOfType<number[]>>, Range {
+  type: 'vector';
+  /** One label per component; a resizable vector labels extra components by position. */
+  labels: string[];
+  /** How many components a resizable vector may have; others keep their default's length. */
+  lengths?: { min: number; max: number };
+}
+
+export interface ColorParam extends BaseParam<'colorTint'> {
+  type: 'color';
+}
+
+export interface MatrixParam extends BaseParam<KeysOfType<number[][]>>, Range {
+  type: 'matrix';
+  /** Fixed-size matrices label their rows and columns; resizable ones are numbered by position. */
+  rowLabels?: string[];
+  columnLabels?: string[];
+  /** Odd side lengths a square matrix such as a convolution kernel may be resized between. */
+  sizes?: { min: number; max: number };
+}
+
+/** Strokes painted on the spectrum of the step's input; edited on a picture of it rather than as numbers. */
+export interface NotchParam extends BaseParam<'notches'> {
+  type: 'notches';
+}
+
+export type ParamDefinition = NumberParam | SelectParam | VectorParam | ColorParam | MatrixParam | NotchParam;
+
+/** Location of a single number inside ProcessingParams, e.g. `['mixFactors', 1, 2]`. */
+export type ParamPath = [keyof ProcessingParams, ...number[]];
+
+const RGB = ['Red', 'Green', 'Blue'];
+
+const COLOR_MAPS = [
+  'Autumn', 'Bone', 'Jet', 'Winter', 'Rainbow', 'Ocean', 'Summer', 'Spring', 'Cool', 'HSV', 'Pink',
+  'Hot', 'Parula', 'Magma', 'Inferno', 'Plasma', 'Viridis', 'Cividis', 'Twilight', 'Twilight Shifted',
+  'Turbo', 'Deep Green',
+];
+
+const choicesOf = (labels: readonly string[]) => labels.map((label, value) => ({ value, label }));
+
+const kernelSize: NumberParam = {
+  type: 'number', key: 'kernelSize', label: 'Kernel Size', default: 3, min: 1, max: 31, step: 2, integer: true,
+};
+
+const equalizeSpace: SelectParam = {
+  type: 'select', key: 'equalizeSpace', label: 'Equalize', default: 0, choices: choicesOf(EQUALIZE_SPACES),
+};
+
+const boostsInHsv = (params: ProcessingParams) => BOOST_SPACES[params.boostSpace] === 'HSV';
+const boostsInRgb = (params: ProcessingParams) => !boostsInHsv(params);
+
+const thresholdMethod = (params: ProcessingParams) => THRESHOLD_METHODS[params.thresholdMethod];
+const usesFixedThreshold = (params: ProcessingParams) => thresholdMethod(params) === 'Fixed';
+const usesBlocks = (params: ProcessingParams) => isAdaptive(thresholdMethod(params));
+const usesClasses = (params: ProcessingParams) => thresholdMethod(params) === 'Multi-level Otsu';
+
+const frequencyFilter: SelectParam = {
+  type: 'select', key: 'frequencyFilter', label: 'Filter', default: 1, choices: choicesOf(FREQUENCY_FILTERS),
+};
+
+const filterOrder: NumberParam = {
+  type: 'number', key: 'filterOrder', label: 'Butterworth Order', default: 2, min: 1, max: 10, step: 1, integer: true,
+};
+
+const gaborGamma: NumberParam = {
+  type: 'number', key: 'gaborGamma', label: 'Gamma', default: 0.5, min: 0.1, max: 1, step: 0.05,
+};
+
+const gaborPsi: NumberParam = {
+  type: 'number', key: 'gaborPsi', label: 'Psi', default: 0, min: 0, max: 6.28, step: 0.05,
+};
+
+/** Params of the built-in operations; plugins declare theirs when registering. */
+export const PARAM_SCHEMA: Record<BuiltInOption, ParamDefinition[]> = {
+  'Histogram Equalization': [equalizeSpace],
+  'Adaptive Histogram Equalization': [
+    equalizeSpace,
+    { type: 'number', key: 'clipLimit', label: 'Clip Limit', default: 2, min: 0, max: 10, step: 0.1 },
+    { type: 'number', key: 'tileSize', label: 'Tile Grid Size', default: 8, min: 2, max: 16, step: 1, integer: true },
+  ],
+  'Edge Detection': [
+    { type: 'number', key: 'threshold1', label: 'Threshold 1', default: 50, min: 0, max: 255, step: 1, integer: true },
+    { type: 'number', key: 'threshold2', label: 'Threshold 2', default: 150, min: 0, max: 255, step: 1, integer: true },
+  ],
+  'Unsharp Masking': [
+    { type: 'number', key: 'sigma', label: 'Sigma', default: 3, min: 0.1, max: 10, step: 0.1 },
+    { type: 'number', key: 'amount', label: 'Amount', default: 1.5, min: 0, max: 5, step: 0.1 },
+  ],
+  'High-Pass Filtering': [kernelSize],
+  'Laplacian Filtering': [
+    kernelSize,
+    { type: 'number', key: 'scale', label: 'Scale', default: 1, min: 0.1, max: 10, step: 0.1 },
+  ],
+  'Custom Kernel': [
+    {
+      type: 'matrix',
+      key: 'customKernel',
+      label: 'Kernel',
+      default: [[0, -1, 0], [-1, 5, -1], [0, -1, 0]],
+      sizes: { min: MIN_KERNEL_SIZE, max: MAX_KERNEL_SIZE },
+      min: -100,
+      max: 100,
+      step: 0.1,
+    },
+    {
+      type: 'select',
+      key: 'kernelNormalization',
+      label: 'Normalize',
+      default: 0,
+      choices: choicesOf(KERNEL_NORMALIZATIONS),
+    },
+    { type: 'select', key: 'borderMode', label: 'Border', default: 0, choices: choicesOf(BORDER_MODES) },
+    { type: 'number', key: 'kernelOffset', label: 'Offset', default: 0, min: -255, max: 255, step: 1 },
+  ],
+  'Color Inversion': [],
+  'Thresholding': [
+    { type: 'select', key: 'thresholdMethod', label: 'Method', default: 0, choices: choicesOf(THRESHOLD_METHODS) },
+    {
+      type: 'number',
+      key: 'threshold',
+      label: 'Threshold',
+      default: 127,
+      min: 0,
+      max: 255,
+      step: 1,
+      integer: true,
+      shownWhen: usesFixedThreshold,
+    },
+    {
+      type: 'select',
+      key: 'thresholdType',
+      label: 'Type',
+      default: 0,
+      choices: choicesOf(THRESHOLD_TYPES),
+      shownWhen: (params) => !usesClasses(params),
+    },
+    {
+      type: 'number',
+      key: 'blockSize',
+      label: 'Block Size',
+      default: 11,
+      min: 3,
+      max: 99,
+      step: 2,
+      integer: true,
+      shownWhen: usesBlocks,
+    },
+    { type: 'number', key: 'thresholdC', label: 'C', default: 2, min: -50, max: 50, step: 1, shownWhen: usesBlocks },
+    {
+      type: 'number',
+      key: 'thresholdClasses',
+      label: 'Classes',
+      default: 3,
+      min: 2,
+      max: 5,
+      step: 1,
+      integer: true,
+      shownWhen: usesClasses,
+    },
+  ],
+  'Morphology': [
+    { type: 'select', key: 'morphOperation', label: 'Operation', default: 0, choices: choicesOf(MORPH_OPERATIONS) },
+    { type: 'select', key: 'structuringShape', label: 'Element', default: 0, choices: choicesOf(STRUCTURING_SHAPES) },
+    {
+      type: 'number', key: 'structuringSize', label: 'Element Size', default: 3, min: 1, max: 31, step: 2, integer: true,
+    },
+    { type: 'number', key: 'morphIterations', label: 'Iterations', default: 1, min: 1, max: 10, step: 1, integer: true },
+  ],
+  'Pseudocolor Mapping': [
+    {
+      type: 'select',
+      key: 'colorMap',
+      label: 'Color Map',
+      default: 2,
+      choices: choicesOf(COLOR_MAPS),
+    },
+  ],
+  'Fourier Transform': [
+    { type: 'select', key: 'fourierView', label: 'View', default: 0, choices: choicesOf(FOURIER_VIEWS) },
+  ],
+  'Frequency Filter': [
+    { type: 'select', key: 'frequencyBand', label: 'Band', default: 0, choices: choicesOf(FREQUENCY_BANDS) },
+    frequencyFilter,
+    { type: 'number', key: 'cutoff', label: 'Cutoff (cycles)', default: 40, min: 1, max: 2000, step: 1 },
+    { type: 'number', key: 'bandWidth', label: 'Band Width (cycles)', default: 20, min: 1, max: 2000, step: 1 },
+    filterOrder,
+  ],
+  'Notch Filter': [{ type: 'notches', key: 'notches', label: 'Notches', default: [] }, frequencyFilter, filterOrder],
+  'Color Boosting': [
+    { type: 'select', key: 'boostSpace', label: 'Boost In', default: 0, choices: choicesOf(BOOST_SPACES) },
+    {
+      type: 'vector',
+      key: 'boostFactor',
+      label: 'Boost',
+      default: [1, 1, 1],
+      labels: RGB,
+      min: 0,
+      max: 3,
+      step: 0.1,
+      shownWhen: boostsInRgb,
+    },
+    {
+      type: 'number',
+      key: 'hueShift',
+      label: 'Hue Shift (degrees)',
+      default: 0,
+      min: -180,
+      max: 180,
+      step: 2,
+      shownWhen: boostsInHsv,
+    },
+    {
+      type: 'number',
+      key: 'saturationScale',
+      label: 'Saturation',
+      default: 1,
+      min: 0,
+      max: 3,
+      step: 0.1,
+      shownWhen: boostsInHsv,
+    },
+    { type: 'number', key: 'valueScale', label: 'Value', default: 1, min: 0, max: 3, step: 0.1, shownWhen: boostsInHsv },
+  ],
+  'Channel Mixing Simulation': [
+    {
+      type: 'matrix',
+      key: 'mixFactors',
+      label: 'Mix Factors',
+      default: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+      rowLabels: RGB.map((channel) => `${channel} out`),
+      columnLabels: RGB.map((channel) => `${channel} in`),
+      min: -2,
+      max: 2,
+      step: 0.1,
+    },
+  ],
+  'Manual Colorization': [{ type: 'color', key: 'colorTint', label: 'Tint', default: [128, 128, 128] }],
+  'Multi-Scale Retinex': [
+    {
+      type: 'vector',
+      key: 'retinexScales',
+      label: 'Scales',
+      default: [15, 80, 250],
+      labels: ['Scale 1', 'Scale 2', 'Scale 3'],
+      lengths: { min: 1, max: 5 },
+      min: 1,
+      max: 300,
+      step: 1,
+    },
+  ],
+  'Gabor Filter': [
+    { type: 'number', key: 'gaborKernelSize', label: 'Kernel Size', default: 31, min: 3, max: 31, step: 2, integer: true },
+    { type: 'number', key: 'gaborSigma', label: 'Sigma', default: 5, min: 0.1, max: 10, step: 0.1 },
+    { type: 'number', key: 'gaborTheta', label: 'Theta', default: 0, min: 0, max: 6.28, step: 0.05 },
+    { type: 'number', key: 'gaborLambda', label: 'Lambda', default: 10, min: 0.1, max: 50, step: 0.1 },
+    gaborGamma,
+    gaborPsi,
+  ],
+  'Gabor Bank': [
+    { type: 'number', key: 'gaborOrientations', label: 'Orientations', default: 4, min: 1, max: 16, step: 1, integer: true },
+    {
+      type: 'vector',
+      key: 'gaborWavelengths',
+      label: 'Wavelengths',
+      default: [8, 16],
+      labels: ['Wavelength 1', 'Wavelength 2'],
+      lengths: { min: 1, max: 6 },
+      min: 2,
+      max: 64,
+      step: 1,
+    },
+    { type: 'number', key: 'gaborBandwidth', label: 'Bandwidth (octaves)', default: 1, min: 0.3, max: 3, step: 0.1 },
+    gaborGamma,
+    gaborPsi,
+    { type: 'select', key: 'gaborCombine', label: 'Combine', default: 1, choices: choicesOf(GABOR_COMBINATIONS) },
+    { type: 'select', key: 'gaborOutput', label: 'Output', default: 0, choices: choicesOf(GABOR_OUTPUTS) },
+  ],
+};
+
+/**
+ * Resizes a square matrix to `size` x `size` about its centre: shrinking
+ * crops the border and growing pads it with zeros, so a kernel keeps its
+ * effect as far as the new size allows.
+ */
+export const resizeSquareMatrix = (matrix: number[][], size: number): number[][] => {
+  const offset = (matrix.length - size) / 2;
+  return Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) => matrix[r + offset]?.[c + offset] ?? 0)
+  );
+};
+
+/**
+ * Resizes a vector to `length` components: shrinking drops the last ones and
+ * growing adds the default's value at that position, or repeats the last one.
+ */
+export const resizeVector = (definition: VectorParam, vector: number[], length: number): number[] => {
+  const resized = vector.slice(0, length);
+  while (resized.length < length) {
+    resized.push(definition.default[resized.length] ?? resized[resized.length - 1]);
+  }
+  return resized;
+};
+
+/** Range a single number at any path inside `definition` must lie in. */
+export const rangeOf = (definition: ParamDefinition): Range => {
+  switch (definition.type) {
+    case 'color':
+      return { min: 0, max: 255, step: 1, integer: true };
+    case 'select':
+      return { min: 0, max: definition.choices.length - 1, step: 1, integer: true };
+    case 'notches':
+      return { min: -MAX_NOTCH_FREQUENCY, max: MAX_NOTCH_FREQUENCY, step: 0.01 };
+    default:
+      return definition;
+  }
+};
+
+export const clampToRange = (value: number, { min, max, step, integer }: Range): number => {
+  const clamped = Math.min(Math.max(value, min), max);
+  if (!integer) {
+    return clamped;
+  }
+  return Math.min(min + Math.round((clamped - min) / step) * step, max);
+};
+
+/** Immutably sets the number at `path`, clamped to the definition's range. */
+export const setParamAt = (
+  params: ProcessingParams,
+  definition: ParamDefinition,
+  path: ParamPath,
+  value: number
+): ProcessingParams => {
+  const [key, ...indices] = path;
+  const update = (current: unknown, depth: number): unknown => {
+    if (depth === indices.length) {
+      return clampToRange(value, rangeOf(definition));
+    }
+    const copy = [...(current as unknown[])];
+    copy[indices[depth]] = update(copy[indices[depth]], depth + 1);
+    return copy;
+  };
+  return { ...params, [key]: update(params[key], 0) };
+};
+
+/**
+ * Checks that `value` has the shape `definition` expects and that every
+ * number in it is one the editor could set: in range and, for integer ranges,
+ * on a step (so clampToRange leaves it unchanged). Returns a readable
+ * description of the problem, or null if it is valid.
+ */
+export const checkParamValue = (definition: ParamDefinition, value: unknown): string | null => {
+  const range = rangeOf(definition);
+  const inRange = (item: unknown) =>
+    typeof item === 'number' &&
+    Number.isFinite(item) &&
+    item >= range.min &&
+    item <= range.max &&
+    clampToRange(item, range) === item;
+  const between = `between ${range.min} and ${range.max}${
+    range.integer && range.step !== 1 ? ` in steps of ${range.step}` : ''
+  }`;
+  const numbers = range.integer ? 'whole numbers' : 'numbers';
+
+  switch (definition.type) {
+    case 'number':
+    case 'select':
+      return inRange(value) ? null : `must be a ${range.integer ? 'whole number' : 'number'} ${between}`;
+    case 'vector':
+    case 'color': {
+      const length = definition.default.length;
+      const lengths = definition.type === 'vector' ? definition.lengths : undefined;
+      const lengthOk =
+        Array.isArray(value) &&
+        (lengths ? value.length >= lengths.min && value.length <= lengths.max : value.length === length);
+      if (!lengthOk || !value.every(inRange)) {
+        const count = lengths ? `${lengths.min} to ${lengths.max}` : length;
+        return `must be a list of ${count} ${numbers} ${between}`;
+      }
+      return null;
+    }
+    case 'matrix': {
+      const { sizes } = definition;
+      const rows = sizes && Array.isArray(value) ? value.length : definition.default.length;
+      const columns = sizes ? rows : definition.default[0].length;
+      const ok =
+        Array.isArray(value) &&
+        value.length === rows &&
+        value.every((row) => Array.isArray(row) && row.length === columns && row.every(inRange));
+      if (sizes && !(rows % 2 === 1 && rows >= sizes.min && rows <= sizes.max)) {
+        return `must be a square matrix with an odd side from ${sizes.min} to ${sizes.max}`;
+      }
+      return ok ? null : `must be a ${rows}x${columns} matrix of ${numbers} ${between}`;
+    }
+    case 'notches': {
+      const ok =
+        Array.isArray(value) &&
+        value.every(
+          (stroke) =>
+            typeof stroke?.radius === 'number' &&
+            stroke.radius > 0 &&
+            stroke.radius <= MAX_NOTCH_RADIUS &&
+            Array.isArray(stroke.points) &&
+            stroke.points.length > 0 &&
+            stroke.points.every((point: unknown) => Array.isArray(point) && point.length === 2 && point.every(inRange))
+        );
+      return ok
+        ? null
+        : `must be a list of { radius, points } with radius above 0 and at most ${MAX_NOTCH_RADIUS} and points as [u, v] pairs ${between}`;
+    }
+  }
+};
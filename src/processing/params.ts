@@ -0,0 +1,19 @@
+import { ProcessingOption, ProcessingParams, ProcessingStep } from '../types';
+import { getOperation, listOperations } from './operations';
+import { ParamDefinition } from './paramSchema';
+
+export const DEFAULT_PARAMS = Object.fromEntries(
+  listOperations()
+    .flatMap((operation) => operation.params)
+    .map((definition) => [definition.key, definition.default])
+) as unknown as ProcessingParams;
+
+/** The params an option actually reads; everything else in ProcessingParams is ignored by it. */
+export const optionParams = (option: ProcessingOption): (keyof ProcessingParams)[] =>
+  getOperation(option).params.map(({ key }) => key);
+
+export const paramDefinition = (option: ProcessingOption, key: string): ParamDefinition | undefined =>
+  getOperation(option).params.find((definition) => definition.key === key);
+
+export const usedParams = (step: ProcessingStep): Partial<ProcessingParams> =>
+  Object.fromEntries(optionParams(step.option).map((key) => [key, step.params[key]]));
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createStep } from '../history';
+import { DEFAULT_PARAMS } from './params';
+import { createPipelineCache, prefixKeys } from './pipelineCache';
+
+/** Stands in for a Mat of `bytes` bytes, counting the clones still alive. */
+const fakeMat = (bytes: number, live: { count: number }) => {
+  const mat = {
+    total: () => bytes,
+    elemSize: () => 1,
+    clone: () => {
+      live.count++;
+      return fakeMat(bytes, live);
+    },
+    delete: () => {
+      live.count--;
+    },
+  };
+  return mat;
+};
+
+const step = (sigma: number) => createStep('Unsharp Masking', { ...DEFAULT_PARAMS, sigma });
+
+describe('prefixKeys', () => {
+  it('shares keys between chains up to their first difference', () => {
+    const a = prefixKeys(1, [step(1), step(2), step(3)]);
+    const b = prefixKeys(1, [step(1), step(2), step(4)]);
+    expect(b.slice(0, 2)).toEqual(a.slice(0, 2));
+    expect(b[2]).not.toBe(a[2]);
+    expect(prefixKeys(2, [step(1)])[0]).not.toBe(a[0]);
+  });
+
+  it('ignores params the step does not use', () => {
+    const a = createStep('Unsharp Masking', { ...DEFAULT_PARAMS, threshold: 10 });
+    const b = createStep('Unsharp Masking', { ...DEFAULT_PARAMS, threshold: 200 });
+    expect(prefixKeys(1, [a])).toEqual(prefixKeys(1, [b]));
+  });
+});
+
+describe('createPipelineCache', () => {
+  it('evicts the least recently used entries to stay within its budget', () => {
+    const live = { count: 0 };
+    const cache = createPipelineCache(100);
+    cache.put('a', fakeMat(40, live), 1);
+    cache.put('b', fakeMat(40, live), 1);
+    cache.take('a')!.delete();
+    cache.put('c', fakeMat(40, live), 1);
+    expect([cache.has('a'), cache.has('b'), cache.has('c')]).toEqual([true, false, true]);
+    expect(cache.usage()).toEqual({ entries: 2, bytes: 80, budget: 100 });
+    expect(live.count).toBe(2);
+  });
+
+  it('skips results larger than the whole budget', () => {
+    const live = { count: 0 };
+    const cache = createPipelineCache(100);
+    cache.put('a', fakeMat(40, live), 1);
+    cache.put('huge', fakeMat(101, live), 1);
+    expect([cache.has('a'), cache.has('huge')]).toEqual([true, false]);
+    expect(live.count).toBe(1);
+  });
+
+  it('replaces an entry stored again under the same key', () => {
+    const live = { count: 0 };
+    const cache = createPipelineCache(100);
+    cache.put('a', fakeMat(40, live), 1);
+    cache.put('a', fakeMat(30, live), 1);
+    expect(cache.usage().bytes).toBe(30);
+    expect(live.count).toBe(1);
+  });
+
+  it('frees everything cached for a released source, and everything on clear', () => {
+    const live = { count: 0 };
+    const cache = createPipelineCache(100);
+    cache.put('a', fakeMat(10, live), 1);
+    cache.put('b', fakeMat(10, live), 2);
+    cache.releaseSource(1);
+    expect([cache.has('a'), cache.has('b')]).toEqual([false, true]);
+    cache.clear();
+    expect(cache.usage()).toEqual({ entries: 0, bytes: 0, budget: 100 });
+    expect(live.count).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { ProcessingStep } from '../types';
+import { usedParams } from './params';
+
+interface CacheEntry {
+  mat: any;
+  bytes: number;
+  sourceId: number;
+}
+
+export interface PipelineCache {
+  /** Returns a clone of the cached Mat; the caller owns it. */
+  take: (key: string) => any | undefined;
+  has: (key: string) => boolean;
+  /** Stores a clone of `mat`, evicting least recently used entries to stay within budget. */
+  put: (key: string, mat: any, sourceId: number) => void;
+  releaseSource: (sourceId: number) => void;
+  clear: () => void;
+  usage: () => { entries: number; bytes: number; budget: number };
+}
+
+export const DEFAULT_CACHE_BUDGET_BYTES = 256 * 1024 * 1024;
+
+// cyrb53: a fast 53-bit string hash, plenty for keying a few hundred prefixes.
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const stepKey = (step: ProcessingStep): string =>
+  `${step.option}:${JSON.stringify(usedParams(step))}${step.mask ? `:${JSON.stringify(step.mask)}` : ''}`;
+
+/**
+ * Returns one key per step where `keys[i]` identifies the result of applying
+ * `steps[0..i]` to the given source, so equal prefixes share keys.
+ */
+export const prefixKeys = (sourceId: number, steps: ProcessingStep[]): string[] => {
+  const keys: string[] = [];
+  let previous = `source:${sourceId}`;
+  for (const step of steps) {
+    previous = hashString(`${previous}\n${stepKey(step)}`);
+    keys.push(previous);
+  }
+  return keys;
+};
+
+const matBytes = (mat: any): number => mat.total() * mat.elemSize();
+
+export const createPipelineCache = (budget = DEFAULT_CACHE_BUDGET_BYTES): PipelineCache => {
+  const entries = new Map<string, CacheEntry>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entry.mat.delete();
+      bytes -= entry.bytes;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    take: (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.mat.clone();
+    },
+    has: (key) => entries.has(key),
+    put: (key, mat, sourceId) => {
+      const size = matBytes(mat);
+      if (size > budget) {
+        return;
+      }
+      remove(key);
+      for (const oldest of entries.keys()) {
+        if (bytes + size <= budget) {
+          break;
+        }
+        remove(oldest);
+      }
+      entries.set(key, { mat: mat.clone(), bytes: size, sourceId });
+      bytes += size;
+    },
+    releaseSource: (sourceId) => {
+      for (const [key, entry] of [...entries]) {
+        if (entry.sourceId === sourceId) {
+          remove(key);
+        }
+      }
+    },
+    clear: () => {
+      for (const key of [...entries.keys()]) {
+        remove(key);
+      }
+    },
+    usage: () => ({ entries: entries.size, bytes, budget }),
+  };
+};
@@ -0,0 +1,79 @@
+import { Plane, createPlane } from './plane';
+import { sobelReplicate } from './filters';
+
+const TAN_22_5 = 0.4142135623730951;
+const TAN_67_5 = 2.414213562373095;
+
+/** Port of `cv.Canny` with a 3x3 aperture and the L1 gradient norm. */
+export const canny = (gray: Plane, threshold1: number, threshold2: number): Plane => {
+  const { width, height } = gray;
+  let low = Math.floor(threshold1);
+  let high = Math.floor(threshold2);
+  if (low > high) {
+    [low, high] = [high, low];
+  }
+
+  const dx = sobelReplicate(gray, 1, 0);
+  const dy = sobelReplicate(gray, 0, 1);
+  const magnitude = new Float32Array(width * height);
+  for (let i = 0; i < magnitude.length; i++) {
+    magnitude[i] = Math.abs(dx.data[i]) + Math.abs(dy.data[i]);
+  }
+  const mag = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : magnitude[y * width + x];
+
+  // 0: not an edge, 1: weak candidate, 2: strong edge
+  const state = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m <= low) {
+        continue;
+      }
+      const gx = dx.data[i];
+      const gy = dy.data[i];
+      const ax = Math.abs(gx);
+      const ay = Math.abs(gy);
+      let isMaximum: boolean;
+      if (ay < ax * TAN_22_5) {
+        isMaximum = m > mag(x - 1, y) && m >= mag(x + 1, y);
+      } else if (ay > ax * TAN_67_5) {
+        isMaximum = m > mag(x, y - 1) && m >= mag(x, y + 1);
+      } else {
+        const s = gx * gy < 0 ? -1 : 1;
+        isMaximum = m > mag(x - s, y - 1) && m > mag(x + s, y + 1);
+      }
+      if (isMaximum) {
+        if (m > high) {
+          state[i] = 2;
+          stack.push(i);
+        } else {
+          state[i] = 1;
+        }
+      }
+    }
+  }
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+      for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+        const n = ny * width + nx;
+        if (state[n] === 1) {
+          state[n] = 2;
+          stack.push(n);
+        }
+      }
+    }
+  }
+
+  const edges = createPlane(width, height);
+  for (let i = 0; i < state.length; i++) {
+    edges.data[i] = state[i] === 2 ? 255 : 0;
+  }
+  return edges;
+};
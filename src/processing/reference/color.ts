@@ -0,0 +1,132 @@
+import { RgbaImage } from '../backend';
+import { ColorModel } from '../colorSpaces';
+import { Plane, createPlane, saturate8 } from './plane';
+
+type Triple = [number, number, number];
+
+const HSV_SHIFT = 12;
+const YUV_SHIFT = 14;
+
+const descale = (value: number, shift: number) => (value + (1 << (shift - 1))) >> shift;
+
+// OpenCV's division tables for 8-bit RGB2HSV: saturation by value, hue by the channel spread.
+const SATURATION_DIV = Array.from({ length: 256 }, (_, v) => (v ? Math.round((255 << HSV_SHIFT) / v) : 0));
+const HUE_DIV = Array.from({ length: 256 }, (_, d) => (d ? Math.round((180 << HSV_SHIFT) / (6 * d)) : 0));
+
+/** `COLOR_RGB2HSV` for 8-bit pixels: hue in 0-179, saturation and value in 0-255. */
+const rgbToHsv = (r: number, g: number, b: number): Triple => {
+  const v = Math.max(r, g, b);
+  const diff = v - Math.min(r, g, b);
+  const s = descale(diff * SATURATION_DIV[v], HSV_SHIFT);
+  const h = v === r ? g - b : v === g ? b - r + 2 * diff : r - g + 4 * diff;
+  const hue = descale(h * HUE_DIV[diff], HSV_SHIFT);
+  return [hue < 0 ? hue + 180 : hue, s, v];
+};
+
+// Which of [v, p, q, t] becomes red, green and blue in each sixth of the hue circle.
+const HSV_SECTORS = [[0, 3, 1], [2, 0, 1], [1, 0, 3], [1, 2, 0], [3, 1, 0], [0, 1, 2]];
+
+/** `COLOR_HSV2RGB` for 8-bit pixels, which OpenCV computes in floating point. */
+const hsvToRgb = (h: number, s: number, v: number): Triple => {
+  const value = v / 255;
+  const saturation = s / 255;
+  if (saturation === 0) {
+    return [v, v, v];
+  }
+  let hue = (h * 6) / 180;
+  hue = hue >= 6 ? hue - 6 : hue;
+  const sector = Math.floor(hue);
+  const f = hue - sector;
+  const tab = [value, value * (1 - saturation), value * (1 - saturation * f), value * (1 - saturation * (1 - f))];
+  return HSV_SECTORS[sector].map((i) => saturate8(tab[i] * 255)) as Triple;
+};
+
+/** `COLOR_RGB2YCrCb` for 8-bit pixels, with OpenCV's fixed-point coefficients. */
+const rgbToYCrCb = (r: number, g: number, b: number): Triple => {
+  const y = descale(r * 4899 + g * 9617 + b * 1868, YUV_SHIFT);
+  const delta = 128 << YUV_SHIFT;
+  const cr = descale((r - y) * 11682 + delta, YUV_SHIFT);
+  const cb = descale((b - y) * 9241 + delta, YUV_SHIFT);
+  return [y, saturate8(cr), saturate8(cb)];
+};
+
+const yCrCbToRgb = (y: number, cr: number, cb: number): Triple => [
+  saturate8(y + descale((cr - 128) * 22987, YUV_SHIFT)),
+  saturate8(y + descale((cb - 128) * -5636 + (cr - 128) * -11698, YUV_SHIFT)),
+  saturate8(y + descale((cb - 128) * 29049, YUV_SHIFT)),
+];
+
+// sRGB D65 primaries, with the white point folded into X and Z.
+const WHITE_X = 0.950456;
+const WHITE_Z = 1.088754;
+const LAB_THRESHOLD = 0.008856;
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+const fromLinear = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+const labF = (t: number) => (t > LAB_THRESHOLD ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+const labFInverse = (f: number) => (f <= 7.787 * LAB_THRESHOLD + 16 / 116 ? (f - 16 / 116) / 7.787 : f ** 3);
+
+/**
+ * `COLOR_RGB2Lab` for 8-bit pixels: L scaled to 0-255, a and b offset by 128.
+ * OpenCV interpolates lookup tables here, so results can differ by a level.
+ */
+const rgbToLab = (r: number, g: number, b: number): Triple => {
+  const [lr, lg, lb] = [r, g, b].map((c) => toLinear(c / 255));
+  const x = (0.412453 * lr + 0.35758 * lg + 0.180423 * lb) / WHITE_X;
+  const y = 0.212671 * lr + 0.71516 * lg + 0.072169 * lb;
+  const z = (0.019334 * lr + 0.119193 * lg + 0.950227 * lb) / WHITE_Z;
+  const lightness = y > LAB_THRESHOLD ? 116 * Math.cbrt(y) - 16 : 903.3 * y;
+  return [
+    saturate8((lightness * 255) / 100),
+    saturate8(500 * (labF(x) - labF(y)) + 128),
+    saturate8(200 * (labF(y) - labF(z)) + 128),
+  ];
+};
+
+const labToRgb = (l: number, a: number, b: number): Triple => {
+  const lightness = (l * 100) / 255;
+  let y: number;
+  let fy: number;
+  if (lightness <= 903.3 * LAB_THRESHOLD) {
+    y = lightness / 903.3;
+    fy = 7.787 * y + 16 / 116;
+  } else {
+    fy = (lightness + 16) / 116;
+    y = fy ** 3;
+  }
+  const x = labFInverse((a - 128) / 500 + fy) * WHITE_X;
+  const z = labFInverse(fy - (b - 128) / 200) * WHITE_Z;
+  const linear = [
+    3.240479 * x - 1.53715 * y - 0.498535 * z,
+    -0.969256 * x + 1.875991 * y + 0.041556 * z,
+    0.055648 * x - 0.204043 * y + 1.057311 * z,
+  ];
+  return linear.map((c) => saturate8(fromLinear(Math.min(Math.max(c, 0), 1)) * 255)) as Triple;
+};
+
+const CONVERSIONS: Record<ColorModel, { to: (...rgb: Triple) => Triple; from: (...pixel: Triple) => Triple }> = {
+  Lab: { to: rgbToLab, from: labToRgb },
+  HSV: { to: rgbToHsv, from: hsvToRgb },
+  YCrCb: { to: rgbToYCrCb, from: yCrCbToRgb },
+};
+
+/** Converts the colour channels of an RGBA image into three 8-bit planes of `model`. */
+export const toColorSpace = (image: RgbaImage, model: ColorModel): Plane[] => {
+  const convert = CONVERSIONS[model].to;
+  const planes = [0, 1, 2].map(() => createPlane(image.width, image.height));
+  for (let p = 0, i = 0; p < image.width * image.height; p++, i += 4) {
+    convert(image.data[i], image.data[i + 1], image.data[i + 2]).forEach((value, c) => (planes[c].data[p] = value));
+  }
+  return planes;
+};
+
+/** Converts three 8-bit planes of `model` back to an opaque RGBA image. */
+export const fromColorSpace = (planes: Plane[], model: ColorModel): RgbaImage => {
+  const convert = CONVERSIONS[model].from;
+  const { width, height } = planes[0];
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0, i = 0; p < width * height; p++, i += 4) {
+    data.set([...convert(planes[0].data[p], planes[1].data[p], planes[2].data[p]), 255], i);
+  }
+  return { width, height, data };
+};
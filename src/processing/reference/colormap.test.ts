@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { colorMapRgb } from './colormap';
+
+// RGB entries of OpenCV's colour map tables, indexed by COLORMAP_* id and gray level.
+// The bundled OpenCV.js has no applyColorMap, so these stand in for comparing with it.
+const OPENCV_COLORS: Array<[string, number, number, [number, number, number]]> = [
+  ['autumn', 0, 0, [255, 0, 0]],
+  ['autumn', 0, 255, [255, 255, 0]],
+  ['bone', 1, 0, [0, 0, 0]],
+  ['bone', 1, 255, [255, 255, 255]],
+  ['spring', 7, 0, [255, 0, 255]],
+  ['spring', 7, 255, [255, 255, 0]],
+  ['cool', 8, 0, [0, 255, 255]],
+  ['cool', 8, 255, [255, 0, 255]],
+  ['hsv', 9, 0, [255, 0, 0]],
+  ['hot', 11, 255, [255, 255, 255]],
+  ['inferno', 14, 0, [0, 0, 4]],
+  ['inferno', 14, 255, [252, 255, 164]],
+  ['plasma', 15, 0, [13, 8, 135]],
+  ['plasma', 15, 255, [240, 249, 33]],
+  ['viridis', 16, 0, [68, 1, 84]],
+  ['viridis', 16, 255, [253, 231, 37]],
+];
+
+describe('colorMapRgb', () => {
+  it.each(OPENCV_COLORS)('matches OpenCV %s (%i) at gray level %i', (_, id, value, expected) => {
+    expect(colorMapRgb(id, value).map(Math.round)).toEqual(expected);
+  });
+
+  it('interpolates between the stops of a MATLAB-style map', () => {
+    // Autumn ramps green from 0 to 1 while red stays at 1.
+    expect(colorMapRgb(0, 51).map(Math.round)).toEqual([255, 51, 0]);
+    expect(colorMapRgb(7, 102).map(Math.round)).toEqual([255, 102, 153]);
+  });
+
+  it('clamps out-of-range map ids to the nearest map', () => {
+    expect(colorMapRgb(-3, 0)).toEqual(colorMapRgb(0, 0));
+    expect(colorMapRgb(99, 128)).toEqual(colorMapRgb(21, 128));
+  });
+});
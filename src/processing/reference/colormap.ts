@@ -0,0 +1,60 @@
+type Rgb = [number, number, number];
+type Stops = Array<[number, Rgb]>;
+
+const evenly = (...colors: Rgb[]): Stops => colors.map((color, i) => [i / (colors.length - 1), color]);
+const bytes = (...colors: Rgb[]): Stops =>
+  evenly(...colors.map(([r, g, b]): Rgb => [r / 255, g / 255, b / 255]));
+
+const turbo = (t: number): Rgb => [
+  0.13572138 + t * (4.6153926 + t * (-42.66032258 + t * (132.13108234 + t * (-152.94239396 + t * 59.28637943)))),
+  0.09140261 + t * (2.19418839 + t * (4.84296658 + t * (-14.18503333 + t * (4.27729857 + t * 2.82956604)))),
+  0.1066733 + t * (12.64194608 + t * (-60.58204836 + t * (110.36276771 + t * (-89.90310912 + t * 27.34824973)))),
+];
+
+// Indexed like OpenCV's COLORMAP_* constants. The simple MATLAB-style maps are
+// exact piecewise-linear definitions; the perceptual ones (Parula onwards) are
+// approximated from a handful of samples, so expect a few levels of error.
+const COLOR_MAPS: Array<Stops | ((t: number) => Rgb)> = [
+  evenly([1, 0, 0], [1, 1, 0]),
+  [[0, [0, 0, 0]], [0.375, [0.319, 0.319, 0.444]], [0.75, [0.652, 0.777, 0.777]], [1, [1, 1, 1]]],
+  [[0, [0, 0, 0.5]], [0.125, [0, 0, 1]], [0.375, [0, 1, 1]], [0.625, [1, 1, 0]], [0.875, [1, 0, 0]], [1, [0.5, 0, 0]]],
+  evenly([0, 0, 1], [0, 1, 0.5]),
+  evenly([1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 0, 1], [0.5, 0, 1]),
+  evenly([0, 0.5, 0], [0, 0, 1 / 3], [0, 0.5, 2 / 3], [1, 1, 1]),
+  evenly([0, 0.5, 0.4], [1, 1, 0.4]),
+  evenly([1, 0, 1], [1, 1, 0]),
+  evenly([0, 1, 1], [1, 0, 1]),
+  evenly([1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 1, 1], [0, 0, 1], [1, 0, 1], [1, 0, 0]),
+  [[0, [0.118, 0, 0]], [0.375, [0.765, 0.541, 0.541]], [0.75, [0.906, 0.906, 0.706]], [1, [1, 1, 1]]],
+  [[0, [0.0416, 0, 0]], [0.365, [1, 0, 0]], [0.746, [1, 1, 0]], [1, [1, 1, 1]]],
+  bytes([53, 42, 135], [4, 108, 224], [20, 181, 172], [166, 190, 60], [249, 251, 14]),
+  bytes([0, 0, 4], [81, 18, 124], [183, 55, 121], [252, 137, 97], [252, 253, 191]),
+  bytes([0, 0, 4], [87, 16, 110], [188, 55, 84], [249, 142, 9], [252, 255, 164]),
+  bytes([13, 8, 135], [126, 3, 168], [204, 71, 120], [248, 149, 64], [240, 249, 33]),
+  bytes([68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]),
+  bytes([0, 32, 77], [65, 77, 107], [124, 123, 120], [188, 175, 111], [255, 234, 70]),
+  bytes([226, 217, 226], [94, 128, 185], [47, 20, 54], [177, 80, 60], [226, 217, 226]),
+  bytes([47, 20, 54], [177, 80, 60], [226, 217, 226], [94, 128, 185], [47, 20, 54]),
+  turbo,
+  bytes([0, 0, 0], [18, 60, 32], [30, 128, 64], [110, 196, 120], [222, 255, 222]),
+];
+
+/** RGB colour in `[0, 255]` that OpenCV colour map `id` assigns to gray level `value`. */
+export const colorMapRgb = (id: number, value: number): Rgb => {
+  const map = COLOR_MAPS[Math.min(Math.max(Math.round(id), 0), COLOR_MAPS.length - 1)];
+  const t = value / 255;
+  let color: Rgb;
+  if (typeof map === 'function') {
+    color = map(t);
+  } else {
+    let i = 1;
+    while (i < map.length - 1 && map[i][0] < t) {
+      i++;
+    }
+    const [t0, c0] = map[i - 1];
+    const [t1, c1] = map[i];
+    const f = t1 > t0 ? Math.min(Math.max((t - t0) / (t1 - t0), 0), 1) : 0;
+    color = [0, 1, 2].map((c) => c0[c] + (c1[c] - c0[c]) * f) as Rgb;
+  }
+  return color.map((c) => Math.min(Math.max(c, 0), 1) * 255) as Rgb;
+};
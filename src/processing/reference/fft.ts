@@ -0,0 +1,137 @@
+const isPowerOfTwo = (n: number) => (n & (n - 1)) === 0;
+
+const radix2 = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// Bluestein's algorithm re-expresses an arbitrary-length DFT as a convolution
+// that can be evaluated with power-of-two transforms.
+const bluestein = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  let m = 1;
+  while (m < 2 * n - 1) {
+    m <<= 1;
+  }
+  const sign = inverse ? 1 : -1;
+  const cosTable = new Float64Array(n);
+  const sinTable = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const angle = (sign * Math.PI * ((k * k) % (2 * n))) / n;
+    cosTable[k] = Math.cos(angle);
+    sinTable[k] = Math.sin(angle);
+  }
+  const aRe = new Float64Array(m);
+  const aIm = new Float64Array(m);
+  const bRe = new Float64Array(m);
+  const bIm = new Float64Array(m);
+  for (let k = 0; k < n; k++) {
+    aRe[k] = re[k] * cosTable[k] - im[k] * sinTable[k];
+    aIm[k] = re[k] * sinTable[k] + im[k] * cosTable[k];
+  }
+  bRe[0] = cosTable[0];
+  bIm[0] = -sinTable[0];
+  for (let k = 1; k < n; k++) {
+    bRe[k] = bRe[m - k] = cosTable[k];
+    bIm[k] = bIm[m - k] = -sinTable[k];
+  }
+  radix2(aRe, aIm, false);
+  radix2(bRe, bIm, false);
+  for (let k = 0; k < m; k++) {
+    const r = aRe[k] * bRe[k] - aIm[k] * bIm[k];
+    aIm[k] = aRe[k] * bIm[k] + aIm[k] * bRe[k];
+    aRe[k] = r;
+  }
+  radix2(aRe, aIm, true);
+  for (let k = 0; k < n; k++) {
+    const r = aRe[k] / m;
+    const i = aIm[k] / m;
+    re[k] = r * cosTable[k] - i * sinTable[k];
+    im[k] = r * sinTable[k] + i * cosTable[k];
+  }
+};
+
+/** In-place unscaled DFT of any length. */
+export const fft = (re: Float64Array, im: Float64Array, inverse = false) => {
+  if (re.length <= 1) {
+    return;
+  }
+  if (isPowerOfTwo(re.length)) {
+    radix2(re, im, inverse);
+  } else {
+    bluestein(re, im, inverse);
+  }
+};
+
+/** In-place unscaled 2D DFT of a row-major `width x height` complex image. */
+export const fft2D = (re: Float64Array, im: Float64Array, width: number, height: number, inverse = false) => {
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    rowRe.set(re.subarray(y * width, (y + 1) * width));
+    rowIm.set(im.subarray(y * width, (y + 1) * width));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, y * width);
+    im.set(rowIm, y * width);
+  }
+  const colRe = new Float64Array(height);
+  const colIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      colRe[y] = re[y * width + x];
+      colIm[y] = im[y * width + x];
+    }
+    fft(colRe, colIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = colRe[y];
+      im[y * width + x] = colIm[y];
+    }
+  }
+};
+
+/** Smallest size >= `size` whose only prime factors are 2, 3 and 5, like `cv.getOptimalDFTSize`. */
+export const getOptimalDFTSize = (size: number): number => {
+  for (let n = Math.max(size, 1); ; n++) {
+    let m = n;
+    for (const factor of [2, 3, 5]) {
+      while (m % factor === 0) {
+        m /= factor;
+      }
+    }
+    if (m === 1) {
+      return n;
+    }
+  }
+};
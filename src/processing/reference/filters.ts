@@ -0,0 +1,171 @@
+import { Depth } from '../formats';
+import { Plane, createPlane, reflect101, replicate, saturate8 } from './plane';
+
+export type BorderFn = (index: number, size: number) => number;
+
+// Kernels OpenCV uses instead of sampling the Gaussian for small sizes with sigma <= 0.
+const SMALL_GAUSSIAN_KERNELS: Record<number, number[]> = {
+  1: [1],
+  3: [0.25, 0.5, 0.25],
+  5: [0.0625, 0.25, 0.375, 0.25, 0.0625],
+  7: [0.03125, 0.109375, 0.21875, 0.28125, 0.21875, 0.109375, 0.03125],
+};
+
+export const getGaussianKernel = (size: number, sigma: number): number[] => {
+  if (size % 2 === 1 && size <= 7 && sigma <= 0) {
+    return SMALL_GAUSSIAN_KERNELS[size];
+  }
+  const s = sigma > 0 ? sigma : ((size - 1) * 0.5 - 1) * 0.3 + 0.8;
+  const kernel = Array.from({ length: size }, (_, i) => {
+    const x = i - (size - 1) * 0.5;
+    return Math.exp(-(x * x) / (2 * s * s));
+  });
+  const sum = kernel.reduce((a, b) => a + b, 0);
+  return kernel.map((value) => value / sum);
+};
+
+/** Kernel size OpenCV derives when GaussianBlur is given `Size(0, 0)`; float images get a wider window. */
+export const gaussianKernelSizeForSigma = (sigma: number, depth: Depth = '8U'): number =>
+  Math.round(sigma * (depth === '8U' ? 3 : 4) * 2 + 1) | 1;
+
+/** Separable correlation; `kx` runs along rows and `ky` along columns. */
+export const sepFilter = (src: Plane, kx: number[], ky: number[], border: BorderFn = reflect101): Plane => {
+  const { width, height } = src;
+  const rx = (kx.length - 1) >> 1;
+  const ry = (ky.length - 1) >> 1;
+  const tmp = createPlane(width, height);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < kx.length; k++) {
+        sum += kx[k] * src.data[row + border(x + k - rx, width)];
+      }
+      tmp.data[row + x] = sum;
+    }
+  }
+  const dst = createPlane(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < ky.length; k++) {
+        sum += ky[k] * tmp.data[border(y + k - ry, height) * width + x];
+      }
+      dst.data[y * width + x] = sum;
+    }
+  }
+  return dst;
+};
+
+/** Dense 2D correlation anchored at the kernel centre, like `cv.filter2D`; a border index of -1 reads zero. */
+export const filter2D = (src: Plane, kernel: Plane, border: BorderFn = reflect101): Plane => {
+  const { width, height } = src;
+  const rx = (kernel.width - 1) >> 1;
+  const ry = (kernel.height - 1) >> 1;
+  const dst = createPlane(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let ky = 0; ky < kernel.height; ky++) {
+        const sy = border(y + ky - ry, height);
+        for (let kx = 0; kx < kernel.width; kx++) {
+          const sx = border(x + kx - rx, width);
+          if (sy >= 0 && sx >= 0) {
+            sum += kernel.data[ky * kernel.width + kx] * src.data[sy * width + sx];
+          }
+        }
+      }
+      dst.data[y * width + x] = sum;
+    }
+  }
+  return dst;
+};
+
+/** GaussianBlur; `ksize` 0 derives the size from sigma. 8-bit results are saturated. */
+export const gaussianBlur = (src: Plane, ksize: number, sigma: number, depth: Depth = '8U'): Plane => {
+  const size = ksize > 0 ? ksize : gaussianKernelSizeForSigma(sigma, depth);
+  const kernel = getGaussianKernel(size, sigma);
+  const blurred = sepFilter(src, kernel, kernel);
+  if (depth === '8U') {
+    for (let i = 0; i < blurred.data.length; i++) {
+      blurred.data[i] = saturate8(blurred.data[i]);
+    }
+  }
+  return blurred;
+};
+
+/** Port of OpenCV's `getSobelKernels` derivative/smoothing coefficients. */
+export const getDerivKernel = (order: number, size: number): number[] => {
+  const kernel = new Array<number>(size + 1).fill(0);
+  kernel[0] = 1;
+  for (let i = 0; i < size - order - 1; i++) {
+    let previous = kernel[0];
+    for (let j = 1; j <= size; j++) {
+      const next = kernel[j] + kernel[j - 1];
+      kernel[j - 1] = previous;
+      previous = next;
+    }
+  }
+  for (let i = 0; i < order; i++) {
+    let previous = -kernel[0];
+    for (let j = 1; j <= size; j++) {
+      const next = kernel[j - 1] - kernel[j];
+      kernel[j - 1] = previous;
+      previous = next;
+    }
+  }
+  return kernel.slice(0, size);
+};
+
+export const sobel = (src: Plane, dx: number, dy: number, size = 3, border: BorderFn = reflect101): Plane =>
+  sepFilter(src, getDerivKernel(dx, size), getDerivKernel(dy, size), border);
+
+export const sobelReplicate = (src: Plane, dx: number, dy: number): Plane => sobel(src, dx, dy, 3, replicate);
+
+/** Unsaturated Laplacian response, scaled. */
+export const laplacian = (src: Plane, ksize: number, scale: number): Plane => {
+  let response: Plane;
+  if (ksize <= 3) {
+    const kernel = ksize === 1 ? [0, 1, 0, 1, -4, 1, 0, 1, 0] : [2, 0, 2, 0, -8, 0, 2, 0, 2];
+    response = filter2D(src, { width: 3, height: 3, data: Float32Array.from(kernel) });
+  } else {
+    const d2x = sobel(src, 2, 0, ksize);
+    const d2y = sobel(src, 0, 2, ksize);
+    response = createPlane(src.width, src.height);
+    for (let i = 0; i < response.data.length; i++) {
+      response.data[i] = d2x.data[i] + d2y.data[i];
+    }
+  }
+  for (let i = 0; i < response.data.length; i++) {
+    response.data[i] *= scale;
+  }
+  return response;
+};
+
+/** Port of `cv.getGaborKernel`; like OpenCV, an even size yields a `size + 1` kernel. */
+export const getGaborKernel = (
+  size: number,
+  sigma: number,
+  theta: number,
+  lambda: number,
+  gamma: number,
+  psi: number
+): Plane => {
+  const half = Math.floor(size / 2);
+  const kernel = createPlane(2 * half + 1, 2 * half + 1);
+  const sigmaX = sigma;
+  const sigmaY = sigma / gamma;
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  const ex = -0.5 / (sigmaX * sigmaX);
+  const ey = -0.5 / (sigmaY * sigmaY);
+  const cscale = (Math.PI * 2) / lambda;
+  for (let y = -half; y <= half; y++) {
+    for (let x = -half; x <= half; x++) {
+      const xr = x * c + y * s;
+      const yr = -x * s + y * c;
+      kernel.data[(half - y) * kernel.width + (half - x)] = Math.exp(ex * xr * xr + ey * yr * yr) * Math.cos(cscale * xr + psi);
+    }
+  }
+  return kernel;
+};
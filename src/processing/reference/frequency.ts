@@ -0,0 +1,67 @@
+import { FOURIER_VIEWS } from '../frequency';
+import { fft2D, getOptimalDFTSize } from './fft';
+import { Plane, createPlane, normalizeMinMax, reflect101, resizeLinear } from './plane';
+
+/** Forward DFT of `plane` padded by reflection to `width` x `height`, like the OpenCV path's `padForDft`. */
+const paddedDft = (plane: Plane, width: number, height: number) => {
+  const re = new Float64Array(width * height);
+  const im = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = reflect101(y, plane.height) * plane.width;
+    for (let x = 0; x < width; x++) {
+      re[y * width + x] = plane.data[row + reflect101(x, plane.width)];
+    }
+  }
+  fft2D(re, im, width, height);
+  return { re, im };
+};
+
+/** Mirrors the OpenCV `fourierView`: centred log-magnitude or phase, resampled to the input size. */
+export const fourierView = (gray: Plane, view: number): Plane => {
+  const width = getOptimalDFTSize(gray.width);
+  const height = getOptimalDFTSize(gray.height);
+  const { re, im } = paddedDft(gray, width, height);
+  const phase = FOURIER_VIEWS[view] === 'Phase';
+  const shifted = createPlane(width, height);
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const value = phase ? Math.atan2(im[i], re[i]) : Math.log(1 + Math.hypot(re[i], im[i]));
+      shifted.data[((y + cy) % height) * width + ((x + cx) % width)] =
+        phase && value < 0 ? value + 2 * Math.PI : value;
+    }
+  }
+  const resized = resizeLinear(shifted, gray.width, gray.height);
+  if (!phase) {
+    return normalizeMinMax(resized);
+  }
+  for (let i = 0; i < resized.data.length; i++) {
+    resized.data[i] *= 255 / (2 * Math.PI);
+  }
+  return resized;
+};
+
+/** Mirrors the OpenCV `filterFrequencies` for one channel. */
+export const filterFrequencies = (
+  plane: Plane,
+  response: (width: number, height: number) => Float32Array
+): Plane => {
+  const width = getOptimalDFTSize(plane.width);
+  const height = getOptimalDFTSize(plane.height);
+  const gain = response(width, height);
+  const { re, im } = paddedDft(plane, width, height);
+  for (let i = 0; i < gain.length; i++) {
+    re[i] *= gain[i];
+    im[i] *= gain[i];
+  }
+  fft2D(re, im, width, height, true);
+  const filtered = createPlane(plane.width, plane.height);
+  for (let y = 0; y < plane.height; y++) {
+    for (let x = 0; x < plane.width; x++) {
+      filtered.data[y * plane.width + x] = re[y * width + x] / (width * height);
+    }
+  }
+  return filtered;
+};
@@ -0,0 +1,117 @@
+import { Plane, createPlane, reflect101, saturate8 } from './plane';
+
+const histogram = (plane: Plane, x0 = 0, y0 = 0, w = plane.width, h = plane.height): Int32Array => {
+  const hist = new Int32Array(256);
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      hist[plane.data[y * plane.width + x]]++;
+    }
+  }
+  return hist;
+};
+
+const applyLut = (plane: Plane, lut: Uint8Array): Plane => {
+  const out = createPlane(plane.width, plane.height);
+  for (let i = 0; i < plane.data.length; i++) {
+    out.data[i] = lut[plane.data[i]];
+  }
+  return out;
+};
+
+/** Port of `cv.equalizeHist` for an 8-bit plane. */
+export const equalizeHist = (plane: Plane): Plane => {
+  const hist = histogram(plane);
+  const total = plane.data.length;
+  const lut = new Uint8Array(256);
+  let i = 0;
+  while (i < 255 && hist[i] === 0) {
+    i++;
+  }
+  if (hist[i] === total) {
+    return applyLut(plane, lut.fill(i));
+  }
+  const scale = 255 / (total - hist[i]);
+  let sum = 0;
+  for (i++; i < 256; i++) {
+    sum += hist[i];
+    lut[i] = saturate8(sum * scale);
+  }
+  return applyLut(plane, lut);
+};
+
+/** Port of OpenCV's CLAHE; `tiles` is the grid size, not the tile size in pixels. */
+export const clahe = (plane: Plane, clipLimit: number, tiles: number): Plane => {
+  const { width, height } = plane;
+  let source = plane;
+  if (width % tiles !== 0 || height % tiles !== 0) {
+    // OpenCV always pads both axes here, even one that already divides evenly.
+    source = createPlane(width + tiles - (width % tiles), height + tiles - (height % tiles));
+    for (let y = 0; y < source.height; y++) {
+      for (let x = 0; x < source.width; x++) {
+        source.data[y * source.width + x] = plane.data[reflect101(y, height) * width + reflect101(x, width)];
+      }
+    }
+  }
+  const tileWidth = source.width / tiles;
+  const tileHeight = source.height / tiles;
+  const tileArea = tileWidth * tileHeight;
+  const lutScale = 255 / tileArea;
+  const clip = clipLimit > 0 ? Math.max(Math.floor((clipLimit * tileArea) / 256), 1) : 0;
+
+  const luts: Uint8Array[] = [];
+  for (let ty = 0; ty < tiles; ty++) {
+    for (let tx = 0; tx < tiles; tx++) {
+      const hist = histogram(source, tx * tileWidth, ty * tileHeight, tileWidth, tileHeight);
+      if (clip > 0) {
+        let clipped = 0;
+        for (let i = 0; i < 256; i++) {
+          if (hist[i] > clip) {
+            clipped += hist[i] - clip;
+            hist[i] = clip;
+          }
+        }
+        const batch = Math.floor(clipped / 256);
+        let residual = clipped - batch * 256;
+        for (let i = 0; i < 256; i++) {
+          hist[i] += batch;
+        }
+        if (residual > 0) {
+          const step = Math.max(Math.floor(256 / residual), 1);
+          for (let i = 0; i < 256 && residual > 0; i += step, residual--) {
+            hist[i]++;
+          }
+        }
+      }
+      const lut = new Uint8Array(256);
+      let sum = 0;
+      for (let i = 0; i < 256; i++) {
+        sum += hist[i];
+        lut[i] = saturate8(sum * lutScale);
+      }
+      luts.push(lut);
+    }
+  }
+
+  const out = createPlane(width, height);
+  for (let y = 0; y < height; y++) {
+    const tyf = y / tileHeight - 0.5;
+    let ty1 = Math.floor(tyf);
+    let ty2 = ty1 + 1;
+    const ya = tyf - ty1;
+    ty1 = Math.max(ty1, 0);
+    ty2 = Math.min(ty2, tiles - 1);
+    for (let x = 0; x < width; x++) {
+      const txf = x / tileWidth - 0.5;
+      let tx1 = Math.floor(txf);
+      let tx2 = tx1 + 1;
+      const xa = txf - tx1;
+      tx1 = Math.max(tx1, 0);
+      tx2 = Math.min(tx2, tiles - 1);
+      const value = plane.data[y * width + x];
+      const top = luts[ty1 * tiles + tx1][value] * (1 - xa) + luts[ty1 * tiles + tx2][value] * xa;
+      const bottom = luts[ty2 * tiles + tx1][value] * (1 - xa) + luts[ty2 * tiles + tx2][value] * xa;
+      out.data[y * width + x] = saturate8(top * (1 - ya) + bottom * ya);
+    }
+  }
+  return out;
+};
@@ -0,0 +1,222 @@
+import { BuiltInOption, ProcessingParams } from '../../types';
+import { ProcessingBackend, RgbaImage } from '../backend';
+import { BOOST_SPACES, LIGHTNESS_CHANNELS, boostHsv, equalizeSpace } from '../colorSpaces';
+import { stepFormat } from '../formats';
+import { frequencyResponse } from '../frequency';
+import { combineGaborBank, gaborBank, gaborPhases, orientationStrength } from '../gabor';
+import { BORDER_MODES, normalizedKernel } from '../kernel';
+import { StepReporter, getOperation } from '../registry';
+import { canny } from './canny';
+import { fromColorSpace, toColorSpace } from './color';
+import { colorMapRgb } from './colormap';
+import { BorderFn, filter2D, gaussianBlur, getGaborKernel, laplacian } from './filters';
+import { filterFrequencies, fourierView } from './frequency';
+import { clahe, equalizeHist } from './histogram';
+import { compositeMasked } from './mask';
+import { morphologyEx } from './morphology';
+import {
+  Plane,
+  constantBorder,
+  createPlane,
+  grayToRgba,
+  mapPlane,
+  mergeChannels,
+  reflect,
+  reflect101,
+  replicate,
+  saturate8,
+  splitChannels,
+  toGray,
+  zipPlanes,
+} from './plane';
+import { threshold } from './threshold';
+
+const BORDERS: Record<(typeof BORDER_MODES)[number], BorderFn> = {
+  'Reflect 101': reflect101,
+  Reflect: reflect,
+  Replicate: replicate,
+  'Constant (zero)': constantBorder,
+};
+
+const multiScaleRetinex = (image: RgbaImage, scales: number[]): RgbaImage => {
+  const responses = splitChannels(image).slice(0, 3).map((channel) => {
+    const response = createPlane(channel.width, channel.height);
+    for (const scale of scales) {
+      const blurred = gaussianBlur(channel, 0, scale, '32F');
+      for (let i = 0; i < response.data.length; i++) {
+        response.data[i] += Math.log(channel.data[i] + 1) - Math.log(blurred.data[i] + 1);
+      }
+    }
+    return response;
+  });
+  let min = Infinity;
+  let max = -Infinity;
+  for (const response of responses) {
+    for (const value of response.data) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  const scale = max > min ? 255 / (max - min) : 0;
+  return mergeChannels(responses.map((response) => mapPlane(response, (v) => (v - min) * scale)));
+};
+
+/** Equalizes the gray image, or only the brightness channel of the chosen colour space. */
+const equalizeBrightness = (image: RgbaImage, params: ProcessingParams, equalize: (plane: Plane) => Plane) => {
+  const space = equalizeSpace(params);
+  if (!space) {
+    return grayToRgba(equalize(toGray(image)));
+  }
+  const { model, channel } = LIGHTNESS_CHANNELS[space];
+  const planes = toColorSpace(image, model);
+  planes[channel] = equalize(planes[channel]);
+  return fromColorSpace(planes, model);
+};
+
+const boostInHsv = (image: RgbaImage, params: ProcessingParams): RgbaImage => {
+  const planes = toColorSpace(image, 'HSV');
+  const hsv = new Uint8Array(image.width * image.height * 3);
+  planes.forEach((plane, c) => plane.data.forEach((value, p) => (hsv[p * 3 + c] = value)));
+  boostHsv(hsv, params);
+  planes.forEach((plane, c) => plane.data.forEach((_, p) => (plane.data[p] = hsv[p * 3 + c])));
+  return fromColorSpace(planes, 'HSV');
+};
+
+const gaborBankResponse = (image: RgbaImage, params: ProcessingParams): RgbaImage => {
+  const gray = toGray(image);
+  const strengths = gaborBank(params).map((kernels) =>
+    orientationStrength(
+      params,
+      kernels.flatMap(({ size, sigma, theta, lambda }) =>
+        gaborPhases(params).map(
+          (psi) => filter2D(gray, getGaborKernel(size, sigma, theta, lambda, params.gaborGamma, psi)).data
+        )
+      )
+    )
+  );
+  const rgb = combineGaborBank(params, strengths);
+  const planes = [0, 1, 2].map((c) => {
+    const plane = createPlane(gray.width, gray.height);
+    plane.data.forEach((_, p) => (plane.data[p] = rgb[p * 3 + c]));
+    return plane;
+  });
+  return mergeChannels(planes);
+};
+
+/**
+ * Pure TypeScript implementation of the built-in operations over RGBA pixels.
+ * It follows the OpenCV path's arithmetic (fixed-point gray conversion,
+ * REFLECT_101 borders, saturating casts) and the conversions implied by
+ * builtInFormat, so results can be compared with it within a small tolerance.
+ */
+export const applyReferenceStep = (
+  image: RgbaImage,
+  option: BuiltInOption,
+  params: ProcessingParams,
+  report: StepReporter
+): RgbaImage => {
+  switch (option) {
+    case 'Histogram Equalization':
+      return equalizeBrightness(image, params, equalizeHist);
+    case 'Adaptive Histogram Equalization':
+      return equalizeBrightness(image, params, (plane) => clahe(plane, params.clipLimit, params.tileSize));
+    case 'Edge Detection':
+      return grayToRgba(canny(toGray(image), params.threshold1, params.threshold2));
+    case 'Unsharp Masking':
+      return mergeChannels(splitChannels(image).map((channel) =>
+        zipPlanes(channel, gaussianBlur(channel, 0, params.sigma), (v, blurred) =>
+          v * (1 + params.amount) - blurred * params.amount)));
+    case 'High-Pass Filtering':
+      return mergeChannels(splitChannels(image).slice(0, 3).map((channel) =>
+        zipPlanes(channel, gaussianBlur(channel, params.kernelSize, 0), (v, lowPass) => v - lowPass)));
+    case 'Laplacian Filtering':
+      return grayToRgba(laplacian(toGray(image), params.kernelSize, params.scale));
+    case 'Custom Kernel': {
+      const weights = normalizedKernel(params);
+      const kernel = createPlane(weights.length, weights.length);
+      kernel.data.set(weights.flat());
+      const border = BORDERS[BORDER_MODES[params.borderMode]];
+      return mergeChannels(splitChannels(image).slice(0, 3).map((channel) =>
+        mapPlane(filter2D(channel, kernel, border), (v) => v + params.kernelOffset)));
+    }
+    case 'Color Inversion':
+      return mergeChannels(splitChannels(image).slice(0, 3).map((channel) => mapPlane(channel, (v) => 255 - v)));
+    case 'Thresholding':
+      return grayToRgba(threshold(toGray(image), params, report));
+    case 'Morphology': {
+      const { morphOperation, structuringShape, structuringSize, morphIterations } = params;
+      return mergeChannels(splitChannels(image).slice(0, 3).map((channel) =>
+        morphologyEx(channel, morphOperation, structuringShape, structuringSize, morphIterations)));
+    }
+    case 'Pseudocolor Mapping': {
+      const gray = toGray(image);
+      const colors = Array.from({ length: 256 }, (_, v) => colorMapRgb(params.colorMap, v));
+      return mergeChannels([0, 1, 2].map((c) => mapPlane(gray, (v) => colors[v][c])));
+    }
+    case 'Fourier Transform':
+      return grayToRgba(fourierView(toGray(image), params.fourierView));
+    case 'Frequency Filter':
+    case 'Notch Filter': {
+      const response = (width: number, height: number) =>
+        frequencyResponse(option, params, width, height, image.width, image.height);
+      return mergeChannels(splitChannels(image).slice(0, 3).map((channel) => filterFrequencies(channel, response)));
+    }
+    case 'Color Boosting': {
+      if (BOOST_SPACES[params.boostSpace] === 'HSV') {
+        return boostInHsv(image, params);
+      }
+      const channels = splitChannels(image).slice(0, 3);
+      return mergeChannels(channels.map((channel, c) => mapPlane(channel, (v) => saturate8(v * params.boostFactor[c]))));
+    }
+    case 'Channel Mixing Simulation': {
+      // Every row reads the original channels; the sum is only clipped at the end.
+      const channels = splitChannels(image).slice(0, 3);
+      return mergeChannels(
+        params.mixFactors.map(([f0, f1, f2]) => {
+          const mixed = createPlane(image.width, image.height);
+          for (let p = 0; p < mixed.data.length; p++) {
+            mixed.data[p] = saturate8(channels[0].data[p] * f0 + channels[1].data[p] * f1 + channels[2].data[p] * f2);
+          }
+          return mixed;
+        })
+      );
+    }
+    case 'Manual Colorization': {
+      const gray = toGray(image);
+      return mergeChannels(params.colorTint.map((tint) => mapPlane(gray, (v) => v + tint)));
+    }
+    case 'Multi-Scale Retinex':
+      return multiScaleRetinex(image, params.retinexScales);
+    case 'Gabor Filter': {
+      const kernel = getGaborKernel(
+        params.gaborKernelSize,
+        params.gaborSigma,
+        params.gaborTheta,
+        params.gaborLambda,
+        params.gaborGamma,
+        params.gaborPsi
+      );
+      return grayToRgba(filter2D(toGray(image), kernel));
+    }
+    case 'Gabor Bank':
+      return gaborBankResponse(image, params);
+    default:
+      throw new Error(`Unknown processing option: ${option}`);
+  }
+};
+
+/**
+ * Runs every step through its operation's `applyImage`, so it works anywhere
+ * without OpenCV.js; built-ins use applyReferenceStep.
+ */
+export const referenceBackend: ProcessingBackend = {
+  name: 'reference',
+  applyStep: (image, step, report = () => {}) => {
+    const { applyImage } = getOperation(step.option);
+    if (!applyImage) {
+      throw new Error(`Processing option "${step.option}" only has an OpenCV implementation.`);
+    }
+    const output = applyImage(image, step.params, report);
+    return step.mask ? compositeMasked(image, output, stepFormat(step).produces, step.mask) : output;
+  },
+};
@@ -0,0 +1,45 @@
+import { StepMask } from '../../types';
+import { RgbaImage } from '../backend';
+import { ImageFormat } from '../formats';
+import { featherSigma, rasterizeShape } from '../mask';
+import { gaussianBlur } from './filters';
+import { Plane, createPlane, grayToRgba, mapPlane, mergeChannels, saturate8, splitChannels, toGray } from './plane';
+
+const maskWeights = (mask: StepMask, image: RgbaImage): Plane => {
+  let weights: Plane;
+  if (mask.shape.type === 'threshold') {
+    const threshold = Math.floor(mask.shape.threshold);
+    weights = mapPlane(toGray(image), (v) => (v > threshold ? 1 : 0));
+  } else {
+    weights = createPlane(image.width, image.height);
+    weights.data.set(rasterizeShape(mask.shape, image.width, image.height));
+  }
+  if (mask.invert) {
+    weights = mapPlane(weights, (v) => 1 - v);
+  }
+  const sigma = featherSigma(mask, image.width, image.height);
+  return sigma > 0 ? gaussianBlur(weights, 0, sigma, '32F') : weights;
+};
+
+/** The step input as the OpenCV path sees it once converted to the step's output format. */
+const inFormat = (image: RgbaImage, format: ImageFormat): RgbaImage => {
+  switch (format.channels) {
+    case 1:
+      return grayToRgba(toGray(image));
+    case 3:
+      return mergeChannels(splitChannels(image).slice(0, 3));
+    default:
+      return image;
+  }
+};
+
+/** Mirrors `compositeMasked`: `input + (output - input) * weight` per channel. */
+export const compositeMasked = (input: RgbaImage, output: RgbaImage, produces: ImageFormat, mask: StepMask): RgbaImage => {
+  const before = inFormat(input, produces).data;
+  const weights = maskWeights(mask, input).data;
+  const data = new Uint8ClampedArray(output.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = saturate8(before[i] + (output.data[i] - before[i]) * weights[i >> 2]);
+  }
+  return { width: output.width, height: output.height, data };
+};
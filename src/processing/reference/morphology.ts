@@ -0,0 +1,79 @@
+import { MORPH_OPERATIONS, STRUCTURING_SHAPES } from '../morphology';
+import { Plane, createPlane, zipPlanes } from './plane';
+
+/** Port of `cv.getStructuringElement` for a `size` x `size` element anchored at its centre. */
+export const getStructuringElement = (shape: number, size: number): Uint8Array => {
+  const element = new Uint8Array(size * size);
+  const r = Math.floor(size / 2);
+  for (let y = 0; y < size; y++) {
+    let x0 = 0;
+    let x1 = size;
+    if (STRUCTURING_SHAPES[shape] === 'Cross' && y !== r) {
+      x0 = r;
+      x1 = r + 1;
+    } else if (STRUCTURING_SHAPES[shape] === 'Ellipse') {
+      const dy = y - r;
+      const dx = r ? Math.round(r * Math.sqrt((r * r - dy * dy) / (r * r))) : 0;
+      x0 = Math.max(r - dx, 0);
+      x1 = Math.min(r + dx + 1, size);
+    }
+    element.fill(1, y * size + x0, y * size + x1);
+  }
+  return element;
+};
+
+/** Minimum (erode) or maximum (dilate) over the element; samples beyond the border are skipped. */
+const extremum = (src: Plane, element: Uint8Array, size: number, dilate: boolean): Plane => {
+  const { width, height } = src;
+  const r = Math.floor(size / 2);
+  const dst = createPlane(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = dilate ? 0 : 255;
+      for (let ky = 0; ky < size; ky++) {
+        const sy = y + ky - r;
+        if (sy < 0 || sy >= height) {
+          continue;
+        }
+        for (let kx = 0; kx < size; kx++) {
+          const sx = x + kx - r;
+          if (element[ky * size + kx] && sx >= 0 && sx < width) {
+            const sample = src.data[sy * width + sx];
+            value = dilate ? Math.max(value, sample) : Math.min(value, sample);
+          }
+        }
+      }
+      dst.data[y * width + x] = value;
+    }
+  }
+  return dst;
+};
+
+/** Port of `cv.morphologyEx` on an 8-bit plane, with the default constant border. */
+export const morphologyEx = (src: Plane, operation: number, shape: number, size: number, iterations: number): Plane => {
+  const element = getStructuringElement(shape, size);
+  const repeat = (plane: Plane, dilate: boolean) => {
+    for (let i = 0; i < iterations; i++) {
+      plane = extremum(plane, element, size, dilate);
+    }
+    return plane;
+  };
+  const erode = (plane: Plane) => repeat(plane, false);
+  const dilate = (plane: Plane) => repeat(plane, true);
+  switch (MORPH_OPERATIONS[operation]) {
+    case 'Erode':
+      return erode(src);
+    case 'Dilate':
+      return dilate(src);
+    case 'Open':
+      return dilate(erode(src));
+    case 'Close':
+      return erode(dilate(src));
+    case 'Gradient':
+      return zipPlanes(dilate(src), erode(src), (a, b) => a - b);
+    case 'Top-hat':
+      return zipPlanes(src, dilate(erode(src)), (a, b) => a - b);
+    case 'Black-hat':
+      return zipPlanes(erode(dilate(src)), src, (a, b) => a - b);
+  }
+};
@@ -0,0 +1,140 @@
+import { RgbaImage } from '../backend';
+
+/** A single channel of floating point samples. */
+export interface Plane {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export const createPlane = (width: number, height: number): Plane => ({
+  width,
+  height,
+  data: new Float32Array(width * height),
+});
+
+/** Equivalent of OpenCV's `saturate_cast<uchar>`. */
+export const saturate8 = (value: number): number => {
+  if (value <= 0) {
+    return 0;
+  }
+  return value >= 255 ? 255 : Math.round(value);
+};
+
+/** Maps an out-of-range index back into `[0, size)` like `BORDER_REFLECT_101`. */
+export const reflect101 = (index: number, size: number): number => {
+  if (size === 1) {
+    return 0;
+  }
+  while (index < 0 || index >= size) {
+    index = index < 0 ? -index : 2 * size - 2 - index;
+  }
+  return index;
+};
+
+export const replicate = (index: number, size: number): number => Math.min(Math.max(index, 0), size - 1);
+
+/** `BORDER_REFLECT`, which repeats the edge sample: `ba|abcd|dc`. */
+export const reflect = (index: number, size: number): number => {
+  while (index < 0 || index >= size) {
+    index = index < 0 ? -index - 1 : 2 * size - 1 - index;
+  }
+  return index;
+};
+
+/** `BORDER_CONSTANT`: out-of-range indices map to -1, which readers treat as a zero sample. */
+export const constantBorder = (index: number, size: number): number => (index >= 0 && index < size ? index : -1);
+
+export const splitChannels = (image: RgbaImage): Plane[] => {
+  const planes = [0, 1, 2, 3].map(() => createPlane(image.width, image.height));
+  for (let i = 0, p = 0; p < image.width * image.height; p++) {
+    for (let c = 0; c < 4; c++, i++) {
+      planes[c].data[p] = image.data[i];
+    }
+  }
+  return planes;
+};
+
+/** Merges 8-bit planes (saturating each sample) into RGBA; missing alpha is opaque. */
+export const mergeChannels = (planes: Plane[]): RgbaImage => {
+  const { width, height } = planes[0];
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, p = 0; p < width * height; p++) {
+    for (let c = 0; c < 4; c++, i++) {
+      data[i] = c < planes.length ? saturate8(planes[c].data[p]) : 255;
+    }
+  }
+  return { width, height, data };
+};
+
+export const grayToRgba = (gray: Plane): RgbaImage => mergeChannels([gray, gray, gray]);
+
+/** `COLOR_RGBA2GRAY` using OpenCV's fixed-point BT.601 coefficients (15 fractional bits for 8-bit input). */
+export const toGray = (image: RgbaImage): Plane => {
+  const gray = createPlane(image.width, image.height);
+  for (let p = 0, i = 0; p < gray.data.length; p++, i += 4) {
+    gray.data[p] = (image.data[i] * 9798 + image.data[i + 1] * 19235 + image.data[i + 2] * 3735 + 16384) >> 15;
+  }
+  return gray;
+};
+
+export const mapPlane = (plane: Plane, fn: (value: number) => number): Plane => {
+  const out = createPlane(plane.width, plane.height);
+  for (let i = 0; i < plane.data.length; i++) {
+    out.data[i] = fn(plane.data[i]);
+  }
+  return out;
+};
+
+export const zipPlanes = (a: Plane, b: Plane, fn: (x: number, y: number) => number): Plane => {
+  const out = createPlane(a.width, a.height);
+  for (let i = 0; i < a.data.length; i++) {
+    out.data[i] = fn(a.data[i], b.data[i]);
+  }
+  return out;
+};
+
+/** `cv.normalize(..., NORM_MINMAX)` into `[low, high]`. */
+export const normalizeMinMax = (plane: Plane, low = 0, high = 255): Plane => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of plane.data) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  const scale = max > min ? (high - low) / (max - min) : 0;
+  return mapPlane(plane, (value) => (value - min) * scale + low);
+};
+
+/** `cv.resize` with `INTER_LINEAR` on float samples: pixel-centre aligned, edges replicated. */
+export const resizeLinear = (src: Plane, width: number, height: number): Plane => {
+  const taps = (size: number, srcSize: number) =>
+    Array.from({ length: size }, (_, i) => {
+      const position = (i + 0.5) * (srcSize / size) - 0.5;
+      let index = Math.floor(position);
+      let weight = position - index;
+      if (index < 0) {
+        index = 0;
+        weight = 0;
+      }
+      if (index >= srcSize - 1) {
+        index = srcSize - 1;
+        weight = 0;
+      }
+      return { index, next: Math.min(index + 1, srcSize - 1), weight };
+    });
+  const xs = taps(width, src.width);
+  const ys = taps(height, src.height);
+  const dst = createPlane(width, height);
+  for (let y = 0; y < height; y++) {
+    const top = ys[y].index * src.width;
+    const bottom = ys[y].next * src.width;
+    for (let x = 0; x < width; x++) {
+      const { index, next, weight } = xs[x];
+      const upper = src.data[top + index] * (1 - weight) + src.data[top + next] * weight;
+      const lower = src.data[bottom + index] * (1 - weight) + src.data[bottom + next] * weight;
+      dst.data[y * width + x] = upper * (1 - ys[y].weight) + lower * ys[y].weight;
+    }
+  }
+  return dst;
+};
@@ -0,0 +1,122 @@
+import { ProcessingParams } from '../../types';
+import { StepReporter } from '../registry';
+import {
+  THRESHOLD_METHODS,
+  THRESHOLD_TYPES,
+  formatRange,
+  histogram256,
+  isAdaptive,
+  labelClasses,
+  localThreshold,
+  multiOtsuThresholds,
+  thresholdValue,
+} from '../thresholding';
+import { getGaussianKernel, sepFilter } from './filters';
+import { Plane, createPlane, mapPlane, replicate, saturate8 } from './plane';
+
+/** Port of OpenCV's Otsu threshold search, including how it accumulates the lower class mean. */
+const otsuThreshold = (hist: Int32Array, total: number): number => {
+  const scale = 1 / total;
+  let mu = 0;
+  for (let i = 0; i < 256; i++) {
+    mu += i * hist[i];
+  }
+  mu *= scale;
+  let mu1 = 0;
+  let q1 = 0;
+  let maxSigma = 0;
+  let maxValue = 0;
+  const epsilon = 1.1920929e-7;
+  for (let i = 0; i < 256; i++) {
+    const p = hist[i] * scale;
+    mu1 *= q1;
+    q1 += p;
+    const q2 = 1 - q1;
+    if (Math.min(q1, q2) < epsilon || Math.max(q1, q2) > 1 - epsilon) {
+      continue;
+    }
+    mu1 = (mu1 + i * p) / q1;
+    const mu2 = (mu - q1 * mu1) / q2;
+    const sigma = q1 * q2 * (mu1 - mu2) * (mu1 - mu2);
+    if (sigma > maxSigma) {
+      maxSigma = sigma;
+      maxValue = i;
+    }
+  }
+  return maxValue;
+};
+
+/** Port of OpenCV's triangle threshold search. */
+const triangleThreshold = (source: Int32Array): number => {
+  const hist = Int32Array.from(source);
+  let left = hist.findIndex((count) => count > 0);
+  let right = 0;
+  for (let i = 255; i > 0; i--) {
+    if (hist[i] > 0) {
+      right = i;
+      break;
+    }
+  }
+  left = Math.max(left - 1, 0);
+  right = Math.min(right + 1, 255);
+  let peak = 0;
+  let peakIndex = 0;
+  for (let i = 0; i < 256; i++) {
+    if (hist[i] > peak) {
+      peak = hist[i];
+      peakIndex = i;
+    }
+  }
+  // The line runs from the peak to the far end of the longer tail; flip so that tail is on the left.
+  const flipped = peakIndex - left < right - peakIndex;
+  if (flipped) {
+    hist.reverse();
+    left = 255 - right;
+    peakIndex = 255 - peakIndex;
+  }
+  let threshold = left;
+  let distance = 0;
+  for (let i = left + 1; i <= peakIndex; i++) {
+    const d = peak * i + (left - peakIndex) * hist[i];
+    if (d > distance) {
+      distance = d;
+      threshold = i;
+    }
+  }
+  threshold--;
+  return flipped ? 255 - threshold : threshold;
+};
+
+/** Same as applyThreshold in ../thresholding, on a gray plane. */
+export const threshold = (gray: Plane, params: ProcessingParams, report: StepReporter): Plane => {
+  const method = THRESHOLD_METHODS[params.thresholdMethod];
+  const dst = createPlane(gray.width, gray.height);
+  if (method === 'Multi-level Otsu') {
+    const thresholds = multiOtsuThresholds(histogram256(gray.data), params.thresholdClasses);
+    report(`Thresholds ${thresholds.join(', ')}`);
+    dst.data.set(labelClasses(gray.data, thresholds));
+    return dst;
+  }
+  if (isAdaptive(method)) {
+    const kernel =
+      method === 'Adaptive mean'
+        ? new Array<number>(params.blockSize).fill(1 / params.blockSize)
+        : getGaussianKernel(params.blockSize, 0);
+    const mean = mapPlane(sepFilter(gray, kernel, kernel, replicate), saturate8);
+    const { data, min, max } = localThreshold(gray.data, mean.data, params);
+    report(`Local thresholds ${formatRange(min, max)}`);
+    dst.data.set(data);
+    return dst;
+  }
+  const picked =
+    method === 'Otsu'
+      ? otsuThreshold(histogram256(gray.data), gray.data.length)
+      : method === 'Triangle'
+      ? triangleThreshold(histogram256(gray.data))
+      : Math.floor(params.threshold);
+  if (method !== 'Fixed') {
+    report(`Threshold ${picked}`);
+  }
+  const type = THRESHOLD_TYPES[params.thresholdType];
+  return mapPlane(gray, (v) => thresholdValue(type, v, picked));
+};
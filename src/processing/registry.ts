@@ -0,0 +1,61 @@
+import { ProcessingOption, ProcessingParams } from '../types';
+import { RgbaImage } from './backend';
+import { StepFormat } from './formats';
+import { ParamDefinition } from './paramSchema';
+
+/** Passes a short note about a run of a step, such as the threshold Otsu picked, on to the UI. */
+export type StepReporter = (message: string) => void;
+
+/**
+ * A processing operation as the UI, recipes and pipeline see it. Built-ins
+ * and plugins register the same way (see src/plugins/index.ts); a step's
+ * `option` is the id of the operation it runs.
+ */
+export interface Operation {
+  /** Stable name stored in recipes; never change it once recipes use it. */
+  id: ProcessingOption;
+  /** Button text in the editor. */
+  label: string;
+  /** Controls shown for the operation; their keys are the only params it reads, saves and validates. */
+  params: ParamDefinition[];
+  /**
+   * Format the Mat handed to `applyMat` is converted to and the format it
+   * returns; a function when params change either. Defaults to RGBA 8U.
+   */
+  format?: StepFormat | ((params: ProcessingParams) => StepFormat);
+  /** Runs the operation on an OpenCV Mat, returning a new Mat; `src` must not be modified or deleted. */
+  applyMat?: (cv: any, src: any, params: ProcessingParams, report: StepReporter) => any;
+  /**
+   * Runs the operation on RGBA pixels, returning new ones. Used by backends
+   * without OpenCV, and by the OpenCV pipeline when there is no `applyMat`.
+   */
+  applyImage?: (image: RgbaImage, params: ProcessingParams, report: StepReporter) => RgbaImage;
+}
+
+const operations = new Map<ProcessingOption, Operation>();
+
+export const registerOperation = (operation: Operation) => {
+  if (operations.has(operation.id)) {
+    throw new Error(`A processing operation with id "${operation.id}" is already registered.`);
+  }
+  if (!operation.applyMat && !operation.applyImage) {
+    throw new Error(`Processing operation "${operation.id}" needs an applyMat or applyImage implementation.`);
+  }
+  operations.set(operation.id, operation);
+};
+
+/** Registered operations in registration order, which is the order the editor lists them in. */
+export const listOperations = (): Operation[] => [...operations.values()];
+
+export const hasOperation = (id: string): boolean => operations.has(id);
+
+export const getOperation = (id: ProcessingOption): Operation => {
+  const operation = operations.get(id);
+  if (!operation) {
+    throw new Error(`Unknown processing option: ${id}`);
+  }
+  return operation;
+};
+
+/** Display name of `id`, or the id itself if nothing registered it (e.g. a recipe from a build with a plugin). */
+export const operationLabel = (id: ProcessingOption): string => operations.get(id)?.label ?? id;
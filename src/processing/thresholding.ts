@@ -0,0 +1,181 @@
+import { ProcessingParams } from '../types';
+import { StepReporter } from './registry';
+
+export const THRESHOLD_METHODS = [
+  'Fixed',
+  'Otsu',
+  'Triangle',
+  'Adaptive mean',
+  'Adaptive Gaussian',
+  'Multi-level Otsu',
+] as const;
+export const THRESHOLD_TYPES = ['Binary', 'Binary inverted', 'Truncate', 'To zero', 'To zero inverted'] as const;
+
+export type ThresholdMethod = (typeof THRESHOLD_METHODS)[number];
+type ThresholdType = (typeof THRESHOLD_TYPES)[number];
+
+export const isAdaptive = (method: ThresholdMethod) => method === 'Adaptive mean' || method === 'Adaptive Gaussian';
+
+const CV_TYPES: Record<ThresholdType, string> = {
+  Binary: 'THRESH_BINARY',
+  'Binary inverted': 'THRESH_BINARY_INV',
+  Truncate: 'THRESH_TRUNC',
+  'To zero': 'THRESH_TOZERO',
+  'To zero inverted': 'THRESH_TOZERO_INV',
+};
+
+/** Output for an 8-bit `value` against threshold `t`; values above `t` count as foreground. */
+export const thresholdValue = (type: ThresholdType, value: number, t: number): number => {
+  const above = value > t;
+  switch (type) {
+    case 'Binary':
+      return above ? 255 : 0;
+    case 'Binary inverted':
+      return above ? 0 : 255;
+    case 'Truncate':
+      return above ? Math.max(t, 0) : value;
+    case 'To zero':
+      return above ? value : 0;
+    case 'To zero inverted':
+      return above ? 0 : value;
+  }
+};
+
+/**
+ * Applies per-pixel thresholds of `mean - C` (8-bit local means of the block
+ * around each pixel). As in cv.adaptiveThreshold, C is rounded up, or down
+ * for the inverted binary type, so results match it for the binary types.
+ */
+export const localThreshold = (
+  src: ArrayLike<number>,
+  mean: ArrayLike<number>,
+  params: ProcessingParams
+): { data: Uint8Array; min: number; max: number } => {
+  const type = THRESHOLD_TYPES[params.thresholdType];
+  const delta = type === 'Binary inverted' ? Math.floor(params.thresholdC) : Math.ceil(params.thresholdC);
+  const data = new Uint8Array(src.length);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < src.length; i++) {
+    const t = mean[i] - delta;
+    data[i] = thresholdValue(type, src[i], t);
+    min = Math.min(min, t);
+    max = Math.max(max, t);
+  }
+  return { data, min, max };
+};
+
+/**
+ * Thresholds splitting a 256-bin histogram into `classes` classes with the
+ * largest between-class variance, found exactly by dynamic programming over
+ * the class boundaries. Class k holds the values above threshold k - 1 up to
+ * and including threshold k.
+ */
+export const multiOtsuThresholds = (histogram: ArrayLike<number>, classes: number): number[] => {
+  const count = new Float64Array(257);
+  const sum = new Float64Array(257);
+  for (let v = 0; v < 256; v++) {
+    count[v + 1] = count[v] + histogram[v];
+    sum[v + 1] = sum[v] + v * histogram[v];
+  }
+  // Maximizing the between-class variance is maximizing the sum of (class sum)^2 / (class count).
+  const score = (from: number, to: number) => {
+    const n = count[to] - count[from];
+    const s = sum[to] - sum[from];
+    return n > 0 ? (s * s) / n : 0;
+  };
+  // best[c][end]: best score for values [0, end) split into c + 1 classes; start[c][end] is where the last begins.
+  const best = Array.from({ length: classes }, () => new Float64Array(257).fill(-Infinity));
+  const start = Array.from({ length: classes }, () => new Int32Array(257));
+  for (let end = 1; end <= 256; end++) {
+    best[0][end] = score(0, end);
+  }
+  for (let c = 1; c < classes; c++) {
+    for (let end = c + 1; end <= 256; end++) {
+      for (let from = c; from < end; from++) {
+        const candidate = best[c - 1][from] + score(from, end);
+        if (candidate > best[c][end]) {
+          best[c][end] = candidate;
+          start[c][end] = from;
+        }
+      }
+    }
+  }
+  const thresholds: number[] = [];
+  let end = 256;
+  for (let c = classes - 1; c > 0; c--) {
+    end = start[c][end];
+    thresholds.unshift(end - 1);
+  }
+  return thresholds;
+};
+
+/** Labels each value with its class from multiOtsuThresholds, spreading the labels evenly over 0-255. */
+export const labelClasses = (src: ArrayLike<number>, thresholds: number[]): Uint8Array => {
+  const lut = new Uint8Array(256);
+  for (let v = 0, label = 0; v < 256; v++) {
+    while (label < thresholds.length && v > thresholds[label]) {
+      label++;
+    }
+    lut[v] = Math.round((label * 255) / thresholds.length);
+  }
+  const data = new Uint8Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    data[i] = lut[src[i]];
+  }
+  return data;
+};
+
+export const histogram256 = (data: ArrayLike<number>): Int32Array => {
+  const hist = new Int32Array(256);
+  for (let i = 0; i < data.length; i++) {
+    hist[data[i]]++;
+  }
+  return hist;
+};
+
+/** Report text for the spread of local thresholds. */
+export const formatRange = (min: number, max: number) => (min === max ? `${min}` : `${min} to ${max}`);
+
+/**
+ * Thresholds a GRAY 8U Mat with the selected method and returns GRAY 8U,
+ * reporting the threshold an automatic method picked.
+ */
+export const applyThreshold = (cv: any, src: any, params: ProcessingParams, report: StepReporter): any => {
+  const method = THRESHOLD_METHODS[params.thresholdMethod];
+  if (method === 'Multi-level Otsu') {
+    const thresholds = multiOtsuThresholds(histogram256(src.data), params.thresholdClasses);
+    report(`Thresholds ${thresholds.join(', ')}`);
+    const dst = new cv.Mat(src.rows, src.cols, cv.CV_8UC1);
+    dst.data.set(labelClasses(src.data, thresholds));
+    return dst;
+  }
+  if (isAdaptive(method)) {
+    const mean = new cv.Mat();
+    try {
+      const size = new cv.Size(params.blockSize, params.blockSize);
+      const border = cv.BORDER_REPLICATE | cv.BORDER_ISOLATED;
+      if (method === 'Adaptive mean') {
+        cv.boxFilter(src, mean, -1, size, new cv.Point(-1, -1), true, border);
+      } else {
+        cv.GaussianBlur(src, mean, size, 0, 0, border);
+      }
+      const { data, min, max } = localThreshold(src.data, mean.data, params);
+      report(`Local thresholds ${formatRange(min, max)}`);
+      const dst = new cv.Mat(src.rows, src.cols, cv.CV_8UC1);
+      dst.data.set(data);
+      return dst;
+    } finally {
+      mean.delete();
+    }
+  }
+  const flags =
+    cv[CV_TYPES[THRESHOLD_TYPES[params.thresholdType]]] |
+    (method === 'Otsu' ? cv.THRESH_OTSU : method === 'Triangle' ? cv.THRESH_TRIANGLE : 0);
+  const dst = new cv.Mat();
+  const picked = cv.threshold(src, dst, params.threshold, 255, flags);
+  if (method !== 'Fixed') {
+    report(`Threshold ${picked}`);
+  }
+  return dst;
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { createStep } from '../history';
+import { DEFAULT_PARAMS } from '../processing/params';
+import { ProcessingOption } from '../types';
+import { createRecipe, parseRecipe, serializeRecipe } from './recipe';
+
+// The full params object every step carried in the app before recipes had a version.
+const V0_PARAMS = {
+  clipLimit: 2.0,
+  tileSize: 8,
+  threshold1: 50,
+  threshold2: 150,
+  sigma: 3,
+  amount: 1.5,
+  kernelSize: 3,
+  scale: 1,
+  threshold: 127,
+  colorMap: 2,
+  boostFactor: [1, 1, 1],
+  mixFactors: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+  colorTint: [128, 128, 128],
+  retinexScales: [15, 80, 250],
+  gaborKernelSize: 31,
+  gaborSigma: 5,
+  gaborTheta: 0,
+  gaborLambda: 10,
+  gaborGamma: 0.5,
+  gaborPsi: 0,
+};
+
+const V0_OPTIONS: ProcessingOption[] = [
+  'Histogram Equalization',
+  'Adaptive Histogram Equalization',
+  'Edge Detection',
+  'Unsharp Masking',
+  'High-Pass Filtering',
+  'Laplacian Filtering',
+  'Color Inversion',
+  'Thresholding',
+  'Pseudocolor Mapping',
+  'Fourier Transform',
+  'Color Boosting',
+  'Channel Mixing Simulation',
+  'Manual Colorization',
+  'Multi-Scale Retinex',
+  'Gabor Filter',
+];
+
+const parse = (data: unknown) => parseRecipe(JSON.stringify(data));
+
+const errors = (data: unknown) => {
+  const result = parse(data);
+  return result.ok ? [] : result.errors;
+};
+
+describe('recipes', () => {
+  it('round-trips through serializeRecipe', () => {
+    const steps = [
+      createStep('Unsharp Masking', { ...DEFAULT_PARAMS, sigma: 2.5 }),
+      createStep('Thresholding', { ...DEFAULT_PARAMS, thresholdMethod: 1 }, false),
+    ];
+    const result = parseRecipe(serializeRecipe(createRecipe(steps, 'Sharpen')));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.recipe.name).toBe('Sharpen');
+      expect(result.steps.map(({ option, params, enabled }) => ({ option, params, enabled }))).toEqual(
+        steps.map(({ option, params, enabled }) => ({ option, params, enabled }))
+      );
+    }
+  });
+
+  describe('version 0', () => {
+    it('imports every step the app could save, keeping its params and defaulting newer ones', () => {
+      const result = parse(V0_OPTIONS.map((option) => ({ option, params: V0_PARAMS })));
+      expect(result.ok ? [] : result.errors).toEqual([]);
+      if (!result.ok) {
+        return;
+      }
+      const thresholding = result.steps[V0_OPTIONS.indexOf('Thresholding')];
+      expect(thresholding.params.threshold).toBe(127);
+      expect(thresholding.params.thresholdMethod).toBe(DEFAULT_PARAMS.thresholdMethod);
+      const retinex = result.steps[V0_OPTIONS.indexOf('Multi-Scale Retinex')];
+      expect(retinex.params.retinexScales).toEqual([15, 80, 250]);
+      const boosting = result.recipe.steps[V0_OPTIONS.indexOf('Color Boosting')];
+      expect(boosting.params).toEqual({ boostFactor: [1, 1, 1] });
+    });
+
+    it('still validates the params it keeps', () => {
+      expect(errors([{ option: 'Laplacian Filtering', params: { ...V0_PARAMS, kernelSize: 4 } }])).toEqual([
+        'Step 1 (Laplacian Filtering): "kernelSize" must be a whole number between 1 and 31 in steps of 2.',
+      ]);
+    });
+
+    it('reports steps that are not objects', () => {
+      expect(errors([42])).toEqual(['Step 1: expected an object with "option" and "params".']);
+    });
+  });
+
+  describe('validation', () => {
+    const recipe = (steps: unknown[], extra: object = {}) => ({ format: 'image-mod-recipe', version: 1, steps, ...extra });
+
+    it('rejects documents that are not recipes', () => {
+      expect(errors('text')).toEqual(['A recipe must be a JSON object.']);
+      expect(errors({ format: 'other', version: 1, steps: [] })).toEqual([
+        'Not a recipe file: "format" must be "image-mod-recipe".',
+      ]);
+      expect(errors({ format: 'image-mod-recipe', version: 1.5, steps: [] })).toEqual([
+        '"version" must be a positive integer.',
+      ]);
+      expect(errors({ format: 'image-mod-recipe', version: 99, steps: [] })).toEqual([
+        'Recipe version 99 is newer than this app supports (version 1).',
+      ]);
+      expect(errors(recipe([], { name: 3 }))).toEqual(['"name" must be a string.']);
+      expect(errors({ format: 'image-mod-recipe', version: 1 })).toEqual([
+        '"steps" must be a list of processing steps.',
+      ]);
+    });
+
+    it('reports invalid JSON', () => {
+      const result = parseRecipe('{');
+      expect(result.ok ? [] : result.errors[0]).toMatch(/^Invalid JSON: /);
+    });
+
+    it('names the step and parameter of each problem', () => {
+      expect(
+        errors(
+          recipe([
+            { option: 'Sharpen Everything', params: {} },
+            { option: 'Color Inversion', params: { sigma: 2 } },
+            { option: 'Unsharp Masking', params: { sigma: 'wide', radius: 3 } },
+            { option: 'Edge Detection', params: [], enabled: 'yes' },
+            { option: 'Edge Detection', params: {}, enabled: 'yes' },
+            { option: 'Edge Detection', params: {}, mask: { shape: null, feather: 0 } },
+          ])
+        )
+      ).toEqual([
+        'Step 1: unknown processing option "Sharpen Everything".',
+        'Step 2 (Color Inversion): unknown parameter "sigma" (this option takes no parameters).',
+        'Step 3 (Unsharp Masking): "sigma" must be a number between 0.1 and 10.',
+        'Step 3 (Unsharp Masking): unknown parameter "radius" (expected one of sigma, amount).',
+        'Step 4 (Edge Detection): "params" must be an object.',
+        'Step 5 (Edge Detection): "enabled" must be true or false.',
+        expect.stringMatching(/^Step 6 \(Edge Detection\): "mask.shape" /),
+      ]);
+    });
+  });
+});
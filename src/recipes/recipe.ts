@@ -0,0 +1,185 @@
+import { createStep, isEnabled } from '../history';
+import { checkMask } from '../processing/mask';
+import { checkParamValue } from '../processing/paramSchema';
+import { hasOperation } from '../processing/operations';
+import { DEFAULT_PARAMS, optionParams, paramDefinition, usedParams } from '../processing/params';
+import { ProcessingOption, ProcessingParams, ProcessingStep, StepMask } from '../types';
+import { describeError } from '../utils/errors';
+
+export const RECIPE_FORMAT = 'image-mod-recipe';
+export const RECIPE_VERSION = 1;
+
+export interface RecipeStep {
+  option: ProcessingOption;
+  params: Partial<ProcessingParams>;
+  /** Omitted unless the step is switched off. */
+  enabled?: false;
+  mask?: StepMask;
+}
+
+export interface Recipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  name?: string;
+  steps: RecipeStep[];
+}
+
+export type RecipeParseResult =
+  | { ok: true; recipe: Recipe; steps: ProcessingStep[] }
+  | { ok: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades a recipe from the keyed version to the next one. Version 0 is the
+ * bare ProcessingStep[] array (full params blob per step) the app used to
+ * hold in memory before recipes had an envelope. Its params predate many of
+ * today's, so only the keys it has are kept and the rest take their defaults.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (steps) => ({
+    format: RECIPE_FORMAT,
+    version: 1,
+    steps: (Array.isArray(steps) ? steps : []).map((step: unknown) => {
+      if (!isObject(step) || typeof step.option !== 'string' || !hasOperation(step.option) || !isObject(step.params)) {
+        return step;
+      }
+      const params = step.params;
+      return {
+        option: step.option,
+        params: Object.fromEntries(
+          optionParams(step.option)
+            .filter((key) => params[key] !== undefined)
+            .map((key) => [key, params[key]])
+        ),
+      };
+    }),
+  }),
+};
+
+export const createRecipe = (steps: ProcessingStep[], name?: string): Recipe => ({
+  format: RECIPE_FORMAT,
+  version: RECIPE_VERSION,
+  ...(name ? { name } : {}),
+  steps: steps.map((step) => ({
+    option: step.option,
+    params: usedParams(step),
+    ...(isEnabled(step) ? {} : { enabled: false as const }),
+    ...(step.mask ? { mask: step.mask } : {}),
+  })),
+});
+
+export const serializeRecipe = (recipe: Recipe): string => `${JSON.stringify(recipe, null, 2)}\n`;
+
+/** Expands recipe steps back into full ProcessingSteps, filling unused params from the defaults. */
+export const recipeToSteps = (recipe: Recipe): ProcessingStep[] =>
+  recipe.steps.map((step) =>
+    createStep(step.option, { ...DEFAULT_PARAMS, ...step.params }, step.enabled !== false, step.mask)
+  );
+
+const validateStep = (step: unknown, index: number): string[] => {
+  const at = `Step ${index + 1}`;
+  if (!isObject(step)) {
+    return [`${at}: expected an object with "option" and "params".`];
+  }
+  if (typeof step.option !== 'string' || !hasOperation(step.option)) {
+    return [`${at}: unknown processing option ${JSON.stringify(step.option)}.`];
+  }
+  const option = step.option;
+  const params = step.params ?? {};
+  if (!isObject(params)) {
+    return [`${at} (${option}): "params" must be an object.`];
+  }
+
+  const errors: string[] = [];
+  if (step.enabled !== undefined && typeof step.enabled !== 'boolean') {
+    errors.push(`${at} (${option}): "enabled" must be true or false.`);
+  }
+  if (step.mask !== undefined) {
+    errors.push(...checkMask(step.mask).map((problem) => `${at} (${option}): ${problem}.`));
+  }
+  const allowed = optionParams(option) as string[];
+  for (const [key, value] of Object.entries(params)) {
+    if (!allowed.includes(key)) {
+      errors.push(
+        `${at} (${option}): unknown parameter "${key}"` +
+          (allowed.length ? ` (expected one of ${allowed.join(', ')}).` : ' (this option takes no parameters).')
+      );
+      continue;
+    }
+    const problem = checkParamValue(paramDefinition(option, key)!, value);
+    if (problem) {
+      errors.push(`${at} (${option}): "${key}" ${problem}.`);
+    }
+  }
+  return errors;
+};
+
+/** Validates (and migrates, if older) an already-parsed recipe document. */
+export const validateRecipe = (data: unknown): RecipeParseResult => {
+  let version: number;
+  if (Array.isArray(data)) {
+    version = 0;
+  } else if (isObject(data)) {
+    if (data.format !== RECIPE_FORMAT) {
+      return { ok: false, errors: [`Not a recipe file: "format" must be "${RECIPE_FORMAT}".`] };
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+      return { ok: false, errors: ['"version" must be a positive integer.'] };
+    }
+    version = data.version;
+  } else {
+    return { ok: false, errors: ['A recipe must be a JSON object.'] };
+  }
+  if (version > RECIPE_VERSION) {
+    return {
+      ok: false,
+      errors: [`Recipe version ${version} is newer than this app supports (version ${RECIPE_VERSION}).`],
+    };
+  }
+
+  let migrated: unknown = data;
+  for (; version < RECIPE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  if (!isObject(migrated)) {
+    return { ok: false, errors: ['A recipe must be a JSON object.'] };
+  }
+
+  const { name, steps } = migrated;
+  if (name !== undefined && typeof name !== 'string') {
+    return { ok: false, errors: ['"name" must be a string.'] };
+  }
+  if (!Array.isArray(steps)) {
+    return { ok: false, errors: ['"steps" must be a list of processing steps.'] };
+  }
+  const errors = (steps as unknown[]).flatMap(validateStep);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const recipe: Recipe = {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    ...(name ? { name } : {}),
+    // Every step passed validateStep above.
+    steps: (steps as RecipeStep[]).map((step) => ({
+      option: step.option,
+      params: step.params ?? {},
+      ...(step.enabled === false ? { enabled: false as const } : {}),
+      ...(step.mask ? { mask: step.mask } : {}),
+    })),
+  };
+  return { ok: true, recipe, steps: recipeToSteps(recipe) };
+};
+
+export const parseRecipe = (text: string): RecipeParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`Invalid JSON: ${describeError(error)}`] };
+  }
+  return validateRecipe(data);
+};
@@ -0,0 +1,48 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, createStep, pushHistory } from '../history';
+import { DEFAULT_PARAMS } from '../processing/params';
+import {
+  createSession,
+  deleteSession,
+  listSessions,
+  loadSession,
+  renameSession,
+  saveSessionState,
+} from './sessions';
+
+const image = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' });
+
+describe('sessions', () => {
+  it('saves the chain with its undo history and restores it', async () => {
+    const { id } = await createSession(image, 'photo.png');
+    const first = [createStep('Unsharp Masking', { ...DEFAULT_PARAMS, sigma: 2 })];
+    const second = [...first, createStep('Thresholding', DEFAULT_PARAMS, false)];
+    const history = pushHistory(pushHistory(EMPTY_HISTORY, first), second);
+    await saveSessionState(id, { history, selectedOption: 'Edge Detection', params: { ...DEFAULT_PARAMS, threshold1: 20 } });
+
+    const loaded = await loadSession(id);
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.summary).toMatchObject({ name: 'photo.png', stepCount: 2, imageBytes: 3 });
+    expect(new Uint8Array(await loaded.image.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    const strip = (steps: typeof second) => steps.map(({ option, params, enabled }) => ({ option, params, enabled }));
+    expect(strip(loaded.state.history.present)).toEqual(strip(second));
+    expect(loaded.state.history.past.map(strip)).toEqual([[], strip(first)]);
+    expect(loaded.state.selectedOption).toBe('Edge Detection');
+    expect(loaded.state.params.threshold1).toBe(20);
+  });
+
+  it('lists the most recently changed sessions first, and renames and deletes them', async () => {
+    const older = await createSession(image, 'older');
+    const newer = await createSession(image, 'newer');
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await saveSessionState(older.id, { history: EMPTY_HISTORY, selectedOption: null, params: DEFAULT_PARAMS });
+    await renameSession(newer.id, 'renamed');
+    const names = (await listSessions()).map((session) => session.name);
+    expect(names.indexOf('older')).toBeLessThan(names.indexOf('renamed'));
+
+    await deleteSession(older.id);
+    expect((await listSessions()).some((session) => session.id === older.id)).toBe(false);
+    await expect(loadSession(older.id)).rejects.toThrow('This session no longer exists.');
+  });
+});
@@ -0,0 +1,220 @@
+import { EMPTY_HISTORY } from '../history';
+import { hasOperation } from '../processing/operations';
+import { DEFAULT_PARAMS, usedParams } from '../processing/params';
+import { Recipe, createRecipe, validateRecipe } from '../recipes/recipe';
+import { ProcessingHistory, ProcessingOption, ProcessingParams, ProcessingStep } from '../types';
+
+const DATABASE_NAME = 'image-mod-sessions';
+const DATABASE_VERSION = 1;
+const SESSIONS = 'sessions';
+const IMAGES = 'images';
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  stepCount: number;
+  imageBytes: number;
+}
+
+/** The editor state a session restores along with its image. */
+export interface SessionState {
+  history: ProcessingHistory;
+  selectedOption: ProcessingOption | null;
+  params: ProcessingParams;
+}
+
+export interface LoadedSession {
+  summary: SessionSummary;
+  image: Blob;
+  state: SessionState;
+  /** Parts of the saved state that could not be restored, e.g. steps of an operation this build lacks. */
+  errors: string[];
+}
+
+// Chains are stored as recipes so saved sessions migrate the same way recipe files do.
+interface StoredState {
+  past: Recipe[];
+  present: Recipe;
+  future: Recipe[];
+  selectedOption: ProcessingOption | null;
+  params: Partial<ProcessingParams>;
+}
+
+interface SessionRecord extends SessionSummary {
+  state: StoredState;
+}
+
+/** Thrown when the browser refuses to store more; deleting old sessions frees space. */
+export class StorageFullError extends Error {
+  constructor() {
+    super('Browser storage is full. Delete old sessions to keep autosaving.');
+    this.name = 'StorageFullError';
+  }
+}
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+        request.result.createObjectStore(IMAGES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+/**
+ * Runs `work` in one transaction over both stores and resolves with its
+ * result once the transaction commits, so a write that hits the quota
+ * rejects with StorageFullError instead of appearing to succeed.
+ */
+const transact = async <T>(mode: IDBTransactionMode, work: (sessions: IDBObjectStore, images: IDBObjectStore) => T) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction([SESSIONS, IMAGES], mode);
+    let result: T;
+    const fail = () => reject(isQuotaError(transaction.error) ? new StorageFullError() : transaction.error);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+    try {
+      result = work(transaction.objectStore(SESSIONS), transaction.objectStore(IMAGES));
+    } catch (error) {
+      transaction.abort();
+      reject(isQuotaError(error) ? new StorageFullError() : error);
+    }
+  });
+};
+
+const toSummary = ({ state: _state, ...summary }: SessionRecord): SessionSummary => summary;
+
+const storeState = ({ history, selectedOption, params }: SessionState): StoredState => ({
+  past: history.past.map((steps) => createRecipe(steps)),
+  present: createRecipe(history.present),
+  future: history.future.map((steps) => createRecipe(steps)),
+  selectedOption,
+  params:
+    selectedOption && hasOperation(selectedOption) ? usedParams({ id: 'pending', option: selectedOption, params }) : {},
+});
+
+const restoreChain = (recipe: Recipe, errors: string[]): ProcessingStep[] | null => {
+  const result = validateRecipe(recipe);
+  if (!result.ok) {
+    errors.push(...result.errors);
+    return null;
+  }
+  return result.steps;
+};
+
+// Undo and redo entries that no longer validate are dropped; the current chain falls back to empty.
+const restoreState = (stored: StoredState): { state: SessionState; errors: string[] } => {
+  const errors: string[] = [];
+  const present = restoreChain(stored.present, errors) ?? EMPTY_HISTORY.present;
+  const restoreAll = (recipes: Recipe[]) =>
+    recipes.map((recipe) => restoreChain(recipe, [])).filter((steps): steps is ProcessingStep[] => steps !== null);
+  const selectedOption = stored.selectedOption && hasOperation(stored.selectedOption) ? stored.selectedOption : null;
+  return {
+    state: {
+      history: { past: restoreAll(stored.past), present, future: restoreAll(stored.future) },
+      selectedOption,
+      params: { ...DEFAULT_PARAMS, ...(selectedOption ? stored.params : {}) },
+    },
+    errors,
+  };
+};
+
+const newSessionId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/** Stores `image` as a new session with an empty chain. */
+export const createSession = (image: Blob, name: string): Promise<SessionSummary> => {
+  const now = Date.now();
+  const record: SessionRecord = {
+    id: newSessionId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    stepCount: 0,
+    imageBytes: image.size,
+    state: storeState({ history: EMPTY_HISTORY, selectedOption: null, params: DEFAULT_PARAMS }),
+  };
+  return transact('readwrite', (sessions, images) => {
+    images.put(image, record.id);
+    sessions.put(record);
+    return toSummary(record);
+  });
+};
+
+/** Replaces the saved state of session `id`; does nothing if it has been deleted meanwhile. */
+export const saveSessionState = (id: string, state: SessionState): Promise<void> => {
+  const stored = storeState(state);
+  return transact('readwrite', (sessions) => {
+    const request = sessions.get(id);
+    request.onsuccess = () => {
+      const record: SessionRecord | undefined = request.result;
+      if (record) {
+        sessions.put({ ...record, state: stored, stepCount: state.history.present.length, updatedAt: Date.now() });
+      }
+    };
+  });
+};
+
+/** Saved sessions, most recently changed first. */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const request = await transact('readonly', (sessions) => sessions.getAll() as IDBRequest<SessionRecord[]>);
+  return request.result.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<LoadedSession> => {
+  const [recordRequest, imageRequest] = await transact('readonly', (sessions, images) => [
+    sessions.get(id) as IDBRequest<SessionRecord | undefined>,
+    images.get(id) as IDBRequest<Blob | undefined>,
+  ]);
+  const record = recordRequest.result;
+  const image = imageRequest.result;
+  if (!record || !image) {
+    throw new Error('This session no longer exists.');
+  }
+  const { state, errors } = restoreState(record.state);
+  return { summary: toSummary(record), image, state, errors };
+};
+
+export const renameSession = (id: string, name: string): Promise<void> =>
+  transact('readwrite', (sessions) => {
+    const request = sessions.get(id);
+    request.onsuccess = () => {
+      if (request.result) {
+        sessions.put({ ...request.result, name });
+      }
+    };
+  });
+
+export const deleteSession = (id: string): Promise<void> =>
+  transact('readwrite', (sessions, images) => {
+    sessions.delete(id);
+    images.delete(id);
+  });
+
+/** Bytes the app's origin uses and may use, or null where the browser does not say. */
+export const storageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  const estimate = await navigator.storage?.estimate?.();
+  return estimate?.usage !== undefined && estimate.quota !== undefined
+    ? { usage: estimate.usage, quota: estimate.quota }
+    : null;
+};
@@ -0,0 +1,57 @@
+import { RgbaImage } from '../processing/backend';
+
+/**
+ * A deterministic colour test image: gradients, a sine pattern, a bright disc
+ * with hard edges and seeded noise, so filters, thresholds and edge detectors
+ * all have something to work on.
+ */
+export const testImage = (width = 64, height = 48): RgbaImage => {
+  let seed = 1;
+  const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const disc = Math.hypot(x - width * 0.6, y - height * 0.4) < width / 5 ? 90 : 0;
+      data[i] = 40 + (x * 160) / width + disc + random() * 20;
+      data[i + 1] = 128 + 80 * Math.sin(x / 3 + y / 5) + random() * 10;
+      data[i + 2] = 200 - (y * 150) / height + random() * 30;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+export interface ImageDifference {
+  /** Largest difference of any sample. */
+  max: number;
+  /** Fraction of samples that differ by more than the tolerance. */
+  outliers: number;
+}
+
+export const compareImages = (a: RgbaImage, b: RgbaImage, tolerance: number): ImageDifference => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Image sizes differ: ${a.width}x${a.height} and ${b.width}x${b.height}.`);
+  }
+  let max = 0;
+  let outliers = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    const difference = Math.abs(a.data[i] - b.data[i]);
+    max = Math.max(max, difference);
+    if (difference > tolerance) {
+      outliers++;
+    }
+  }
+  return { max, outliers: outliers / a.data.length };
+};
+
+/** Alpha values of `image` that are not fully opaque. */
+export const translucentPixels = (image: RgbaImage): number => {
+  let count = 0;
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] !== 255) {
+      count++;
+    }
+  }
+  return count;
+};
@@ -0,0 +1,34 @@
+import { runStep } from '../processing/applyProcessingStep';
+import { RgbaImage } from '../processing/backend';
+import { ImageFormat, formatAfter } from '../processing/formats';
+import { matToRgba16Image, matToRgbaImage } from '../processing/opencvBackend';
+import { ProcessingStep } from '../types';
+import { Rgba16Image } from '../workers/protocol';
+
+/** Runs `steps` over `image` the way the pipeline worker does, without its cache, and converts the result. */
+const runChain = <T>(
+  cv: any,
+  image: RgbaImage,
+  steps: ProcessingStep[],
+  convert: (cv: any, mat: any, format: ImageFormat) => T
+): T => {
+  let src = cv.matFromImageData(image);
+  try {
+    for (const [i, current] of steps.entries()) {
+      const dst = runStep(cv, src, formatAfter(steps, i), current);
+      src.delete();
+      src = dst;
+    }
+    return convert(cv, src, formatAfter(steps));
+  } finally {
+    src.delete();
+  }
+};
+
+/** What the pipeline worker hands the editor for `steps` over `image`. */
+export const workerResult = (cv: any, image: RgbaImage, steps: ProcessingStep[]): RgbaImage =>
+  runChain(cv, image, steps, matToRgbaImage);
+
+/** What the pipeline worker hands a 16-bit export for `steps` over `image`. */
+export const workerResult16 = (cv: any, image: RgbaImage, steps: ProcessingStep[]): Rgba16Image =>
+  runChain(cv, image, steps, matToRgba16Image);
@@ -1,21 +1,31 @@
-export type ProcessingOption =
+/** Id of a registered processing operation (see processing/registry). */
+export type ProcessingOption = string;
+
+/** Operations that ship with the app; each is registered in processing/builtins. */
+export type BuiltInOption =
   | 'Histogram Equalization'
   | 'Adaptive Histogram Equalization'
   | 'Edge Detection'
   | 'Unsharp Masking'
   | 'High-Pass Filtering'
   | 'Laplacian Filtering'
+  | 'Custom Kernel'
   | 'Color Inversion'
   | 'Thresholding'
+  | 'Morphology'
   | 'Pseudocolor Mapping'
   | 'Fourier Transform'
+  | 'Frequency Filter'
+  | 'Notch Filter'
   | 'Color Boosting'
   | 'Channel Mixing Simulation'
   | 'Manual Colorization'
   | 'Multi-Scale Retinex'
-  | 'Gabor Filter';
+  | 'Gabor Filter'
+  | 'Gabor Bank';
 
 export interface ProcessingParams {
+  equalizeSpace: number;
   clipLimit: number;
   tileSize: number;
   threshold1: number;
@@ -24,9 +34,26 @@ export interface ProcessingParams {
   amount: number;
   kernelSize: number;
   scale: number;
+  customKernel: number[][];
+  kernelNormalization: number;
+  borderMode: number;
+  kernelOffset: number;
+  thresholdMethod: number;
   threshold: number;
+  thresholdType: number;
+  blockSize: number;
+  thresholdC: number;
+  thresholdClasses: number;
+  morphOperation: number;
+  structuringShape: number;
+  structuringSize: number;
+  morphIterations: number;
   colorMap: number;
+  boostSpace: number;
   boostFactor: [number, number, number];
+  hueShift: number;
+  saturationScale: number;
+  valueScale: number;
   mixFactors: [[number, number, number], [number, number, number], [number, number, number]];
   colorTint: [number, number, number];
   retinexScales: number[];
@@ -36,15 +63,66 @@ export interface ProcessingParams {
   gaborLambda: number;
   gaborGamma: number;
   gaborPsi: number;
+  gaborOrientations: number;
+  gaborWavelengths: number[];
+  gaborBandwidth: number;
+  gaborCombine: number;
+  gaborOutput: number;
+  fourierView: number;
+  frequencyBand: number;
+  frequencyFilter: number;
+  cutoff: number;
+  bandWidth: number;
+  filterOrder: number;
+  notches: NotchStroke[];
+}
+
+/**
+ * A stroke painted on the centred spectrum. Points are signed frequencies in
+ * cycles across the image width (u) and height (v), so the same stroke hits
+ * the same frequencies on a downscaled proxy; the radius is in cycles across
+ * the shorter side.
+ */
+export interface NotchStroke {
+  radius: number;
+  points: [number, number][];
+}
+
+/** Positions are fractions of the image width (x) and height (y), so a shape fits any resolution of the image. */
+export type MaskShape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'brush'; strokes: BrushStroke[] }
+  /** Selects the pixels of the step's input whose gray level is above `threshold`. */
+  | { type: 'threshold'; threshold: number };
+
+export interface BrushStroke {
+  /** Fraction of the shorter image side. */
+  radius: number;
+  points: [number, number][];
+}
+
+export interface StepMask {
+  shape: MaskShape;
+  /** Apply the step outside the shape instead of inside it. */
+  invert?: boolean;
+  /** Blur radius (Gaussian sigma) of the mask edge, as a fraction of the shorter image side. */
+  feather: number;
 }
 
 export interface ProcessingStep {
+  id: string;
   option: ProcessingOption;
   params: ProcessingParams;
+  /** Disabled steps stay in the chain but are skipped when processing. */
+  enabled?: boolean;
+  /** Limits the step to part of the image; pixels outside keep the step's input. */
+  mask?: StepMask;
 }
 
+/** Undo history of whole chains, so every edit to the chain undoes as one operation. */
 export interface ProcessingHistory {
-  past: ProcessingStep[];
-  present: ProcessingStep | null;
-  future: ProcessingStep[];
+  past: ProcessingStep[][];
+  present: ProcessingStep[];
+  future: ProcessingStep[][];
 }
\ No newline at end of file
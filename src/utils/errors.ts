@@ -0,0 +1,10 @@
+/** The message of a thrown value, which may not be an Error. */
+export const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/** Like describeError, but also reads the C++ exceptions OpenCV.js throws as raw WASM pointers. */
+export const describeOpenCvError = (cv: any, error: unknown): string => {
+  if (typeof error === 'number') {
+    return cv.exceptionFromPtr?.(error)?.msg ?? `OpenCV exception ${error}`;
+  }
+  return describeError(error);
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores each entry behind a local header the central directory points to', async () => {
+    const entries = [
+      { name: 'a.png', data: text('first'), modified: new Date(2024, 4, 17, 13, 45, 30) },
+      { name: 'ünïcode.png', data: text('second entry') },
+    ];
+    const bytes = new Uint8Array(await createZip(entries).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    let header = view.getUint32(end + 16, true);
+    expect(header + view.getUint32(end + 12, true)).toBe(end);
+
+    for (const entry of entries) {
+      expect(view.getUint32(header, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(header + 28, true);
+      const name = new TextDecoder().decode(bytes.subarray(header + 46, header + 46 + nameLength));
+      expect(name).toBe(entry.name);
+      expect(view.getUint32(header + 16, true)).toBe(crc32(entry.data));
+
+      const local = view.getUint32(header + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint16(local + 8, true)).toBe(0);
+      const size = view.getUint32(local + 22, true);
+      const start = local + 30 + view.getUint16(local + 26, true);
+      expect(bytes.subarray(start, start + size)).toEqual(entry.data);
+      header += 46 + nameLength;
+    }
+  });
+
+  it('writes the modification time in DOS format', async () => {
+    const modified = new Date(2024, 4, 17, 13, 45, 30);
+    const bytes = new Uint8Array(await createZip([{ name: 'a', data: text('x'), modified }]).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+});
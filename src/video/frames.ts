@@ -0,0 +1,157 @@
+/** One decoded frame and how long it is shown, in microseconds. */
+export interface Frame {
+  image: ImageData;
+  duration: number;
+}
+
+/** Random access to the frames of a video or animated image. */
+export interface FrameSource {
+  width: number;
+  height: number;
+  frameCount: number;
+  /** Decodes frame `index` (0-based). Calls are served one at a time, in order. */
+  readFrame: (index: number) => Promise<Frame>;
+  close: () => void;
+}
+
+export const DEFAULT_FRAME_RATE = 30;
+
+/** Animated image types that can be opened as clips, where the browser can decode them frame by frame. */
+export const ANIMATED_IMAGE_TYPES = ['image/gif', 'image/webp', 'image/png', 'image/apng', 'image/avif'];
+
+// ImageDecoder (WebCodecs) is not in TypeScript's DOM library yet.
+interface ImageDecoder {
+  completed: Promise<void>;
+  tracks: { ready: Promise<void>; selectedTrack: { frameCount: number } | null };
+  decode: (options: { frameIndex: number }) => Promise<{ image: VideoFrame }>;
+  close: () => void;
+}
+
+interface ImageDecoderConstructor {
+  new (init: { data: BufferSource; type: string }): ImageDecoder;
+  isTypeSupported: (type: string) => Promise<boolean>;
+}
+
+const ImageDecoder = (globalThis as { ImageDecoder?: ImageDecoderConstructor }).ImageDecoder;
+
+const createCanvasContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently: true })!;
+};
+
+/** Runs reads one after another so a seek never starts while another is in progress. */
+const serialize = <T>(read: (index: number) => Promise<T>) => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return (index: number): Promise<T> => {
+    const result = queue.then(() => read(index));
+    queue = result.catch(() => {});
+    return result;
+  };
+};
+
+const waitForEvent = (target: HTMLMediaElement, event: string, failure: string) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanUp = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanUp();
+      resolve();
+    };
+    const onError = () => {
+      cleanUp();
+      reject(new Error(failure));
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+/**
+ * Opens a video file. Browsers don't expose a video's frame rate, so frames
+ * are sampled every 1/`frameRate` seconds; frame `i` is the one showing at the
+ * middle of that interval.
+ */
+export const openVideo = async (file: Blob, frameRate: number): Promise<FrameSource> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  const close = () => {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+  try {
+    const loaded = waitForEvent(video, 'loadeddata', 'The browser could not decode this video.');
+    video.src = url;
+    await loaded;
+  } catch (error) {
+    close();
+    throw error;
+  }
+  if (!Number.isFinite(video.duration) || video.duration <= 0) {
+    close();
+    throw new Error('This video does not record its length, so its frames cannot be addressed.');
+  }
+
+  const { videoWidth: width, videoHeight: height } = video;
+  const context = createCanvasContext(width, height);
+  const frameCount = Math.max(1, Math.floor(video.duration * frameRate));
+  const readFrame = async (index: number): Promise<Frame> => {
+    const time = Math.min((Math.min(Math.max(index, 0), frameCount - 1) + 0.5) / frameRate, video.duration);
+    if (video.currentTime !== time) {
+      const seeked = waitForEvent(video, 'seeked', `Could not seek to frame ${index + 1}.`);
+      video.currentTime = time;
+      await seeked;
+    }
+    context.drawImage(video, 0, 0, width, height);
+    return { image: context.getImageData(0, 0, width, height), duration: 1e6 / frameRate };
+  };
+  return { width, height, frameCount, readFrame: serialize(readFrame), close };
+};
+
+/** Opens an animated (or still) GIF, WebP, APNG or AVIF with the browser's ImageDecoder. */
+export const openAnimatedImage = async (file: Blob): Promise<FrameSource> => {
+  if (!ImageDecoder || !(await ImageDecoder.isTypeSupported(file.type))) {
+    throw new Error(`This browser can't decode ${file.type || 'this file'} frame by frame.`);
+  }
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+  try {
+    await decoder.completed;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 0;
+    if (frameCount === 0) {
+      throw new Error('This image has no frames.');
+    }
+    const first = (await decoder.decode({ frameIndex: 0 })).image;
+    const width = first.displayWidth;
+    const height = first.displayHeight;
+    first.close();
+
+    const context = createCanvasContext(width, height);
+    const readFrame = async (index: number): Promise<Frame> => {
+      const { image } = await decoder.decode({ frameIndex: Math.min(Math.max(index, 0), frameCount - 1) });
+      try {
+        // Frames of an animation are already composited; clear so transparency stays transparent.
+        context.clearRect(0, 0, width, height);
+        context.drawImage(image, 0, 0, width, height);
+        // GIFs may give frames no duration; browsers show those for 100 ms.
+        return { image: context.getImageData(0, 0, width, height), duration: image.duration || 100_000 };
+      } finally {
+        image.close();
+      }
+    };
+    return { width, height, frameCount, readFrame: serialize(readFrame), close: () => decoder.close() };
+  } catch (error) {
+    decoder.close();
+    throw error instanceof Error ? error : new Error('The browser could not decode this image.');
+  }
+};
+
+export const isClipFile = (file: Blob) => file.type.startsWith('video/') || ANIMATED_IMAGE_TYPES.includes(file.type);
+
+/** Opens a video or animated image file; `frameRate` applies to videos only. */
+export const openClip = (file: Blob, frameRate = DEFAULT_FRAME_RATE): Promise<FrameSource> =>
+  file.type.startsWith('video/') ? openVideo(file, frameRate) : openAnimatedImage(file);
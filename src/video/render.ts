@@ -0,0 +1,178 @@
+import { DEFAULT_FILENAME_TEMPLATE, renderFilename } from '../batch/batch';
+import { ProcessingStep } from '../types';
+import { imageDataToBlob } from '../utils/image';
+import { ZipEntry, createZip } from '../utils/zip';
+import { PipelineClient } from '../workers/pipelineClient';
+import { FrameSource } from './frames';
+import { WebmCodec, createWebmWriter } from './webm';
+
+export type ClipExportFormat = 'webm' | 'frames';
+
+export const CLIP_EXPORT_FORMATS: Record<ClipExportFormat, { label: string; extension: string }> = {
+  webm: { label: 'WebM video', extension: 'webm' },
+  frames: { label: 'PNG sequence (zip)', extension: 'zip' },
+};
+
+/** Collects processed frames in order and turns them into one file. */
+export interface ClipEncoder {
+  /** Adds the next frame; `timestamp` and `duration` are in microseconds. */
+  add: (image: ImageData, timestamp: number, duration: number) => Promise<void>;
+  /** Returns the file for a clip of `duration` microseconds. */
+  finish: (duration: number) => Promise<Blob>;
+  /** Releases the encoder without producing a file. */
+  close: () => void;
+}
+
+// VP9 where the browser has an encoder for it, else VP8.
+const CODECS: { codec: string; id: WebmCodec }[] = [
+  { codec: 'vp09.00.10.08', id: 'V_VP9' },
+  { codec: 'vp8', id: 'V_VP8' },
+];
+const BITS_PER_PIXEL_SECOND = 4;
+const KEY_FRAME_INTERVAL_US = 2_000_000;
+const MAX_ENCODE_QUEUE = 8;
+
+/** Encodes frames to WebM with the browser's WebCodecs VideoEncoder. */
+export const createWebmEncoder = async (width: number, height: number): Promise<ClipEncoder> => {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error("This browser can't encode video; export a PNG sequence instead.");
+  }
+  let chosen: { config: VideoEncoderConfig; id: WebmCodec } | null = null;
+  for (const { codec, id } of CODECS) {
+    const config = { codec, width, height, bitrate: width * height * BITS_PER_PIXEL_SECOND };
+    if ((await VideoEncoder.isConfigSupported(config)).supported) {
+      chosen = { config, id };
+      break;
+    }
+  }
+  if (!chosen) {
+    throw new Error(`This browser can't encode ${width}×${height} WebM video; export a PNG sequence instead.`);
+  }
+
+  const writer = createWebmWriter(width, height, chosen.id);
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      writer.addFrame(data, chunk.timestamp, chunk.type === 'key');
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(chosen.config);
+  let lastKeyFrame = -Infinity;
+
+  return {
+    add: async (image, timestamp, duration) => {
+      while (!failure && encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+      if (failure) {
+        throw failure;
+      }
+      const frame = new VideoFrame(image.data, {
+        format: 'RGBA',
+        codedWidth: image.width,
+        codedHeight: image.height,
+        timestamp,
+        duration,
+      });
+      const keyFrame = timestamp - lastKeyFrame >= KEY_FRAME_INTERVAL_US;
+      try {
+        encoder.encode(frame, { keyFrame });
+      } finally {
+        frame.close();
+      }
+      if (keyFrame) {
+        lastKeyFrame = timestamp;
+      }
+    },
+    finish: async (duration) => {
+      await encoder.flush();
+      encoder.close();
+      if (failure) {
+        throw failure;
+      }
+      return writer.finish(duration);
+    },
+    close: () => {
+      if (encoder.state !== 'closed') {
+        encoder.close();
+      }
+    },
+  };
+};
+
+/** Stores frames as PNGs named `{name}_{index}.png` in a zip. */
+export const createFrameSequenceEncoder = (name: string, frameCount: number): ClipEncoder => {
+  const entries: ZipEntry[] = [];
+  const date = new Date();
+  return {
+    add: async (image) => {
+      const png = await imageDataToBlob(image);
+      const index = entries.length + 1;
+      entries.push({
+        name: renderFilename('{name}_{index}.{ext}', { name, index, count: frameCount, ext: 'png', date }),
+        data: new Uint8Array(await png.arrayBuffer()),
+      });
+    },
+    finish: async () => createZip(entries),
+    close: () => {},
+  };
+};
+
+export const createClipEncoder = (format: ClipExportFormat, source: FrameSource, name: string) =>
+  format === 'webm'
+    ? createWebmEncoder(source.width, source.height)
+    : Promise.resolve(createFrameSequenceEncoder(name, source.frameCount));
+
+/** File name for an exported clip made from `name` (the source file name without its extension). */
+export const clipFilename = (format: ClipExportFormat, name: string) =>
+  renderFilename(DEFAULT_FILENAME_TEMPLATE, {
+    name,
+    index: 1,
+    count: 1,
+    ext: CLIP_EXPORT_FORMATS[format].extension,
+    date: new Date(),
+  });
+
+/**
+ * Runs `steps` on every frame of `source` in `client`'s worker and feeds the
+ * results to `encoder`. Returns the finished file, or `null` if `shouldStop`
+ * turned true or the client was closed; the encoder is closed either way.
+ */
+export const renderClip = async (
+  source: FrameSource,
+  steps: ProcessingStep[],
+  client: PipelineClient,
+  encoder: ClipEncoder,
+  onProgress: (completed: number, total: number) => void,
+  shouldStop: () => boolean
+): Promise<Blob | null> => {
+  let timestamp = 0;
+  try {
+    for (let i = 0; i < source.frameCount; i++) {
+      if (shouldStop()) {
+        return null;
+      }
+      const frame = await source.readFrame(i);
+      let result: ImageData | null;
+      try {
+        result = await client.runPipeline(frame.image, steps).promise;
+      } finally {
+        client.releaseSource(frame.image);
+      }
+      if (!result) {
+        return null;
+      }
+      await encoder.add(result, timestamp, frame.duration);
+      timestamp += frame.duration;
+      onProgress(i + 1, source.frameCount);
+    }
+    return await encoder.finish(timestamp);
+  } finally {
+    encoder.close();
+  }
+};
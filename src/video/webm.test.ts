@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { createWebmWriter } from './webm';
+
+interface Element {
+  id: number;
+  /** Offset of the element's id from the start of the buffer. */
+  start: number;
+  /** Length of the size field, to check sizes use the shortest valid encoding. */
+  sizeLength: number;
+  data: Uint8Array;
+  /** Offset of the payload from the start of the buffer. */
+  dataStart: number;
+}
+
+const SEGMENT = 0x18538067;
+const CUES = 0x1c53bb6b;
+const CUE_POINT = 0xbb;
+const CUE_TIME = 0xb3;
+const CUE_TRACK_POSITIONS = 0xb7;
+const CUE_CLUSTER_POSITION = 0xf1;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+/** Length of an EBML variable-length integer, from the marker bit of its first byte. */
+const vintLength = (first: number) => {
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  return length;
+};
+
+/** Reads the elements in `bytes[start, end)`, which must fill the range exactly. */
+const readElements = (bytes: Uint8Array, start = 0, end = bytes.length): Element[] => {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const idLength = vintLength(bytes[offset]);
+    const id = bytes.subarray(offset, offset + idLength).reduce((value, byte) => value * 256 + byte, 0);
+    const sizeLength = vintLength(bytes[offset + idLength]);
+    let size = bytes[offset + idLength] & (0xff >> sizeLength);
+    for (let i = 1; i < sizeLength; i++) {
+      size = size * 256 + bytes[offset + idLength + i];
+    }
+    const dataStart = offset + idLength + sizeLength;
+    elements.push({ id, start: offset, sizeLength, data: bytes.subarray(dataStart, dataStart + size), dataStart });
+    offset = dataStart + size;
+  }
+  expect(offset).toBe(end);
+  return elements;
+};
+
+const children = (bytes: Uint8Array, parent: Element) =>
+  readElements(bytes, parent.dataStart, parent.dataStart + parent.data.length);
+
+const child = (bytes: Uint8Array, parent: Element, id: number) => children(bytes, parent).find((e) => e.id === id)!;
+
+const uint = (element: Element) => element.data.reduce((value, byte) => value * 256 + byte, 0);
+
+const render = async (frames: { size: number; timestamp: number; keyFrame: boolean }[]) => {
+  const writer = createWebmWriter(64, 48, 'V_VP9');
+  frames.forEach(({ size, timestamp, keyFrame }) => writer.addFrame(new Uint8Array(size).fill(7), timestamp, keyFrame));
+  return new Uint8Array(await writer.finish(frames.length * 40_000).arrayBuffer());
+};
+
+describe('createWebmWriter', () => {
+  it('writes element sizes that add up, in their shortest encoding', async () => {
+    // Block payloads of 126, 127 and 16,383 bytes sit at the edges of 1- and 2-byte sizes.
+    const bytes = await render([
+      { size: 122, timestamp: 0, keyFrame: true },
+      { size: 123, timestamp: 40_000, keyFrame: false },
+      { size: 16_379, timestamp: 80_000, keyFrame: false },
+    ]);
+    const [header, segment] = readElements(bytes);
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(segment.id).toBe(SEGMENT);
+    const blocks = children(bytes, child(bytes, segment, CLUSTER)).filter((e) => e.id === SIMPLE_BLOCK);
+    expect(blocks.map((block) => [block.data.length, block.sizeLength])).toEqual([
+      [126, 1],
+      [127, 2],
+      [16_383, 3],
+    ]);
+  });
+
+  it('starts a cluster at every key frame and points a cue at each', async () => {
+    const bytes = await render([
+      { size: 10, timestamp: 0, keyFrame: true },
+      { size: 10, timestamp: 40_000, keyFrame: false },
+      { size: 10, timestamp: 80_000, keyFrame: true },
+      { size: 10, timestamp: 120_000, keyFrame: false },
+    ]);
+    const [, segment] = readElements(bytes);
+    const clusters = children(bytes, segment).filter((e) => e.id === CLUSTER);
+    expect(clusters.map((cluster) => uint(child(bytes, cluster, TIMECODE)))).toEqual([0, 80]);
+
+    const cuePoints = children(bytes, child(bytes, segment, CUES)).filter((e) => e.id === CUE_POINT);
+    expect(cuePoints.map((cue) => uint(child(bytes, cue, CUE_TIME)))).toEqual([0, 80]);
+    const positions = cuePoints.map((cue) =>
+      uint(child(bytes, child(bytes, cue, CUE_TRACK_POSITIONS), CUE_CLUSTER_POSITION))
+    );
+    // Cluster positions count from the start of the segment's payload.
+    expect(positions.map((position) => position + segment.dataStart)).toEqual(clusters.map((cluster) => cluster.start));
+
+    const blocks = children(bytes, clusters[1]).filter((e) => e.id === SIMPLE_BLOCK);
+    expect(blocks.map((block) => [new DataView(block.data.buffer, block.data.byteOffset).getInt16(1), block.data[3]])).toEqual([
+      [0, 0x80],
+      [40, 0],
+    ]);
+  });
+
+  it('starts a new cluster before block timecodes overflow', async () => {
+    const bytes = await render([
+      { size: 10, timestamp: 0, keyFrame: true },
+      { size: 10, timestamp: 32_767_000, keyFrame: false },
+      { size: 10, timestamp: 32_768_000, keyFrame: false },
+    ]);
+    const [, segment] = readElements(bytes);
+    const clusters = children(bytes, segment).filter((e) => e.id === CLUSTER);
+    expect(clusters.map((cluster) => uint(child(bytes, cluster, TIMECODE)))).toEqual([0, 32_768]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * A minimal WebM (Matroska) muxer for one VP8 or VP9 video track, enough for
+ * browsers and common players to play and seek the clips the editor renders.
+ * Everything is kept in memory and written out by `finish`.
+ */
+
+export type WebmCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebmWriter {
+  /** Adds an encoded frame; `timestamp` is in microseconds from the start of the clip. */
+  addFrame: (data: Uint8Array, timestamp: number, keyFrame: boolean) => void;
+  /** Returns the file for a clip of `duration` microseconds. */
+  finish: (duration: number) => Blob;
+}
+
+// Element ids, written with their length marker bits as in the Matroska specification.
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const FLAG_LACING = 0x9c;
+const CODEC_ID = 0x86;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CUES = 0x1c53bb6b;
+const CUE_POINT = 0xbb;
+const CUE_TIME = 0xb3;
+const CUE_TRACK_POSITIONS = 0xb7;
+const CUE_TRACK = 0xf7;
+const CUE_CLUSTER_POSITION = 0xf1;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+const TRACK = 1;
+const TRACK_TYPE_VIDEO = 1;
+/** Timecodes count milliseconds. */
+const TIMECODE_SCALE_NS = 1_000_000;
+/** Block timecodes are signed 16-bit offsets from their cluster's. */
+const MAX_CLUSTER_SPAN_MS = 32_767;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** Big-endian bytes of a non-negative integer, at least `width` of them. */
+const uintBytes = (value: number, width = 1): Uint8Array => {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length < width; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return new Uint8Array(bytes);
+};
+
+/** An element size as an EBML variable-length integer. */
+const sizeBytes = (size: number): Uint8Array => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const element = (id: number, ...children: Uint8Array[]): Uint8Array => {
+  const payload = concat(children);
+  return concat([uintBytes(id), sizeBytes(payload.length), payload]);
+};
+
+const uintElement = (id: number, value: number, width?: number) => element(id, uintBytes(value, width));
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const stringElement = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+interface Cluster {
+  timecode: number;
+  blocks: Uint8Array[];
+}
+
+export const createWebmWriter = (width: number, height: number, codec: WebmCodec): WebmWriter => {
+  const clusters: Cluster[] = [];
+
+  const addFrame = (data: Uint8Array, timestamp: number, keyFrame: boolean) => {
+    const timecode = Math.round(timestamp / 1000);
+    let cluster = clusters[clusters.length - 1];
+    // Start clusters on key frames so each cue points at a place playback can begin.
+    if (!cluster || keyFrame || timecode - cluster.timecode > MAX_CLUSTER_SPAN_MS) {
+      cluster = { timecode, blocks: [] };
+      clusters.push(cluster);
+    }
+    const header = new Uint8Array(4);
+    header[0] = 0x80 | TRACK;
+    new DataView(header.buffer).setInt16(1, timecode - cluster.timecode);
+    header[3] = keyFrame ? 0x80 : 0;
+    cluster.blocks.push(element(SIMPLE_BLOCK, header, data));
+  };
+
+  const finish = (duration: number): Blob => {
+    const header = element(
+      EBML,
+      uintElement(EBML_VERSION, 1),
+      uintElement(EBML_READ_VERSION, 1),
+      uintElement(EBML_MAX_ID_LENGTH, 4),
+      uintElement(EBML_MAX_SIZE_LENGTH, 8),
+      stringElement(DOC_TYPE, 'webm'),
+      uintElement(DOC_TYPE_VERSION, 2),
+      uintElement(DOC_TYPE_READ_VERSION, 2)
+    );
+    const info = element(
+      INFO,
+      uintElement(TIMECODE_SCALE, TIMECODE_SCALE_NS),
+      floatElement(DURATION, duration / 1000),
+      stringElement(MUXING_APP, 'image-mod'),
+      stringElement(WRITING_APP, 'image-mod')
+    );
+    const tracks = element(
+      TRACKS,
+      element(
+        TRACK_ENTRY,
+        uintElement(TRACK_NUMBER, TRACK),
+        uintElement(TRACK_UID, TRACK),
+        uintElement(TRACK_TYPE, TRACK_TYPE_VIDEO),
+        uintElement(FLAG_LACING, 0),
+        stringElement(CODEC_ID, codec),
+        element(VIDEO, uintElement(PIXEL_WIDTH, width), uintElement(PIXEL_HEIGHT, height))
+      )
+    );
+    const clusterBytes = clusters.map((cluster) =>
+      element(CLUSTER, uintElement(TIMECODE, cluster.timecode), ...cluster.blocks)
+    );
+    // Cues come before the clusters they index. Positions are fixed-width, so
+    // the size of the cues (and with it every cluster's position) is known
+    // before the positions are filled in.
+    const cuePoints = (positions: number[]) =>
+      clusters.map((cluster, i) =>
+        element(
+          CUE_POINT,
+          uintElement(CUE_TIME, cluster.timecode),
+          element(
+            CUE_TRACK_POSITIONS,
+            uintElement(CUE_TRACK, TRACK),
+            uintElement(CUE_CLUSTER_POSITION, positions[i], 8)
+          )
+        )
+      );
+    const cuesLength = element(CUES, ...cuePoints(clusters.map(() => 0))).length;
+    const positions: number[] = [];
+    let position = info.length + tracks.length + cuesLength;
+    for (const cluster of clusterBytes) {
+      positions.push(position);
+      position += cluster.length;
+    }
+    const segment = element(SEGMENT, info, tracks, element(CUES, ...cuePoints(positions)), ...clusterBytes);
+    return new Blob([header, segment], { type: 'video/webm' });
+  };
+
+  return { addFrame, finish };
+};
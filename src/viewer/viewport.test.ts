@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { FIT_VIEWPORT, MAX_ZOOM, MIN_ZOOM, imageRect, panBy, viewToImage, zoomAt } from './viewport';
+
+const view = { width: 400, height: 300 };
+const image = { width: 800, height: 400 };
+
+describe('viewport', () => {
+  it('fits and centres the whole image', () => {
+    expect(imageRect(FIT_VIEWPORT, view, image)).toEqual({ x: 0, y: 50, width: 400, height: 200 });
+    expect(viewToImage(FIT_VIEWPORT, view, image, 100, 100)).toEqual([0.25, 0.25]);
+  });
+
+  it('zooms about a point, keeping the image point under it in place', () => {
+    const zoomed = zoomAt(FIT_VIEWPORT, view, image, 2, 100, 100);
+    expect(zoomed.zoom).toBe(2);
+    const [x, y] = viewToImage(zoomed, view, image, 100, 100);
+    expect(x).toBeCloseTo(0.25);
+    expect(y).toBeCloseTo(0.25);
+  });
+
+  it('zooms about the centre by default and clamps the zoom', () => {
+    expect(zoomAt(FIT_VIEWPORT, view, image, 4)).toEqual({ zoom: 4, cx: 0.5, cy: 0.5 });
+    expect(zoomAt(FIT_VIEWPORT, view, image, 1000).zoom).toBe(MAX_ZOOM);
+    expect(zoomAt(FIT_VIEWPORT, view, image, 0).zoom).toBe(MIN_ZOOM);
+  });
+
+  it('pans by screen pixels at the current zoom, fixing a fitted zoom', () => {
+    expect(panBy({ zoom: 1, cx: 0.5, cy: 0.5 }, view, image, 80, -40)).toEqual({ zoom: 1, cx: 0.4, cy: 0.6 });
+    expect(panBy(FIT_VIEWPORT, view, image, 0, 0)).toEqual({ zoom: 0.5, cx: 0.5, cy: 0.5 });
+  });
+
+  it('keeps the centre on the image', () => {
+    expect(panBy({ zoom: 1, cx: 0.5, cy: 0.5 }, view, image, 10000, -10000)).toEqual({ zoom: 1, cx: 0, cy: 1 });
+  });
+});
@@ -0,0 +1,79 @@
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * What part of an image a viewer shows. `zoom` is screen pixels per pixel of
+ * the reference image (the full-resolution original), so panes showing a
+ * downscaled proxy of the same image still line up; null fits the whole
+ * image. The centre is a fraction of the image width and height.
+ */
+export interface Viewport {
+  zoom: number | null;
+  cx: number;
+  cy: number;
+}
+
+export const FIT_VIEWPORT: Viewport = { zoom: null, cx: 0.5, cy: 0.5 };
+
+export const MIN_ZOOM = 0.02;
+export const MAX_ZOOM = 32;
+
+/** Above this many screen pixels per image pixel, images are drawn with nearest-neighbour sampling. */
+export const PIXELATED_ZOOM = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const fitZoom = (view: Size, image: Size): number =>
+  Math.min(view.width / image.width, view.height / image.height);
+
+export const effectiveZoom = (viewport: Viewport, view: Size, image: Size): number =>
+  viewport.zoom ?? fitZoom(view, image);
+
+/** Screen rectangle, relative to the view, that the whole image is drawn into. */
+export const imageRect = (viewport: Viewport, view: Size, image: Size) => {
+  const zoom = effectiveZoom(viewport, view, image);
+  const width = image.width * zoom;
+  const height = image.height * zoom;
+  return {
+    x: view.width / 2 - viewport.cx * width,
+    y: view.height / 2 - viewport.cy * height,
+    width,
+    height,
+  };
+};
+
+/** Converts a point in view coordinates to fractions of the image width and height. */
+export const viewToImage = (viewport: Viewport, view: Size, image: Size, x: number, y: number): [number, number] => {
+  const rect = imageRect(viewport, view, image);
+  return [(x - rect.x) / rect.width, (y - rect.y) / rect.height];
+};
+
+/** Sets the zoom, keeping the image point under view position (`x`, `y`) in place. */
+export const zoomAt = (
+  viewport: Viewport,
+  view: Size,
+  image: Size,
+  zoom: number,
+  x = view.width / 2,
+  y = view.height / 2
+): Viewport => {
+  const next = clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+  const [px, py] = viewToImage(viewport, view, image, x, y);
+  return {
+    zoom: next,
+    cx: clamp(px - (x - view.width / 2) / (image.width * next), 0, 1),
+    cy: clamp(py - (y - view.height / 2) / (image.height * next), 0, 1),
+  };
+};
+
+/** Moves the view by a drag of (`dx`, `dy`) screen pixels. */
+export const panBy = (viewport: Viewport, view: Size, image: Size, dx: number, dy: number): Viewport => {
+  const zoom = effectiveZoom(viewport, view, image);
+  return {
+    zoom,
+    cx: clamp(viewport.cx - dx / (image.width * zoom), 0, 1),
+    cy: clamp(viewport.cy - dy / (image.height * zoom), 0, 1),
+  };
+};
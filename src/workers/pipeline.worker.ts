@@ -0,0 +1,221 @@
+import opencvUrl from '@techstark/opencv-js/dist/opencv.js?url';
+import { runStep } from '../processing/applyProcessingStep';
+import { operationLabel } from '../processing/operations';
+import { formatAfter } from '../processing/formats';
+import { liveObjects, trackAllocations } from '../processing/matScope';
+import { matToRgba16Image, matToRgbaImage } from '../processing/opencvBackend';
+import { createPipelineCache, prefixKeys } from '../processing/pipelineCache';
+import { describeError, describeOpenCvError } from '../utils/errors';
+import { LiveObjects, OpenCvState, PipelineRequest, PipelineResponse, RunPipelineMessage } from './protocol';
+
+const scope = self as unknown as {
+  cv: any;
+  onmessage: ((event: MessageEvent<PipelineRequest>) => void) | null;
+  postMessage: (message: PipelineResponse, options?: { transfer?: Transferable[] }) => void;
+};
+
+let openCvReady: Promise<void> | null = null;
+// The newest job of each client channel. Jobs from different channels share
+// the worker, taking turns between steps; a newer job on the same channel
+// cancels the one before it.
+const latestJobs = new Map<number, number>();
+let running = 0;
+const sources = new Map<number, ImageData>();
+const sourceMats = new Map<number, any>();
+const cache = createPipelineCache();
+// What each cached prefix's last step reported, so cache hits can report it again.
+const reports = new Map<string, { sourceId: number; message: string }>();
+const MAX_REPORTS = 500;
+let debug = false;
+
+const postOpenCvState = (state: OpenCvState) => scope.postMessage({ type: 'openCv', state });
+
+// opencv.js is a UMD bundle and module workers have no importScripts, so the
+// source is evaluated at global scope where it assigns `self.cv`. The Module
+// object it creates is thenable, so it must never be passed to resolve(). A
+// failed load is forgotten so the next job or retry starts over.
+const loadOpenCv = (): Promise<void> => {
+  if (!openCvReady) {
+    postOpenCvState({ status: 'loading' });
+    openCvReady = fetch(opencvUrl)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`${opencvUrl} returned HTTP ${response.status}`);
+        }
+        return response.text();
+      })
+      .then((source) => new Promise<void>((resolve, reject) => {
+        (0, eval)(source);
+        if (scope.cv.Mat) {
+          resolve();
+        } else {
+          scope.cv.onRuntimeInitialized = () => resolve();
+          scope.cv.onAbort = (reason: unknown) => reject(new Error(`the WebAssembly runtime aborted: ${reason}`));
+        }
+      }))
+      .then(
+        () => postOpenCvState({ status: 'ready' }),
+        (error) => {
+          openCvReady = null;
+          const message = `OpenCV failed to load: ${describeError(error)}`;
+          postOpenCvState({ status: 'error', message });
+          throw new Error(message);
+        }
+      );
+  }
+  return openCvReady;
+};
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const getSourceMat = (cv: any, sourceId: number) => {
+  let mat = sourceMats.get(sourceId);
+  if (!mat) {
+    const image = sources.get(sourceId);
+    if (!image) {
+      throw new Error(`Unknown pipeline source ${sourceId}`);
+    }
+    mat = cv.matFromImageData(image);
+    sourceMats.set(sourceId, mat);
+  }
+  return mat;
+};
+
+const releaseSource = (sourceId: number) => {
+  sources.delete(sourceId);
+  sourceMats.get(sourceId)?.delete();
+  sourceMats.delete(sourceId);
+  cache.releaseSource(sourceId);
+  for (const [key, report] of reports) {
+    if (report.sourceId === sourceId) {
+      reports.delete(key);
+    }
+  }
+};
+
+const saveReport = (key: string, sourceId: number, message: string) => {
+  reports.delete(key);
+  reports.set(key, { sourceId, message });
+  if (reports.size > MAX_REPORTS) {
+    reports.delete(reports.keys().next().value as string);
+  }
+};
+
+const countLiveObjects = (): LiveObjects => {
+  const counts = liveObjects();
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  return { counts, total, held: sourceMats.size + cache.usage().entries };
+};
+
+const isLatest = (channel: number, jobId: number) => latestJobs.get(channel) === jobId;
+
+const runPipeline = async ({ jobId, channel, sourceId, steps, depth }: RunPipelineMessage) => {
+  try {
+    await loadOpenCv();
+  } catch (error) {
+    scope.postMessage({ type: 'error', jobId, message: (error as Error).message });
+    return;
+  }
+  // Tracked so every Mat the worker allocates can be counted in debug mode.
+  const cv = trackAllocations(scope.cv);
+  if (!isLatest(channel, jobId)) {
+    scope.postMessage({ type: 'cancelled', jobId });
+    return;
+  }
+
+  // Resume from the longest prefix of the chain that is still cached.
+  const keys = prefixKeys(sourceId, steps);
+  let start = steps.length;
+  while (start > 0 && !cache.has(keys[start - 1])) {
+    start--;
+  }
+
+  let src: any = null;
+  let current = -1;
+  running++;
+  try {
+    src = start > 0 ? cache.take(keys[start - 1]) : getSourceMat(cv, sourceId).clone();
+    for (let i = 0; i < start; i++) {
+      const report = reports.get(keys[i]);
+      if (report) {
+        scope.postMessage({ type: 'report', jobId, stepId: steps[i].id, message: report.message });
+      }
+    }
+    scope.postMessage({ type: 'progress', jobId, completed: start, total: steps.length, cached: start });
+
+    for (let i = start; i < steps.length; i++) {
+      await yieldToEventLoop();
+      if (!isLatest(channel, jobId)) {
+        scope.postMessage({ type: 'cancelled', jobId });
+        return;
+      }
+      current = i;
+      reports.delete(keys[i]);
+      const dst = runStep(cv, src, formatAfter(steps, i), steps[i], (message) => {
+        saveReport(keys[i], sourceId, message);
+        scope.postMessage({ type: 'report', jobId, stepId: steps[i].id, message });
+      });
+      src.delete();
+      src = dst;
+      // The client may have released the source while this step ran.
+      if (sources.has(sourceId)) {
+        cache.put(keys[i], src, sourceId);
+      }
+      current = -1;
+      scope.postMessage({ type: 'progress', jobId, completed: i + 1, total: steps.length, cached: start });
+    }
+
+    if (depth === 16) {
+      const result = matToRgba16Image(cv, src, formatAfter(steps));
+      scope.postMessage({ type: 'result', jobId, image: result }, { transfer: [result.data.buffer] });
+    } else {
+      const rgba = matToRgbaImage(cv, src, formatAfter(steps));
+      const result = new ImageData(rgba.data, rgba.width, rgba.height);
+      scope.postMessage({ type: 'result', jobId, image: result }, { transfer: [result.data.buffer] });
+    }
+  } catch (error) {
+    const message = describeOpenCvError(cv, error);
+    scope.postMessage({
+      type: 'error',
+      jobId,
+      message: current >= 0 ? `Step ${current + 1} (${operationLabel(steps[current].option)}): ${message}` : message,
+    });
+  } finally {
+    src?.delete();
+    running--;
+    if (isLatest(channel, jobId)) {
+      latestJobs.delete(channel);
+    }
+    // Counted only once no job is mid-run, when every Mat not held should be gone.
+    if (debug && running === 0) {
+      scope.postMessage({ type: 'liveObjects', jobId, objects: countLiveObjects() });
+    }
+  }
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'setSource':
+      sources.set(message.sourceId, message.image);
+      break;
+    case 'releaseSource':
+      releaseSource(message.sourceId);
+      break;
+    case 'run':
+      latestJobs.set(message.channel, message.jobId);
+      runPipeline(message);
+      break;
+    case 'cancel':
+      if (isLatest(message.channel, message.jobId)) {
+        latestJobs.delete(message.channel);
+      }
+      break;
+    case 'loadOpenCv':
+      loadOpenCv().catch(() => {});
+      break;
+    case 'setDebug':
+      debug = message.enabled;
+      break;
+  }
+};
@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { PipelineRequest } from './protocol';
+
+/** Records what clients post and lets the test raise the worker's error events. */
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  posted: PipelineRequest[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Partial<ErrorEvent>) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+
+  constructor() {
+    FakeWorker.created.push(this);
+  }
+
+  postMessage(message: PipelineRequest) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  crash(message: string) {
+    this.onerror?.({ message, preventDefault: () => {} });
+  }
+}
+
+const image = { width: 1, height: 1, data: new Uint8ClampedArray(4) } as ImageData;
+
+describe('pipeline client', () => {
+  let client: typeof import('./pipelineClient');
+
+  beforeAll(async () => {
+    vi.stubGlobal('navigator', { hardwareConcurrency: 1 });
+    vi.stubGlobal('Worker', FakeWorker);
+    client = await import('./pipelineClient');
+  });
+
+  it('rejects the jobs of a crashed worker and sends sources again to its replacement', async () => {
+    const pipeline = client.createPipelineClient();
+    const job = pipeline.runPipeline(image, []);
+    const crashed = FakeWorker.created.at(-1)!;
+    expect(crashed.posted.map((message) => message.type)).toEqual(['setSource', 'run']);
+
+    crashed.crash('out of memory');
+    await expect(job.promise).rejects.toThrow('The processing worker stopped: out of memory');
+    expect(crashed.terminated).toBe(true);
+
+    pipeline.runPipeline(image, []);
+    const replacement = FakeWorker.created.at(-1)!;
+    expect(replacement).not.toBe(crashed);
+    expect(replacement.posted.map((message) => message.type)).toEqual(['setSource', 'run']);
+    pipeline.close();
+  });
+
+  it('does not start a worker to release sources a crashed worker took with it', async () => {
+    const pipeline = client.createPipelineClient();
+    const job = pipeline.runPipeline(image, []);
+    const worker = FakeWorker.created.at(-1)!;
+
+    worker.onmessageerror?.();
+    await expect(job.promise).rejects.toThrow('a message could not be read');
+
+    const workers = FakeWorker.created.length;
+    const posted = worker.posted.length;
+    pipeline.releaseSource(image);
+    expect(FakeWorker.created.length).toBe(workers);
+    expect(worker.posted.length).toBe(posted);
+  });
+});
@@ -0,0 +1,302 @@
+import { ProcessingStep } from '../types';
+import { LiveObjects, OpenCvState, PipelineRequest, PipelineResponse, Rgba16Image } from './protocol';
+
+export interface PipelineJob<T = ImageData> {
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+export type ProgressCallback = (completed: number, total: number, cached: number) => void;
+/** Receives what a step reported about its run, such as an automatically picked threshold. */
+export type ReportCallback = (stepId: string, message: string) => void;
+
+export interface PipelineClient {
+  /**
+   * Runs `steps` over `image` in this client's pool worker. Starting a job
+   * supersedes the client's job still in flight, which then resolves to
+   * `null`; other clients' jobs are left alone. The worker caches the result
+   * of every step prefix, so only steps after the first change are rerun.
+   */
+  runPipeline: (
+    image: ImageData,
+    steps: ProcessingStep[],
+    onProgress?: ProgressCallback,
+    onReport?: ReportCallback
+  ) => PipelineJob;
+  /** Like runPipeline, but the result has 16 bits per sample so float results keep their precision. */
+  runPipeline16: (
+    image: ImageData,
+    steps: ProcessingStep[],
+    onProgress?: ProgressCallback,
+    onReport?: ReportCallback
+  ) => PipelineJob<Rgba16Image>;
+  /** Frees the worker's copy of `image` along with every intermediate result cached for it. */
+  releaseSource: (image: ImageData) => void;
+  /**
+   * Cancels the client's jobs, which resolve to `null`, and releases every
+   * source it sent. The worker keeps running for other clients.
+   */
+  close: () => void;
+}
+
+/** Live OpenCV objects summed over every started pool worker. */
+export interface PoolLiveObjects extends LiveObjects {
+  workers: number;
+}
+
+interface PendingJob {
+  /** The worker running the job, whose crash rejects it. */
+  entry: PoolWorker;
+  resolve: (image: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+  onReport?: ReportCallback;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  openCvState: OpenCvState;
+  liveObjects: LiveObjects | null;
+}
+
+/**
+ * Workers every client shares. Each loads its own copy of OpenCV, so the pool
+ * only grows when clients ask for parallel work, such as a batch run.
+ */
+export const POOL_SIZE = Math.max(1, Math.min(4, navigator.hardwareConcurrency || 1));
+
+const pool: (PoolWorker | undefined)[] = [];
+const pendingJobs = new Map<number, PendingJob>();
+let nextJobId = 1;
+let nextSourceId = 1;
+let nextChannel = 1;
+let debug = false;
+const openCvListeners = new Set<(state: OpenCvState) => void>();
+const liveObjectListeners = new Set<(objects: PoolLiveObjects) => void>();
+
+const started = () => pool.filter((entry): entry is PoolWorker => entry !== undefined);
+
+/** A failed worker outranks a loading one, which outranks ready ones. */
+const poolOpenCvState = (): OpenCvState => {
+  const states = started().map((entry) => entry.openCvState);
+  return (
+    states.find((state) => state.status === 'error') ??
+    states.find((state) => state.status === 'loading') ?? { status: states.length > 0 ? 'ready' : 'loading' }
+  );
+};
+
+const poolLiveObjects = (): PoolLiveObjects => {
+  const sum: PoolLiveObjects = { counts: {}, total: 0, held: 0, workers: 0 };
+  for (const { liveObjects } of started()) {
+    if (liveObjects) {
+      for (const [name, count] of Object.entries(liveObjects.counts)) {
+        sum.counts[name] = (sum.counts[name] ?? 0) + count;
+      }
+      sum.total += liveObjects.total;
+      sum.held += liveObjects.held;
+      sum.workers++;
+    }
+  }
+  return sum;
+};
+
+const handleMessage = (entry: PoolWorker, message: PipelineResponse) => {
+  if (message.type === 'openCv') {
+    entry.openCvState = message.state;
+    const state = poolOpenCvState();
+    openCvListeners.forEach((listener) => listener(state));
+    return;
+  }
+  if (message.type === 'liveObjects') {
+    entry.liveObjects = message.objects;
+    const objects = poolLiveObjects();
+    liveObjectListeners.forEach((listener) => listener(objects));
+    return;
+  }
+  const job = pendingJobs.get(message.jobId);
+  if (!job) {
+    return;
+  }
+  switch (message.type) {
+    case 'progress':
+      job.onProgress?.(message.completed, message.total, message.cached);
+      break;
+    case 'report':
+      job.onReport?.(message.stepId, message.message);
+      break;
+    case 'result':
+      pendingJobs.delete(message.jobId);
+      job.resolve(message.image);
+      break;
+    case 'cancelled':
+      pendingJobs.delete(message.jobId);
+      job.resolve(null);
+      break;
+    case 'error':
+      pendingJobs.delete(message.jobId);
+      job.reject(new Error(message.message));
+      break;
+  }
+};
+
+/**
+ * Drops a worker that threw or sent a message it could not deserialize, and
+ * rejects its jobs. The slot gets a fresh worker on its next use; clients
+ * notice the change and send their sources again.
+ */
+const handleCrash = (slot: number, entry: PoolWorker, reason: string) => {
+  entry.worker.terminate();
+  if (pool[slot] === entry) {
+    pool[slot] = undefined;
+  }
+  for (const [jobId, job] of pendingJobs) {
+    if (job.entry === entry) {
+      pendingJobs.delete(jobId);
+      job.reject(new Error(`The processing worker stopped: ${reason}`));
+    }
+  }
+  const state = poolOpenCvState();
+  openCvListeners.forEach((listener) => listener(state));
+};
+
+const getWorker = (slot: number): PoolWorker => {
+  let entry = pool[slot];
+  if (!entry) {
+    const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+    const created: PoolWorker = { worker, openCvState: { status: 'loading' }, liveObjects: null };
+    worker.onmessage = (event: MessageEvent<PipelineResponse>) => handleMessage(created, event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      handleCrash(slot, created, event.message || 'unknown error');
+    };
+    worker.onmessageerror = () => handleCrash(slot, created, 'a message could not be read');
+    if (debug) {
+      worker.postMessage({ type: 'setDebug', enabled: true });
+    }
+    pool[slot] = entry = created;
+  }
+  return entry;
+};
+
+/**
+ * Creates a client on pool worker `slot`. Clients on different slots run in
+ * parallel; clients on one slot take turns between steps. Slots past the
+ * pool's size wrap around.
+ */
+export const createPipelineClient = (slot = 0): PipelineClient => {
+  const workerSlot = slot % POOL_SIZE;
+  const channel = nextChannel++;
+  const jobIds = new Set<number>();
+  const sourceIds = new Map<ImageData, number>();
+  // The worker `sourceIds` were sent to; a replacement after a crash has none of them.
+  let sourcesEntry: PoolWorker | undefined;
+
+  const post = (message: PipelineRequest) => getWorker(workerSlot).worker.postMessage(message);
+
+  const registerSource = (image: ImageData): number => {
+    const entry = getWorker(workerSlot);
+    if (entry !== sourcesEntry) {
+      sourceIds.clear();
+      sourcesEntry = entry;
+    }
+    let sourceId = sourceIds.get(image);
+    if (sourceId === undefined) {
+      sourceId = nextSourceId++;
+      sourceIds.set(image, sourceId);
+      post({ type: 'setSource', sourceId, image });
+    }
+    return sourceId;
+  };
+
+  const startJob = <T>(
+    image: ImageData,
+    steps: ProcessingStep[],
+    depth: 8 | 16,
+    onProgress?: ProgressCallback,
+    onReport?: ReportCallback
+  ) => {
+    const jobId = nextJobId++;
+    jobIds.add(jobId);
+    const sourceId = registerSource(image);
+    const promise = new Promise<T | null>((resolve, reject) => {
+      pendingJobs.set(jobId, { entry: getWorker(workerSlot), resolve, reject, onProgress, onReport });
+    }).finally(() => jobIds.delete(jobId));
+    post({ type: 'run', jobId, channel, sourceId, steps, depth });
+
+    return {
+      promise,
+      cancel: () => post({ type: 'cancel', jobId, channel }),
+    };
+  };
+
+  const releaseSource = (image: ImageData) => {
+    const sourceId = sourceIds.get(image);
+    if (sourceId !== undefined) {
+      sourceIds.delete(image);
+      // A crashed worker took its sources with it.
+      if (pool[workerSlot] === sourcesEntry) {
+        post({ type: 'releaseSource', sourceId });
+      }
+    }
+  };
+
+  return {
+    runPipeline: (image, steps, onProgress, onReport) => startJob<ImageData>(image, steps, 8, onProgress, onReport),
+    runPipeline16: (image, steps, onProgress, onReport) =>
+      startJob<Rgba16Image>(image, steps, 16, onProgress, onReport),
+    releaseSource,
+    close: () => {
+      for (const jobId of jobIds) {
+        post({ type: 'cancel', jobId, channel });
+        pendingJobs.get(jobId)?.resolve(null);
+        pendingJobs.delete(jobId);
+      }
+      [...sourceIds.keys()].forEach(releaseSource);
+    },
+  };
+};
+
+/** Starts loading OpenCV in the first worker, and again in any worker whose load failed. */
+export const loadOpenCv = () => {
+  getWorker(0);
+  for (const entry of started()) {
+    if (entry.openCvState.status !== 'ready') {
+      entry.worker.postMessage({ type: 'loadOpenCv' });
+    }
+  }
+};
+
+/**
+ * Calls `listener` with the pool's OpenCV load state now and on every change:
+ * an error if any worker failed to load it, loading while any still is, else
+ * ready. Returns an unsubscribe function.
+ */
+export const onOpenCvState = (listener: (state: OpenCvState) => void) => {
+  openCvListeners.add(listener);
+  listener(poolOpenCvState());
+  return () => {
+    openCvListeners.delete(listener);
+  };
+};
+
+/** In debug mode each worker counts its live OpenCV objects whenever it goes idle and sends them to onLiveObjects. */
+export const setDebug = (enabled: boolean) => {
+  debug = enabled;
+  // Workers started later are sent the setting when they are created.
+  for (const entry of started()) {
+    entry.worker.postMessage({ type: 'setDebug', enabled });
+  }
+};
+
+/** Calls `listener` with the live object counts of the whole pool after each debug-mode count; returns an unsubscribe function. */
+export const onLiveObjects = (listener: (objects: PoolLiveObjects) => void) => {
+  liveObjectListeners.add(listener);
+  return () => {
+    liveObjectListeners.delete(listener);
+  };
+};
+
+const defaultClient = createPipelineClient();
+
+export const runPipeline = defaultClient.runPipeline;
+export const releaseSource = defaultClient.releaseSource;
@@ -0,0 +1,78 @@
+import { ProcessingStep } from '../types';
+
+/** RGBA with 16 bits per sample, for exports that keep the precision of float results. */
+export interface Rgba16Image {
+  width: number;
+  height: number;
+  data: Uint16Array;
+}
+
+export interface SetSourceMessage {
+  type: 'setSource';
+  sourceId: number;
+  image: ImageData;
+}
+
+export interface ReleaseSourceMessage {
+  type: 'releaseSource';
+  sourceId: number;
+}
+
+export interface RunPipelineMessage {
+  type: 'run';
+  jobId: number;
+  /** The client that sent the job; a newer job on the same channel cancels this one. */
+  channel: number;
+  sourceId: number;
+  steps: ProcessingStep[];
+  /** Bits per sample of the result; defaults to 8. */
+  depth?: 8 | 16;
+}
+
+export interface CancelPipelineMessage {
+  type: 'cancel';
+  jobId: number;
+  channel: number;
+}
+
+/** Starts loading OpenCV ahead of the first job, or again after it failed to load. */
+export interface LoadOpenCvMessage {
+  type: 'loadOpenCv';
+}
+
+/** Turns on or off a live OpenCV object count after every job, for tracking down leaks. */
+export interface SetDebugMessage {
+  type: 'setDebug';
+  enabled: boolean;
+}
+
+export type PipelineRequest =
+  | SetSourceMessage
+  | ReleaseSourceMessage
+  | RunPipelineMessage
+  | CancelPipelineMessage
+  | LoadOpenCvMessage
+  | SetDebugMessage;
+
+export type OpenCvState = { status: 'loading' } | { status: 'ready' } | { status: 'error'; message: string };
+
+/**
+ * OpenCV objects alive in the worker after a job, by class name. `held` is how
+ * many it keeps on purpose (source images and cached step results); anything
+ * beyond that has leaked.
+ */
+export interface LiveObjects {
+  counts: Record<string, number>;
+  total: number;
+  held: number;
+}
+
+export type PipelineResponse =
+  | { type: 'progress'; jobId: number; completed: number; total: number; cached: number }
+  /** Something a step noted about its run, e.g. the threshold Otsu picked; resent when the step comes from cache. */
+  | { type: 'report'; jobId: number; stepId: string; message: string }
+  | { type: 'result'; jobId: number; image: ImageData | Rgba16Image }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string }
+  | { type: 'openCv'; state: OpenCvState }
+  | { type: 'liveObjects'; jobId: number; objects: LiveObjects };